@@ -0,0 +1,297 @@
+// Command-line decoder for batch work: CI checks on flight logs, headless
+// ground laptops. Same decode path as the web app.
+//
+//   npm run build:cli
+//   node dist-cli/red-decode.js [options] [file ... | -]
+//
+// Reads binary captures, hex text and CSV / JSON-lines / terminal logs
+// (detected per file) or stdin, and writes JSON lines, a wide CSV or a
+// summary. Exit status: 0 ok, 1 bad usage or unreadable input, 2 CRC error
+// rate above --max-crc-errors.
+import { readFile } from "node:fs/promises";
+import { parseArgs } from "node:util";
+import {
+  DISCARD_LABELS,
+  ENVELOPES,
+  FRAMINGS,
+  LINK_METRICS,
+  PROFILES,
+  analyzeSequenceByType,
+  applyCalibrationSet,
+  csvColumns,
+  csvDigits,
+  csvLine,
+  decodeLogRecords,
+  decodeStream,
+  detectCaptureFormat,
+  detectLogFormat,
+  findProfile,
+  frameCsvRow,
+  frameRecord,
+  parseCalibrationSet,
+  parseEnvelope,
+  parseLog,
+  parseSchema,
+  readCapture,
+  streamStats,
+  type CaptureFormat,
+  type DecodeOptions,
+  type Framing,
+  type ProtocolSchema,
+  type StreamResult,
+} from "../src/lib/protocol";
+import { version } from "../package.json";
+
+const USAGE = `Usage: red-decode [options] [file ... | -]
+
+Decodes RED telemetry frames from capture files or stdin (no file or "-").
+
+Options:
+  -o, --output <fmt>        jsonl | csv | summary (default summary)
+  -i, --input <fmt>         auto | binary | hex | log (default auto)
+  -p, --protocol <id>       protocol version: auto | ${PROFILES.map(
+    (p) => p.id
+  ).join(" | ")}
+  -s, --schema <file>       ArgID/Command schema JSON
+  -c, --calibration <file>  calibration set JSON
+      --framing <f>         ${FRAMINGS.map((f) => f.id).join(
+        " | "
+      )} (default raw)
+      --envelope <id|file>  modem envelope: ${ENVELOPES.map((e) => e.id).join(
+        " | "
+      )} or a JSON file
+      --repair <n>          fix up to n flipped bits via CRC (0, 1, 2)
+      --recover             best-effort TLV recovery
+      --max-crc-errors <%>  exit 2 when the CRC error rate is above this
+  -h, --help
+  -v, --version
+`;
+
+type Input = { name: string; format: CaptureFormat; result: StreamResult };
+
+async function readJson(file: string, what: string): Promise<unknown> {
+  try {
+    return JSON.parse(await readFile(file, "utf8"));
+  } catch (e) {
+    throw new Error(`${what} ${file}: ${e instanceof Error ? e.message : e}`);
+  }
+}
+
+async function readSource(name: string): Promise<Uint8Array> {
+  if (name !== "-") return new Uint8Array(await readFile(name));
+  const chunks: Buffer[] = [];
+  for await (const chunk of process.stdin) chunks.push(chunk as Buffer);
+  return new Uint8Array(Buffer.concat(chunks));
+}
+
+async function decodeOptions(
+  values: Record<string, string | boolean | undefined>
+): Promise<DecodeOptions> {
+  const str = (k: string) => values[k] as string | undefined;
+  const calFile = str("calibration");
+  const schemaFile = str("schema");
+  const cal = calFile
+    ? parseCalibrationSet(await readJson(calFile, "calibration"))
+    : null;
+  const calibrate = (s: ProtocolSchema) =>
+    cal ? applyCalibrationSet(s, cal) : s;
+  const profiles = PROFILES.map((p) => ({ ...p, schema: calibrate(p.schema) }));
+
+  const protocol = str("protocol") ?? "auto";
+  if (protocol !== "auto" && !findProfile(protocol))
+    throw new Error(`unknown protocol version "${protocol}"`);
+  const framing = (str("framing") ?? "raw") as Framing;
+  if (!FRAMINGS.some((f) => f.id === framing))
+    throw new Error(`unknown framing "${framing}"`);
+  const repairBits = Number(str("repair") ?? 0);
+  if (![0, 1, 2].includes(repairBits))
+    throw new Error("--repair takes 0, 1 or 2");
+
+  const env = str("envelope");
+  const envelope = !env
+    ? undefined
+    : ENVELOPES.find((e) => e.id === env) ??
+      parseEnvelope(await readJson(env, "envelope"));
+
+  return {
+    schema: schemaFile
+      ? calibrate(parseSchema(await readJson(schemaFile, "schema")))
+      : undefined,
+    profile: profiles.find((p) => p.id === protocol),
+    profiles,
+    recoverTLV: values.recover === true,
+    repairBits,
+    framing,
+    envelope,
+  };
+}
+
+async function decodeInput(
+  name: string,
+  forced: string,
+  opts: DecodeOptions
+): Promise<Input> {
+  const data = await readSource(name);
+  const format =
+    forced === "auto" ? detectCaptureFormat(data) : (forced as CaptureFormat);
+  if (format !== "log")
+    return {
+      name,
+      format,
+      result: decodeStream(readCapture(data, format), opts),
+    };
+  const text = new TextDecoder().decode(data);
+  const log = parseLog(text, { format: detectLogFormat(text) });
+  return { name, format, result: await decodeLogRecords(log.records, opts) };
+}
+
+const percent = (r: number) => `${(100 * r).toFixed(2)}%`;
+
+function summary({ name, format, result }: Input): string {
+  const stats = streamStats(result);
+  const count = (keys: string[]) => {
+    const m = new Map<string, number>();
+    for (const k of keys) m.set(k, (m.get(k) ?? 0) + 1);
+    return [...m].map(([k, n]) => `${k} ${n}`).join(", ") || "none";
+  };
+  const discardedBytes = result.discarded.reduce(
+    (acc, d) => acc + d.end - d.start,
+    0
+  );
+  const lines = [
+    `${name === "-" ? "stdin" : name} (${format})`,
+    `  frames      ${stats.frames} (${stats.valid} valid, ${stats.corrected} corrected)`,
+    `  types       ${count(result.frames.map((f) => f.headerType))}`,
+    `  versions    ${count(result.frames.map((f) => f.version || "unknown"))}`,
+    `  CRC         ${stats.crcFailed} rejected, error rate ${percent(
+      stats.crcErrorRate
+    )}`,
+    `  discarded   ${discardedBytes} B in ${
+      result.discarded.length
+    } ranges: ${count(result.discarded.map((d) => DISCARD_LABELS[d.reason]))}`,
+  ];
+  // One sequence counter per header type
+  for (const { type, indices, analysis: seq } of analyzeSequenceByType(
+    result.frames
+  )) {
+    const [first, last] = [indices[0], indices[indices.length - 1]];
+    lines.push(
+      `  ${type.padEnd(11)} sequence ${result.frames[first].sequence} … ${
+        result.frames[last].sequence
+      }`,
+      `              loss ${seq.lost} of ${seq.expected} (${percent(
+        seq.lossRate
+      )}), ${seq.duplicates} duplicate, ${seq.reordered} out of order`,
+      `              counter ${seq.wraps} wraps, ${seq.resets} resets`
+    );
+  }
+  for (const m of LINK_METRICS) {
+    const v = result.frames
+      .map((f) => f.link?.[m.id])
+      .filter((x): x is number => x !== undefined);
+    if (!v.length) continue;
+    const avg = v.reduce((a, b) => a + b, 0) / v.length;
+    const lo = v.reduce((a, b) => Math.min(a, b));
+    const hi = v.reduce((a, b) => Math.max(a, b));
+    lines.push(
+      `  ${m.name.padEnd(11)} min ${lo}  avg ${avg.toFixed(1)}  max ${hi} ${
+        m.unit
+      }`
+    );
+  }
+  return lines.join("\n");
+}
+
+async function main(): Promise<number> {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      output: { type: "string", short: "o", default: "summary" },
+      input: { type: "string", short: "i", default: "auto" },
+      protocol: { type: "string", short: "p" },
+      schema: { type: "string", short: "s" },
+      calibration: { type: "string", short: "c" },
+      framing: { type: "string" },
+      envelope: { type: "string" },
+      repair: { type: "string" },
+      recover: { type: "boolean" },
+      "max-crc-errors": { type: "string" },
+      help: { type: "boolean", short: "h" },
+      version: { type: "boolean", short: "v" },
+    },
+  });
+  if (values.help) {
+    process.stdout.write(USAGE);
+    return 0;
+  }
+  if (values.version) {
+    process.stdout.write(`red-decode ${version}\n`);
+    return 0;
+  }
+  if (!["jsonl", "csv", "summary"].includes(values.output))
+    throw new Error(`unknown output format "${values.output}"`);
+  if (!["auto", "binary", "hex", "log"].includes(values.input))
+    throw new Error(`unknown input format "${values.input}"`);
+  const threshold =
+    values["max-crc-errors"] === undefined
+      ? undefined
+      : Number(values["max-crc-errors"]);
+  if (threshold !== undefined && !(threshold >= 0))
+    throw new Error("--max-crc-errors takes a percentage");
+
+  const opts = await decodeOptions(values);
+  const inputs: Input[] = [];
+  for (const name of positionals.length ? positionals : ["-"])
+    inputs.push(await decodeInput(name, values.input, opts));
+
+  // Several inputs: JSON lines and CSV say which one a frame came from
+  const many = inputs.length > 1;
+  const out: string[] = [];
+  if (values.output === "csv") {
+    const schemas = opts.schema
+      ? [opts.schema]
+      : (opts.profiles ?? PROFILES).map((p) => p.schema);
+    const columns = csvColumns(schemas);
+    const digits = csvDigits(schemas);
+    out.push(csvLine(many ? ["file", ...columns] : columns));
+    for (const { name, result } of inputs)
+      for (const f of result.frames) {
+        const row = frameCsvRow(f, columns, digits);
+        out.push(many ? `${csvLine([name])},${row}` : row);
+      }
+  } else if (values.output === "jsonl") {
+    for (const { name, result } of inputs)
+      for (const f of result.frames)
+        out.push(
+          JSON.stringify(
+            many ? { file: name, ...frameRecord(f) } : frameRecord(f)
+          )
+        );
+  } else out.push(inputs.map(summary).join("\n\n"));
+  process.stdout.write(out.join("\n") + (out.length ? "\n" : ""));
+
+  // Over all inputs together
+  const total = streamStats({
+    frames: inputs.flatMap((i) => i.result.frames),
+    discarded: inputs.flatMap((i) => i.result.discarded),
+  });
+  if (threshold !== undefined && 100 * total.crcErrorRate > threshold) {
+    process.stderr.write(
+      `red-decode: CRC error rate ${percent(
+        total.crcErrorRate
+      )} is above ${threshold}%\n`
+    );
+    return 2;
+  }
+  return 0;
+}
+
+main().then(
+  (code) => process.exit(code),
+  (e: unknown) => {
+    process.stderr.write(
+      `red-decode: ${e instanceof Error ? e.message : e}\nTry --help.\n`
+    );
+    process.exit(1);
+  }
+);
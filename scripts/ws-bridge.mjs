@@ -0,0 +1,178 @@
+#!/usr/bin/env node
+// Tiny WebSocket bridge for the Live tab's WebSocket source. No dependencies.
+//
+//   node scripts/ws-bridge.mjs [--port 8765] [--hex] [--demo [hz]] [file | -]
+//
+// - file / "-": stream a capture or a device (e.g. `- < /dev/ttyUSB0` after
+//   `stty -F /dev/ttyUSB0 115200 raw`) to every client as it is read
+// - --demo: send the built-in demo frame with a rising sequence, 10 Hz default
+// - --hex: send hex text messages instead of binary
+// Whatever a client sends is echoed to all clients, so a second tool (or the
+// browser console) can inject frames by hand.
+import { createHash } from "node:crypto";
+import { createReadStream } from "node:fs";
+import { createServer } from "node:http";
+
+const args = process.argv.slice(2);
+const flag = (name) => {
+  const i = args.indexOf(name);
+  if (i === -1) return undefined;
+  args.splice(i, 1);
+  const next = args[i];
+  if (next !== undefined && /^\d+(\.\d+)?$/.test(next)) {
+    args.splice(i, 1);
+    return Number(next);
+  }
+  return true;
+};
+const port = Number(flag("--port") ?? 8765);
+const hex = flag("--hex") === true;
+const demo = flag("--demo");
+const source = args[0];
+
+// ==========================
+// Minimal RFC 6455 server side
+// ==========================
+const GUID = "258EAFA5-E914-47DA-95CA-C5AB0DC85B11";
+const clients = new Set();
+
+function frame(opcode, payload) {
+  const len = payload.length;
+  const head =
+    len < 126
+      ? Buffer.from([0x80 | opcode, len])
+      : len < 0x10000
+      ? Buffer.from([0x80 | opcode, 126, len >> 8, len & 0xff])
+      : Buffer.concat([
+          Buffer.from([0x80 | opcode, 127]),
+          (() => {
+            const b = Buffer.alloc(8);
+            b.writeBigUInt64BE(BigInt(len));
+            return b;
+          })(),
+        ]);
+  return Buffer.concat([head, payload]);
+}
+
+function broadcast(bytes) {
+  const msg = hex
+    ? frame(0x1, Buffer.from(bytes.toString("hex").toUpperCase()))
+    : frame(0x2, bytes);
+  for (const c of clients) c.write(msg);
+}
+
+// Client frames are always masked; fragments are relayed one by one
+function parseFrames(socket, state) {
+  for (;;) {
+    const buf = state.buf;
+    if (buf.length < 2) return;
+    const opcode = buf[0] & 0x0f;
+    let len = buf[1] & 0x7f;
+    let at = 2;
+    if (len === 126) {
+      if (buf.length < 4) return;
+      len = buf.readUInt16BE(2);
+      at = 4;
+    } else if (len === 127) {
+      if (buf.length < 10) return;
+      len = Number(buf.readBigUInt64BE(2));
+      at = 10;
+    }
+    if (buf.length < at + 4 + len) return;
+    const mask = buf.subarray(at, at + 4);
+    const data = Buffer.from(buf.subarray(at + 4, at + 4 + len));
+    for (let i = 0; i < data.length; i++) data[i] ^= mask[i & 3];
+    state.buf = buf.subarray(at + 4 + len);
+
+    if (opcode === 0x8) {
+      socket.end(frame(0x8, Buffer.alloc(0)));
+      return;
+    }
+    if (opcode === 0x9) socket.write(frame(0xa, data));
+    else if (opcode <= 0x2) {
+      const msg = frame(opcode || state.lastOpcode, data);
+      if (opcode) state.lastOpcode = opcode;
+      for (const c of clients) c.write(msg);
+    }
+  }
+}
+
+const server = createServer((_, res) => {
+  res.writeHead(426, { "Content-Type": "text/plain" });
+  res.end("WebSocket only\n");
+});
+
+server.on("upgrade", (req, socket) => {
+  const key = req.headers["sec-websocket-key"];
+  if (!key) return socket.destroy();
+  const accept = createHash("sha1")
+    .update(key + GUID)
+    .digest("base64");
+  socket.write(
+    "HTTP/1.1 101 Switching Protocols\r\n" +
+      "Upgrade: websocket\r\nConnection: Upgrade\r\n" +
+      `Sec-WebSocket-Accept: ${accept}\r\n\r\n`
+  );
+  clients.add(socket);
+  console.log(`client connected (${clients.size})`);
+  const state = { buf: Buffer.alloc(0), lastOpcode: 0x2 };
+  socket.on("data", (d) => {
+    state.buf = Buffer.concat([state.buf, d]);
+    parseFrames(socket, state);
+  });
+  socket.on("close", () => {
+    clients.delete(socket);
+    console.log(`client left (${clients.size})`);
+  });
+  socket.on("error", () => socket.destroy());
+});
+
+server.listen(port, () =>
+  console.log(`bridge on ws://localhost:${port} (${hex ? "hex" : "binary"})`)
+);
+
+// ==========================
+// Byte sources
+// ==========================
+if (source) {
+  const input =
+    source === "-"
+      ? process.stdin
+      : createReadStream(source, { highWaterMark: 256 });
+  input.on("data", (chunk) => broadcast(chunk));
+  input.on("end", () => console.log(`${source}: end of input`));
+}
+
+if (demo) {
+  // Demo frame payload (see buildDemoFrame); header 0x00, 2-byte BE sequence
+  const payload = Buffer.from(
+    "0140E20100020040A34303000068C105FA00070308070ED2040F06FF",
+    "hex"
+  );
+  const crc16Modbus = (bytes) => {
+    let crc = 0xffff;
+    for (const b of bytes) {
+      crc ^= b;
+      for (let i = 0; i < 8; i++)
+        crc = crc & 1 ? (crc >>> 1) ^ 0xa001 : crc >>> 1;
+    }
+    return crc;
+  };
+  let seq = 0;
+  const hz = demo === true ? 10 : demo;
+  setInterval(() => {
+    const body = Buffer.concat([
+      Buffer.from([0x00, (seq >> 8) & 0xff, seq & 0xff]),
+      payload,
+    ]);
+    seq = (seq + 1) & 0xffff;
+    const crc = crc16Modbus(body);
+    broadcast(
+      Buffer.concat([
+        Buffer.from([0xfd, body.length + 2]),
+        body,
+        Buffer.from([crc >> 8, crc & 0xff, 0xfe]),
+      ])
+    );
+  }, 1000 / hz);
+}
@@ -0,0 +1,65 @@
+import { Input } from "@/components/ui/input";
+import {
+  ACK_RESULTS,
+  hex2,
+  type AckSpec,
+  type ProtocolSchema,
+} from "@/lib/protocol";
+
+export function AckEditor({
+  schema,
+  value,
+  onChange,
+}: {
+  schema: ProtocolSchema;
+  value: AckSpec;
+  onChange: (ack: AckSpec) => void;
+}) {
+  return (
+    <div className="grid sm:grid-cols-3 gap-3 text-sm">
+      <label>
+        <div className="mb-1 font-medium">Acknowledged sequence</div>
+        <Input
+          type="number"
+          min={0}
+          value={value.sequence}
+          onChange={(e) =>
+            onChange({ ...value, sequence: Number(e.target.value) })
+          }
+        />
+      </label>
+      <label>
+        <div className="mb-1 font-medium">Command</div>
+        <select
+          className="border rounded-md px-2 py-1 w-full"
+          value={value.commandId}
+          onChange={(e) =>
+            onChange({ ...value, commandId: Number(e.target.value) })
+          }
+        >
+          {schema.commands.map((c) => (
+            <option key={c.id} value={c.id}>
+              0x{hex2(c.id)} — {c.key}
+            </option>
+          ))}
+        </select>
+      </label>
+      <label>
+        <div className="mb-1 font-medium">Result</div>
+        <select
+          className="border rounded-md px-2 py-1 w-full"
+          value={value.result}
+          onChange={(e) =>
+            onChange({ ...value, result: Number(e.target.value) })
+          }
+        >
+          {ACK_RESULTS.map((r, i) => (
+            <option key={r} value={i}>
+              {i} — {r} ({i === 0 ? "ACK" : "NACK"})
+            </option>
+          ))}
+        </select>
+      </label>
+    </div>
+  );
+}
@@ -0,0 +1,76 @@
+import { Button } from "@/components/ui/button";
+import { AlertCircle, TriangleAlert } from "lucide-react";
+import type { CalibrationSet } from "@/lib/protocol";
+
+// Active calibration set, with load/export/reset
+export function CalibrationBar({
+  set,
+  unmatched,
+  error,
+  onLoad,
+  onReset,
+  onExport,
+}: {
+  set: CalibrationSet | null; // null = the schema's own calibrations
+  unmatched: string[]; // keys the active schema has no ArgID for
+  error: string | null;
+  onLoad: (file: File) => void;
+  onReset: () => void;
+  onExport: () => void;
+}) {
+  return (
+    <div className="rounded-md border p-3 text-sm space-y-2">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div>
+          Calibration:{" "}
+          {set ? (
+            <>
+              <span className="font-medium">{set.name}</span>{" "}
+              <span className="text-muted-foreground">
+                ({Object.keys(set.args).length} ArgIDs)
+              </span>
+            </>
+          ) : (
+            <span className="font-medium">from schema</span>
+          )}
+        </div>
+        <div className="flex gap-2">
+          <Button variant="secondary" size="sm" asChild>
+            <label className="cursor-pointer">
+              Load calibration…
+              <input
+                type="file"
+                accept=".json,application/json"
+                className="hidden"
+                onChange={(e) => {
+                  const file = e.target.files?.[0];
+                  if (file) onLoad(file);
+                  e.target.value = "";
+                }}
+              />
+            </label>
+          </Button>
+          <Button variant="secondary" size="sm" onClick={onExport}>
+            Export JSON
+          </Button>
+          {set && (
+            <Button variant="secondary" size="sm" onClick={onReset}>
+              Use schema's
+            </Button>
+          )}
+        </div>
+      </div>
+      {unmatched.length > 0 && (
+        <div className="flex items-center gap-2 text-yellow-700">
+          <TriangleAlert className="w-4 h-4" /> Not in the active schema:{" "}
+          {unmatched.join(", ")}
+        </div>
+      )}
+      {error && (
+        <div className="flex items-center gap-2 text-destructive">
+          <AlertCircle className="w-4 h-4" /> {error}
+        </div>
+      )}
+    </div>
+  );
+}
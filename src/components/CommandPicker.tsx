@@ -0,0 +1,92 @@
+import { Input } from "@/components/ui/input";
+import {
+  bytesToHex,
+  encodeCommand,
+  findCommand,
+  hex2,
+  hintFor,
+  placeholderFor,
+  unitLabel,
+  type Endian,
+  type ProtocolSchema,
+} from "@/lib/protocol";
+
+// Command ID picker plus one input per typed argument
+export function CommandPicker({
+  schema,
+  frameEndian,
+  id,
+  args,
+  onChange,
+}: {
+  schema: ProtocolSchema;
+  frameEndian?: Endian;
+  id: number;
+  args: string[];
+  onChange: (id: number, args: string[]) => void;
+}) {
+  // Fall back to the first command when a newly loaded schema drops this one
+  const def = findCommand(schema, id) ?? schema.commands[0];
+  if (!def)
+    return (
+      <p className="text-xs text-muted-foreground">
+        The loaded schema defines no commands.
+      </p>
+    );
+  const { payload, errors } = encodeCommand(
+    def.id,
+    args,
+    schema,
+    frameEndian
+  );
+  return (
+    <div className="space-y-3">
+      <label className="text-sm block">
+        <div className="mb-1 font-medium">Command</div>
+        <select
+          className="border rounded-md px-2 py-1 w-full md:w-72"
+          value={def.id}
+          onChange={(e) => onChange(Number(e.target.value), [])}
+        >
+          {schema.commands.map((c) => (
+            <option key={c.id} value={c.id}>
+              0x{hex2(c.id)} — {c.key}
+            </option>
+          ))}
+        </select>
+      </label>
+      {(def.args ?? []).map((a, i) => (
+        <label key={a.key} className="text-sm block">
+          <div className="mb-1 font-medium">
+            {a.key} {unitLabel(a)}
+          </div>
+          <Input
+            placeholder={placeholderFor(a)}
+            value={args[i] ?? ""}
+            onChange={(e) => {
+              const next = [...args];
+              next[i] = e.target.value;
+              onChange(def.id, next);
+            }}
+          />
+          <div className="text-xs text-muted-foreground mt-1">
+            {a.note}
+            {a.note && hintFor(a) && " — "}
+            {hintFor(a)}
+          </div>
+        </label>
+      ))}
+      {errors.length > 0 ? (
+        <ul className="text-xs text-red-600">
+          {errors.map((e, i) => (
+            <li key={i}>{e}</li>
+          ))}
+        </ul>
+      ) : (
+        <div className="text-xs text-muted-foreground">
+          payload: <span className="font-mono">{bytesToHex(payload, " ")}</span>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,190 @@
+import { Button } from "@/components/ui/button";
+import { AlertCircle } from "lucide-react";
+import {
+  CRC_ALGORITHMS,
+  FRAMINGS,
+  PROFILES,
+  type Envelope,
+  type Framing,
+} from "@/lib/protocol";
+
+// Decode options shared by the Decode and Live tabs
+export function DecodeSettings({
+  className = "",
+  recoverTLV,
+  onRecoverTLV,
+  repairBits,
+  onRepairBits,
+  crcIds,
+  onCrcId,
+  framing,
+  onFraming,
+  versionId,
+  onVersionId,
+  envelopeId,
+  onEnvelopeId,
+  envelopes,
+  onLoadEnvelope,
+  envelopeError,
+}: {
+  className?: string;
+  recoverTLV: boolean;
+  onRecoverTLV: (v: boolean) => void;
+  repairBits: number;
+  onRepairBits: (v: number) => void;
+  crcIds: Readonly<Record<string, string>>; // per protocol version
+  onCrcId: (versionId: string, crcId: string) => void;
+  framing: Framing;
+  onFraming: (v: Framing) => void;
+  versionId: string;
+  onVersionId: (v: string) => void;
+  envelopeId: string;
+  onEnvelopeId: (v: string) => void;
+  envelopes: ReadonlyArray<Envelope>;
+  onLoadEnvelope: (file: File) => void;
+  envelopeError: string | null;
+}) {
+  return (
+    <div className={"flex flex-wrap items-center gap-2 " + className}>
+      <label
+        className="flex items-center gap-2 text-sm"
+        title="Skip unknown or truncated ArgIDs and resync on the next plausible field"
+      >
+        <input
+          type="checkbox"
+          checked={recoverTLV}
+          onChange={(e) => onRecoverTLV(e.target.checked)}
+        />
+        Best-effort TLV recovery
+      </label>
+      <label
+        className="flex items-center gap-2 text-sm"
+        title="Flip bits back when that makes the CRC match; only unique fixes are accepted"
+      >
+        Bit repair
+        <select
+          className="border rounded-md px-2 py-1"
+          value={repairBits}
+          onChange={(e) => onRepairBits(Number(e.target.value))}
+        >
+          <option value={0}>Off</option>
+          <option value={1}>1 bit</option>
+          <option value={2}>Up to 2 bits</option>
+        </select>
+      </label>
+      {PROFILES.filter((p) => versionId === "auto" || p.id === versionId).map(
+        (p) => (
+          <label key={p.id} className="flex items-center gap-2 text-sm">
+            CRC ({p.id})
+            <CrcSelect
+              value={crcIds[p.id] ?? "profile"}
+              onChange={(id) => onCrcId(p.id, id)}
+            />
+          </label>
+        )
+      )}
+      <label className="flex items-center gap-2 text-sm">
+        Framing
+        <FramingSelect value={framing} onChange={onFraming} />
+      </label>
+      <label className="flex items-center gap-2 text-sm">
+        Protocol version
+        <select
+          className="border rounded-md px-2 py-1"
+          value={versionId}
+          onChange={(e) => onVersionId(e.target.value)}
+        >
+          <option value="auto">Auto-detect</option>
+          {PROFILES.map((p) => (
+            <option key={p.id} value={p.id}>
+              {p.name}
+            </option>
+          ))}
+        </select>
+      </label>
+      <label
+        className="flex items-center gap-2 text-sm"
+        title="Radio modem wrapper around each packet; its RSSI/SNR go with the frame"
+      >
+        Modem envelope
+        <select
+          className="border rounded-md px-2 py-1"
+          value={envelopeId}
+          onChange={(e) => onEnvelopeId(e.target.value)}
+        >
+          <option value="none">None (bare frames)</option>
+          {envelopes.map((e) => (
+            <option key={e.id} value={e.id}>
+              {e.name}
+            </option>
+          ))}
+        </select>
+      </label>
+      <Button variant="secondary" size="sm" asChild>
+        <label className="cursor-pointer">
+          Load envelope…
+          <input
+            type="file"
+            accept=".json,application/json"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) onLoadEnvelope(file);
+              e.target.value = "";
+            }}
+          />
+        </label>
+      </Button>
+      {envelopeError && (
+        <span className="flex items-center gap-2 text-sm text-destructive">
+          <AlertCircle className="w-4 h-4" /> {envelopeError}
+        </span>
+      )}
+    </div>
+  );
+}
+
+export function CrcSelect({
+  value,
+  onChange,
+}: {
+  value: string;
+  onChange: (id: string) => void;
+}) {
+  return (
+    <select
+      className="border rounded-md px-2 py-1"
+      value={value}
+      onChange={(e) => onChange(e.target.value)}
+    >
+      <option value="profile">As the version specifies</option>
+      {CRC_ALGORITHMS.map((c) => (
+        <option key={c.id} value={c.id}>
+          {c.name}
+        </option>
+      ))}
+    </select>
+  );
+}
+
+export function FramingSelect({
+  value,
+  onChange,
+}: {
+  value: Framing;
+  onChange: (framing: Framing) => void;
+}) {
+  return (
+    <select
+      className="border rounded-md px-2 py-1"
+      value={value}
+      onChange={(e) => onChange(e.target.value as Framing)}
+    >
+      {FRAMINGS.map((f) => (
+        <option key={f.id} value={f.id}>
+          {f.name}
+        </option>
+      ))}
+    </select>
+  );
+}
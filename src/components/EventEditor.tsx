@@ -0,0 +1,73 @@
+import { Input } from "@/components/ui/input";
+import { EVENT_SEVERITIES } from "@/lib/protocol";
+
+// Event builder form state; only one of text/code is sent
+export type EventDraft = {
+  severity: number;
+  kind: "text" | "code";
+  text: string;
+  code: number;
+};
+
+export function EventEditor({
+  value,
+  onChange,
+}: {
+  value: EventDraft;
+  onChange: (event: EventDraft) => void;
+}) {
+  return (
+    <div className="grid sm:grid-cols-[160px_120px_1fr] gap-3 text-sm">
+      <label>
+        <div className="mb-1 font-medium">Severity</div>
+        <select
+          className="border rounded-md px-2 py-1 w-full"
+          value={value.severity}
+          onChange={(e) =>
+            onChange({ ...value, severity: Number(e.target.value) })
+          }
+        >
+          {EVENT_SEVERITIES.map((s, i) => (
+            <option key={s} value={i}>
+              {s}
+            </option>
+          ))}
+        </select>
+      </label>
+      <label>
+        <div className="mb-1 font-medium">Kind</div>
+        <select
+          className="border rounded-md px-2 py-1 w-full"
+          value={value.kind}
+          onChange={(e) =>
+            onChange({ ...value, kind: e.target.value as EventDraft["kind"] })
+          }
+        >
+          <option value="text">Text</option>
+          <option value="code">Code</option>
+        </select>
+      </label>
+      {value.kind === "text" ? (
+        <label>
+          <div className="mb-1 font-medium">Message (UTF-8)</div>
+          <Input
+            value={value.text}
+            placeholder="e.g. main valve opened"
+            onChange={(e) => onChange({ ...value, text: e.target.value })}
+          />
+        </label>
+      ) : (
+        <label>
+          <div className="mb-1 font-medium">Event code (0..65535)</div>
+          <Input
+            type="number"
+            min={0}
+            max={0xffff}
+            value={value.code}
+            onChange={(e) => onChange({ ...value, code: Number(e.target.value) })}
+          />
+        </label>
+      )}
+    </div>
+  );
+}
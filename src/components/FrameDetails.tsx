@@ -0,0 +1,445 @@
+import { useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { AlertCircle, CheckCircle2, Info, TriangleAlert } from "lucide-react";
+import {
+  FLAG_RESERVED,
+  HEADER_FLAGS,
+  LINK_METRICS,
+  bytesToHex,
+  formatRxTime,
+  crcBytes,
+  crcHex,
+  findCommand,
+  hex2,
+  identifyCrc,
+  renderCommandArg,
+  renderTLVRow,
+  type CrcMatch,
+  type DecodedCommand,
+  type DecodedFrame,
+  type ProtocolProfile,
+  type ProtocolSchema,
+} from "@/lib/protocol";
+import { KV } from "@/components/KV";
+
+export function FrameDetails({
+  decoded,
+  profile,
+  schema = profile.schema,
+}: {
+  decoded: DecodedFrame;
+  profile: ProtocolProfile; // the one that decoded it
+  schema?: ProtocolSchema;
+}) {
+  const crcLen = crcBytes(profile.crc);
+  const crcStart = 2 + decoded.totalLength - crcLen;
+  // Raw byte index -> bits flipped back by CRC repair
+  const flips = new Map<number, number[]>();
+  for (const f of decoded.corrected)
+    flips.set(f.index, [...(flips.get(f.index) ?? []), f.bit]);
+  return (
+    <div className="grid md:grid-cols-2 gap-4">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            Frame integrity{" "}
+            {decoded.ok ? (
+              <CheckCircle2 className="w-5 h-5" />
+            ) : (
+              <TriangleAlert className="w-5 h-5" />
+            )}
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-2 text-sm">
+          <KV
+            label="Start-of-Frame"
+            value={`0x${hex2(decoded.start)}`}
+            good={decoded.start === profile.sof}
+          />
+          <KV
+            label="Protocol version"
+            value={decoded.version ? profile.name : "—"}
+          />
+          <KV label="Stream offset" value={`${decoded.offset}`} />
+          {decoded.rxTime !== undefined && (
+            <KV label="Received" value={formatRxTime(decoded.rxTime)} />
+          )}
+          {Object.entries(decoded.rxMeta ?? {}).map(([k, v]) => (
+            <KV key={k} label={k} value={v} />
+          ))}
+          {LINK_METRICS.map((m) => {
+            const v = decoded.link?.[m.id];
+            return v === undefined ? null : (
+              <KV key={m.id} label={m.name} value={`${v} ${m.unit}`} />
+            );
+          })}
+          <KV
+            label="TotalLength (Header..CRC)"
+            value={`${decoded.totalLength} B`}
+          />
+          <KV
+            label="Header"
+            value={`0b${decoded.header.toString(2).padStart(8, "0")}`}
+          />
+          <KV label="Type" value={decoded.headerType} />
+          <KV
+            label="Flags (5..0)"
+            value={`0b${decoded.headerFlags
+              .toString(2)
+              .padStart(6, "0")}`}
+          />
+          <FlagChips flags={decoded.headerFlags} />
+          <KV label="Value endian" value={decoded.valueEndian} />
+          <KV
+            label="Sequence endian"
+            value={decoded.sequenceEndian}
+          />
+          <KV label="Sequence" value={`${decoded.sequence}`} />
+          <KV
+            label="Payload bytes"
+            value={`${decoded.payloadBytes.length}`}
+          />
+          <KV
+            label="CRC algorithm"
+            value={`${profile.crc.name} (${profile.crcEndian})`}
+          />
+          <KV
+            label="CRC (rx)"
+            value={`0x${crcHex(profile.crc, decoded.crcRx)}`}
+          />
+          <KV
+            label="CRC (calc)"
+            value={`0x${crcHex(profile.crc, decoded.crcCalc)}`}
+            good={decoded.crcRx === decoded.crcCalc && !flips.size}
+            warn={flips.size > 0}
+          />
+          {flips.size > 0 && (
+            <KV
+              label="Corrected"
+              value={decoded.corrected
+                .map((f) => `byte ${f.index} bit ${f.bit}`)
+                .join(", ")}
+              warn
+            />
+          )}
+          <CrcIdentify key={decoded.raw.join(",")} raw={decoded.raw} />
+          <KV
+            label="End-of-Frame"
+            value={`0x${hex2(decoded.eof)}`}
+            good={decoded.eof === profile.eof}
+            warn={profile.eofCompat.includes(decoded.eof)}
+          />
+
+          {decoded.errors.length > 0 && (
+            <div className="mt-2 rounded-md border border-destructive/30 bg-destructive/10 p-2">
+              <div className="flex items-center gap-2 font-medium text-destructive">
+                <AlertCircle className="w-4 h-4" /> Errors
+              </div>
+              <ul className="list-disc ml-6 text-destructive">
+                {decoded.errors.map((e, i) => (
+                  <li key={i}>{e}</li>
+                ))}
+              </ul>
+            </div>
+          )}
+          {decoded.warnings.length > 0 && (
+            <div className="mt-2 rounded-md border border-yellow-500/30 bg-yellow-500/10 p-2">
+              <div className="flex items-center gap-2 font-medium text-yellow-700">
+                <Info className="w-4 h-4" /> Warnings
+              </div>
+              <ul className="list-disc ml-6 text-yellow-700">
+                {decoded.warnings.map((w, i) => (
+                  <li key={i}>{w}</li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Decoded payload</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {decoded.headerType === "Ack" ? (
+            decoded.ack ? (
+              <div className="space-y-2">
+                <KV
+                  label="Result"
+                  value={`${decoded.ack.accepted ? "ACK" : "NACK"} – ${
+                    decoded.ack.resultName
+                  }`}
+                  good={decoded.ack.accepted}
+                  warn={!decoded.ack.accepted}
+                />
+                <KV
+                  label="Command"
+                  value={`0x${hex2(decoded.ack.commandId)} ${
+                    decoded.ack.commandName
+                  }`}
+                />
+                <KV
+                  label="Acknowledged sequence"
+                  value={`${decoded.ack.sequence}`}
+                />
+              </div>
+            ) : (
+              <p className="text-sm text-muted-foreground">
+                Ack payload too short to decode.
+              </p>
+            )
+          ) : decoded.headerType === "Event" ? (
+            decoded.event ? (
+              <div className="space-y-2">
+                <KV
+                  label="Severity"
+                  value={decoded.event.severityName}
+                  warn={decoded.event.severity >= 2}
+                />
+                {decoded.event.text !== undefined ? (
+                  <p className="rounded-lg border p-2 font-mono text-sm whitespace-pre-wrap">
+                    {decoded.event.text || "(empty)"}
+                  </p>
+                ) : (
+                  <KV
+                    label="Code"
+                    value={`${decoded.event.code} – ${decoded.event.codeName}`}
+                  />
+                )}
+              </div>
+            ) : (
+              <p className="text-sm text-muted-foreground">
+                Event payload could not be decoded.
+              </p>
+            )
+          ) : decoded.headerType === "Command" ? (
+            decoded.command ? (
+              <div className="space-y-2">
+                <p className="text-sm">
+                  Command: 0x{hex2(decoded.command.id)}{" "}
+                  {decoded.command.name}
+                </p>
+                <CommandArgs command={decoded.command} schema={schema} />
+              </div>
+            ) : (
+              <p className="text-sm text-muted-foreground">
+                No Command ID decoded.
+              </p>
+            )
+          ) : decoded.tlv.length === 0 ? (
+            <p className="text-sm text-muted-foreground">
+              No TLVs decoded. Check ArgIDs or endianness.
+            </p>
+          ) : (
+            <ul className="space-y-2">
+              {decoded.tlv.map((t, idx) => {
+                const row = renderTLVRow(t, schema);
+                return (
+                  <li
+                    key={idx}
+                    className={
+                      "rounded-lg border p-2 " +
+                      (t.recovered ? "border-dashed border-yellow-500" : "")
+                    }
+                  >
+                    <div className="flex justify-between text-sm">
+                      <span className="font-medium">
+                        {row.label}
+                        {t.recovered && (
+                          <span className="ml-2 text-xs text-yellow-700">
+                            recovered
+                          </span>
+                        )}
+                      </span>
+                      <span className="font-mono">{row.value}</span>
+                    </div>
+                    {row.hint && (
+                      <div className="text-xs text-muted-foreground">
+                        {row.hint}
+                      </div>
+                    )}
+                    <div className="mt-1 text-xs text-muted-foreground">
+                      raw: {t.valueRaw.map(hex2).join(" ")}
+                    </div>
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card className="md:col-span-2">
+        <CardHeader>
+          <CardTitle>
+            Raw bytes{decoded.wire && " (unframed)"}
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          {decoded.wire && (
+            <div className="text-xs">
+              <div className="font-medium">
+                On-wire ({decoded.wire.length} B)
+              </div>
+              <div className="font-mono break-all text-muted-foreground">
+                {bytesToHex(decoded.wire, " ")}
+              </div>
+            </div>
+          )}
+          {decoded.raw.length === 0 ? (
+            <p className="text-sm text-muted-foreground">—</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full text-xs">
+                <thead>
+                  <tr className="text-left">
+                    <th className="py-1 pr-2">Idx</th>
+                    <th className="py-1 pr-2">Hex</th>
+                    <th className="py-1 pr-2">Dec</th>
+                    <th className="py-1 pr-2">Meaning</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {decoded.raw.map((b, i) => {
+                    let meaning = "";
+                    if (i === 0) meaning = "SOF";
+                    else if (i === 1) meaning = "TotalLength";
+                    else if (i === 2) meaning = "Header";
+                    else if (i >= 3 && i < 3 + profile.sequenceBytes)
+                      meaning = "Sequence";
+                    else if (i >= crcStart && i < crcStart + crcLen)
+                      meaning =
+                        crcLen === 2
+                          ? (i === crcStart) === (profile.crcEndian === "BE")
+                            ? "CRC Hi"
+                            : "CRC Lo"
+                          : `CRC byte ${i - crcStart}`;
+                    else if (i === 2 + decoded.totalLength)
+                      meaning = "EOF";
+                    else meaning = "Payload";
+                    const bits = flips.get(i);
+                    const fixed = bits?.reduce((v, bit) => v ^ (1 << bit), b);
+                    return (
+                      <tr
+                        key={i}
+                        className={
+                          "border-t " + (bits ? "bg-yellow-500/20" : "")
+                        }
+                      >
+                        <td className="py-1 pr-2 font-mono">{i}</td>
+                        <td className="py-1 pr-2 font-mono">
+                          {hex2(b)}
+                          {fixed !== undefined && ` → ${hex2(fixed)}`}
+                        </td>
+                        <td className="py-1 pr-2 font-mono">{b}</td>
+                        <td className="py-1 pr-2">
+                          {meaning}
+                          {bits && ` (bit ${bits.join(", ")} flipped)`}
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
+
+// Named header flags; set ones are highlighted
+function FlagChips({ flags }: { flags: number }) {
+  return (
+    <div className="flex flex-wrap justify-end gap-1">
+      {HEADER_FLAGS.map((f) => {
+        const set = (flags & f.mask) !== 0;
+        return (
+          <span
+            key={f.key}
+            title={f.note}
+            className={
+              "rounded-full border px-2 py-0.5 text-xs " +
+              (!set
+                ? "text-muted-foreground opacity-50"
+                : f.mask === FLAG_RESERVED
+                ? "border-yellow-500 bg-yellow-500/10 text-yellow-700"
+                : "border-primary bg-primary/10")
+            }
+          >
+            {f.name}
+          </span>
+        );
+      })}
+    </div>
+  );
+}
+
+// Try every catalogue CRC against the received one
+function CrcIdentify({ raw }: { raw: number[] }) {
+  const [matches, setMatches] = useState<CrcMatch[] | null>(null);
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <Button
+        type="button"
+        variant="secondary"
+        size="sm"
+        onClick={() => setMatches(identifyCrc(raw))}
+      >
+        Identify CRC
+      </Button>
+      {matches &&
+        (matches.length === 0 ? (
+          <span className="text-xs text-muted-foreground">
+            No catalogue CRC matches the received value.
+          </span>
+        ) : (
+          <span className="text-xs">
+            Matches:{" "}
+            {matches
+              .map(
+                (m) =>
+                  `${m.crc.name} ${m.crcEndian}` +
+                  (m.crcFromLength ? " (incl. TotalLength)" : "")
+              )
+              .join("; ")}
+          </span>
+        ))}
+    </div>
+  );
+}
+
+function CommandArgs({
+  command,
+  schema,
+}: {
+  command: DecodedCommand;
+  schema: ProtocolSchema;
+}) {
+  const defs = findCommand(schema, command.id)?.args ?? [];
+  if (command.args.length === 0) return null;
+  return (
+    <ul className="space-y-2">
+      {command.args.map((a, idx) => {
+        const row = renderCommandArg(defs[idx], a);
+        return (
+          <li key={idx} className="rounded-lg border p-2">
+            <div className="flex justify-between text-sm">
+              <span className="font-medium">{row.label}</span>
+              <span className="font-mono">{row.value}</span>
+            </div>
+            {row.hint && (
+              <div className="text-xs text-muted-foreground">{row.hint}</div>
+            )}
+            <div className="mt-1 text-xs text-muted-foreground">
+              raw: {a.valueRaw.map(hex2).join(" ")}
+            </div>
+          </li>
+        );
+      })}
+    </ul>
+  );
+}
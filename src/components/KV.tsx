@@ -0,0 +1,25 @@
+export function KV({
+  label,
+  value,
+  good,
+  warn,
+}: {
+  label: string;
+  value: string;
+  good?: boolean;
+  warn?: boolean;
+}) {
+  return (
+    <div className="flex items-center justify-between text-sm">
+      <span className="text-muted-foreground">{label}</span>
+      <span
+        className={
+          "font-mono " +
+          (good ? "text-emerald-600" : warn ? "text-yellow-700" : "")
+        }
+      >
+        {value}
+      </span>
+    </div>
+  );
+}
@@ -0,0 +1,122 @@
+import { useEffect, useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import type { LinkMonitor } from "@/lib/transport";
+import { KV } from "@/components/KV";
+
+const HEALTH_WINDOWS_S = [5, 10, 30, 60, 300];
+
+// Rolling link statistics for a countdown: rates, damage and how long
+// since the last valid frame, with a stale-link alarm
+export function LinkHealthPanel({
+  monitor,
+  active,
+}: {
+  monitor: LinkMonitor;
+  active: boolean;
+}) {
+  const [windowS, setWindowS] = useState<number>(10);
+  const [staleS, setStaleS] = useState<number>(3);
+  const [now, setNow] = useState<number>(() => Date.now());
+  // The stale timer has to run even when no bytes arrive
+  useEffect(() => {
+    if (!active) return;
+    const id = setInterval(() => setNow(Date.now()), 250);
+    return () => clearInterval(id);
+  }, [active]);
+
+  const h = monitor.health(windowS * 1000, now);
+  const since =
+    h.lastValidAt === undefined ? undefined : (now - h.lastValidAt) / 1000;
+  const stale = since === undefined || since >= staleS;
+  const percent = (r: number) => `${(100 * r).toFixed(1)}%`;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Link health</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3 text-sm">
+        <div className="flex flex-wrap items-center gap-3">
+          <span
+            className={
+              "rounded-md px-2 py-1 font-medium " +
+              (!active
+                ? "bg-muted text-muted-foreground"
+                : stale
+                ? "bg-destructive text-white"
+                : "bg-emerald-600 text-white")
+            }
+          >
+            {!active
+              ? "Not connected"
+              : since === undefined
+              ? "No valid frame yet"
+              : stale
+              ? `STALE — no valid frame for ${since.toFixed(1)} s`
+              : `Link OK — last valid frame ${since.toFixed(1)} s ago`}
+          </span>
+          <label className="flex items-center gap-2 ml-auto">
+            Window
+            <select
+              className="border rounded-md px-2 py-1"
+              value={windowS}
+              onChange={(e) => setWindowS(Number(e.target.value))}
+            >
+              {HEALTH_WINDOWS_S.map((w) => (
+                <option key={w} value={w}>
+                  {w < 60 ? `${w} s` : `${w / 60} min`}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="flex items-center gap-2">
+            Stale after
+            <Input
+              type="number"
+              className="w-20 h-8"
+              min={0.5}
+              step={0.5}
+              value={staleS}
+              onChange={(e) =>
+                setStaleS(Math.max(0.5, Number(e.target.value) || 0))
+              }
+            />
+            s
+          </label>
+        </div>
+        <div className="grid sm:grid-cols-3 gap-x-6 gap-y-1">
+          <KV label="Frames/s" value={h.framesPerSec.toFixed(1)} />
+          <KV label="Bytes/s" value={h.bytesPerSec.toFixed(0)} />
+          {/* Repaired frames are counted apart from clean ones */}
+          <KV
+            label="Clean / corrected"
+            value={`${h.valid - h.corrected} / ${h.corrected}`}
+            warn={h.corrected > 0}
+          />
+          {/* Error rate counts repaired frames too, as the decode summary */}
+          <KV
+            label="CRC rejected / error rate"
+            value={`${h.crcFailed} / ${percent(h.crcErrorRate)}`}
+            warn={h.crcFailed + h.corrected > 0}
+          />
+          <KV
+            label="EOF odd / rejected"
+            value={`${h.oddEof} / ${h.badEof}`}
+            warn={h.oddEof + h.badEof > 0}
+          />
+          <KV
+            label="Discarded"
+            value={`${h.discardedBytes} B, ${h.resyncs} resyncs`}
+            warn={h.resyncs > 0}
+          />
+        </div>
+        <p className="text-xs text-muted-foreground">
+          Over the last {(h.windowMs / 1000).toFixed(1)} s. An odd EOF is a
+          frame accepted with an end byte other than the link&apos;s usual
+          one, such as the 0xF1 typo.
+        </p>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,90 @@
+import { useMemo } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { LINK_METRICS, linkSeries, type DecodedFrame } from "@/lib/protocol";
+
+// Link quality across the frames, one sparkline per metric the modem sends
+export function LinkTrend({ frames }: { frames: ReadonlyArray<DecodedFrame> }) {
+  const { byTime, series } = useMemo(() => linkSeries(frames), [frames]);
+  const shown = LINK_METRICS.filter((m) => series[m.id].length > 1);
+  if (!shown.length) return null;
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Link quality</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-2 text-sm">
+        <div className="grid md:grid-cols-3 gap-4">
+          {shown.map((m) => (
+            <Sparkline
+              key={m.id}
+              label={m.name}
+              unit={m.unit}
+              points={series[m.id]}
+            />
+          ))}
+        </div>
+        <p className="text-xs text-muted-foreground">
+          Plotted against {byTime ? "receive time" : "frame index"}.
+        </p>
+      </CardContent>
+    </Card>
+  );
+}
+
+const SPARK_W = 240;
+const SPARK_H = 60;
+const SPARK_POINTS = 500;
+
+function Sparkline({
+  label,
+  unit,
+  points,
+}: {
+  label: string;
+  unit: string;
+  points: ReadonlyArray<[number, number]>;
+}) {
+  const ys = points.map((p) => p[1]);
+  const [x0, x1] = [points[0][0], points[points.length - 1][0]];
+  const lo = ys.reduce((a, b) => Math.min(a, b));
+  const hi = ys.reduce((a, b) => Math.max(a, b));
+  const mean = ys.reduce((a, b) => a + b, 0) / ys.length;
+  // Long captures are thinned to a fixed number of vertices
+  const step = Math.ceil(points.length / SPARK_POINTS);
+  const path = points
+    .filter((_, i) => i % step === 0 || i === points.length - 1)
+    .map(([x, y]) => {
+      const px = x1 > x0 ? ((x - x0) / (x1 - x0)) * SPARK_W : 0;
+      const py =
+        hi > lo ? SPARK_H - ((y - lo) / (hi - lo)) * SPARK_H : SPARK_H / 2;
+      return `${px.toFixed(1)},${py.toFixed(1)}`;
+    })
+    .join(" ");
+  const fmt = (v: number) => `${Number(v.toFixed(2))} ${unit}`;
+  return (
+    <div className="space-y-1">
+      <div className="flex justify-between">
+        <span className="font-medium">{label}</span>
+        <span className="font-mono">{fmt(ys[ys.length - 1])}</span>
+      </div>
+      <svg
+        viewBox={`0 0 ${SPARK_W} ${SPARK_H}`}
+        className="w-full h-16 rounded-md border"
+        preserveAspectRatio="none"
+      >
+        <polyline
+          points={path}
+          fill="none"
+          stroke="currentColor"
+          strokeWidth={1.5}
+          vectorEffect="non-scaling-stroke"
+        />
+      </svg>
+      <div className="flex justify-between text-xs text-muted-foreground">
+        <span>min {fmt(lo)}</span>
+        <span>avg {fmt(mean)}</span>
+        <span>max {fmt(hi)}</span>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,479 @@
+import { useEffect, useRef, useState, type ReactNode } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { AlertCircle } from "lucide-react";
+import type { DecodeOptions, ProtocolProfile } from "@/lib/protocol";
+import {
+  BAUD_RATES,
+  DEFAULT_BRIDGE_URL,
+  createLiveDecoder,
+  createSerialTransport,
+  createSimulatedTransport,
+  createWebSocketTransport,
+  grantedSerialPorts,
+  isSerialSupported,
+  requestSerialPort,
+  serialPortLabel,
+  createReplayTransport,
+  createLinkMonitor,
+  replayTimes,
+  toReplayFrame,
+  type LiveSnapshot,
+  type ReplayBasis,
+  type ReplayFrame,
+  type ReplayState,
+  type ReplayTransport,
+  type SerialPortHandle,
+  type Transport,
+  type TransportState,
+} from "@/lib/transport";
+import {
+  isSessionStoreSupported,
+  listSessions,
+  readFrameBatches,
+  startRecording,
+  type Recorder,
+  type RecorderStatus,
+  type Session,
+} from "@/lib/session";
+import { FrameDetails } from "@/components/FrameDetails";
+import { LinkHealthPanel } from "@/components/LinkHealthPanel";
+import { LinkTrend } from "@/components/LinkTrend";
+import { ReplayControls } from "@/components/ReplayControls";
+import { SequencePanel } from "@/components/SequencePanel";
+import { StreamSummary } from "@/components/StreamSummary";
+import { parseTags } from "@/components/helpers";
+
+type LiveSource = "serial" | "websocket" | "simulated" | "replay";
+
+// Live ingest: pick a transport, stream its bytes through the decoder and
+// show the newest frames as they complete
+export function LivePanel({
+  opts,
+  profiles,
+  settings,
+}: {
+  opts: DecodeOptions;
+  profiles: ReadonlyArray<ProtocolProfile>;
+  settings: ReactNode;
+}) {
+  const [source, setSource] = useState<LiveSource>(
+    isSerialSupported() ? "serial" : "simulated"
+  );
+  const [url, setUrl] = useState<string>(DEFAULT_BRIDGE_URL);
+  const [baudRate, setBaudRate] = useState<number>(115200);
+  const [port, setPort] = useState<SerialPortHandle | null>(null);
+  const [noisy, setNoisy] = useState<boolean>(false);
+  const [state, setState] = useState<TransportState>("disconnected");
+  const [detail, setDetail] = useState<string | undefined>();
+  const [label, setLabel] = useState<string>("");
+  const [snapshot, setSnapshot] = useState<LiveSnapshot | null>(null);
+  // null = follow the newest frame
+  const [selected, setSelected] = useState<number | null>(null);
+  const [decoder] = useState(() => createLiveDecoder(opts));
+  const [monitor] = useState(() => createLinkMonitor());
+  const [recName, setRecName] = useState<string>("");
+  const [recTags, setRecTags] = useState<string>("");
+  const [recording, setRecording] = useState<boolean>(false);
+  const [recStatus, setRecStatus] = useState<RecorderStatus | null>(null);
+  const [recError, setRecError] = useState<string | null>(null);
+  const [sessions, setSessions] = useState<Session[]>([]);
+  const [replayId, setReplayId] = useState<number | null>(null);
+  const [replay, setReplay] = useState<ReplayTransport | null>(null);
+  const [replayState, setReplayState] = useState<ReplayState | null>(null);
+  const [replayBasis, setReplayBasis] = useState<ReplayBasis>("rxTime");
+  const transport = useRef<Transport | null>(null);
+  // Frames go straight to IndexedDB; React only sees the recorder's counts
+  const recorder = useRef<Recorder | null>(null);
+  const pending = useRef(false);
+
+  // New settings apply to bytes received from here on
+  useEffect(() => decoder.setOptions(opts), [decoder, opts]);
+  // Reuse a port granted before a reload; release the port on unmount
+  useEffect(() => {
+    grantedSerialPorts().then((ports) => setPort((p) => p ?? ports[0] ?? null));
+    return () => {
+      void transport.current?.disconnect();
+      void recorder.current?.stop();
+    };
+  }, []);
+
+  // Chunks can arrive far faster than React should render
+  const refresh = () => {
+    if (pending.current) return;
+    pending.current = true;
+    requestAnimationFrame(() => {
+      pending.current = false;
+      setSnapshot(decoder.snapshot());
+      if (recorder.current) setRecStatus(recorder.current.status());
+    });
+  };
+
+  const choosePort = async () => {
+    try {
+      setPort(await requestSerialPort());
+      setDetail(undefined);
+    } catch (e) {
+      setDetail(e instanceof Error ? e.message : String(e));
+    }
+  };
+
+  const chooseSource = (next: LiveSource) => {
+    setSource(next);
+    if (next !== "replay") return;
+    // A replay is stored already, and each seek sends frames again
+    void stopRecorder();
+    listSessions().then(
+      (list) => {
+        setSessions(list);
+        setReplayId((id) => id ?? list[0]?.id ?? null);
+      },
+      (e: unknown) => setDetail(e instanceof Error ? e.message : String(e))
+    );
+  };
+
+  // Stored frames go back through the decoder as the bytes they arrived as,
+  // so the current decode settings apply to them
+  const loadReplay = async () => {
+    const session = sessions.find((s) => s.id === replayId);
+    if (!session) return null;
+    try {
+      const items: ReplayFrame[] = [];
+      await readFrameBatches(session.id, (rows) => {
+        for (const r of rows) items.push(toReplayFrame(r.frame, r.raw));
+      });
+      const { times, basis } = replayTimes(items);
+      const t = createReplayTransport(items, times, {
+        label: `Replay of ${session.name}`,
+        onChange: setReplayState,
+      });
+      setReplay(t);
+      setReplayBasis(basis);
+      return t;
+    } catch (e) {
+      setDetail(e instanceof Error ? e.message : String(e));
+      return null;
+    }
+  };
+
+  const connect = async () => {
+    const t =
+      source === "replay"
+        ? await loadReplay()
+        : source === "serial"
+        ? port && createSerialTransport(port, baudRate)
+        : source === "websocket"
+        ? createWebSocketTransport(url.trim())
+        : createSimulatedTransport({
+            framing: opts.framing,
+            bitErrorRate: noisy ? 2e-4 : 0,
+            noiseRate: noisy ? 0.05 : 0,
+          });
+    if (!t) return;
+    transport.current = t;
+    setLabel(t.label);
+    await t.connect({
+      onData: (chunk, rxTime) => {
+        const result = decoder.push(chunk, rxTime);
+        monitor.add(result, chunk.length);
+        recorder.current?.add(result.frames, chunk.length);
+        refresh();
+      },
+      onReset: () => {
+        decoder.clear();
+        monitor.clear();
+        setSelected(null);
+        refresh();
+      },
+      onState: (next, info) => {
+        setState(next);
+        setDetail(info);
+      },
+    });
+  };
+
+  const disconnect = async () => {
+    await transport.current?.disconnect();
+    transport.current = null;
+    setReplay(null);
+    setReplayState(null);
+    const rest = decoder.flush();
+    monitor.add(rest, 0);
+    recorder.current?.add(rest.frames);
+    refresh();
+  };
+
+  const startRecorder = async () => {
+    try {
+      recorder.current = await startRecording({
+        name: recName.trim() || `Live ${new Date().toLocaleString()}`,
+        tags: parseTags(recTags),
+        source: transport.current?.label ?? source,
+      });
+      setRecording(true);
+      setRecStatus(recorder.current.status());
+      setRecError(null);
+    } catch (e) {
+      setRecError(e instanceof Error ? e.message : String(e));
+    }
+  };
+
+  const stopRecorder = async () => {
+    const rec = recorder.current;
+    recorder.current = null;
+    setRecording(false);
+    if (!rec) return;
+    try {
+      await rec.stop();
+      setRecStatus(rec.status());
+      setRecName("");
+    } catch (e) {
+      setRecError(e instanceof Error ? e.message : String(e));
+    }
+  };
+
+  const clear = () => {
+    decoder.clear();
+    monitor.clear();
+    setSelected(null);
+    refresh();
+  };
+
+  const busy =
+    state === "connecting" ||
+    state === "connected" ||
+    state === "reconnecting";
+  const frames = snapshot?.frames ?? [];
+  const idx = Math.min(selected ?? frames.length - 1, frames.length - 1);
+  const current = frames[idx];
+
+  return (
+    <>
+      <Card>
+        <CardHeader>
+          <CardTitle>Live input</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-3 text-sm">
+          <div className="flex flex-wrap items-center gap-2">
+            <select
+              className="border rounded-md px-2 py-1"
+              value={source}
+              disabled={busy}
+              onChange={(e) => chooseSource(e.target.value as LiveSource)}
+            >
+              <option value="serial" disabled={!isSerialSupported()}>
+                Web Serial
+              </option>
+              <option value="websocket">WebSocket</option>
+              <option value="simulated">Simulated telemetry</option>
+              <option value="replay" disabled={!isSessionStoreSupported()}>
+                Replay a session
+              </option>
+            </select>
+            {source === "serial" ? (
+              <>
+                <Button
+                  variant="secondary"
+                  size="sm"
+                  disabled={busy}
+                  onClick={choosePort}
+                >
+                  {port ? serialPortLabel(port) : "Choose port…"}
+                </Button>
+                <label className="flex items-center gap-2">
+                  Baud
+                  <select
+                    className="border rounded-md px-2 py-1"
+                    value={baudRate}
+                    disabled={busy}
+                    onChange={(e) => setBaudRate(Number(e.target.value))}
+                  >
+                    {BAUD_RATES.map((b) => (
+                      <option key={b} value={b}>
+                        {b}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+              </>
+            ) : source === "replay" ? (
+              <select
+                className="border rounded-md px-2 py-1 max-w-64"
+                value={replayId ?? ""}
+                disabled={busy}
+                onChange={(e) => setReplayId(Number(e.target.value))}
+              >
+                {!sessions.length && <option value="">No sessions</option>}
+                {sessions.map((s) => (
+                  <option key={s.id} value={s.id}>
+                    {s.name} ({s.frameCount} frames)
+                  </option>
+                ))}
+              </select>
+            ) : source === "websocket" ? (
+              <Input
+                className="w-64 font-mono"
+                value={url}
+                disabled={busy}
+                onChange={(e) => setUrl(e.target.value)}
+                placeholder={DEFAULT_BRIDGE_URL}
+                title="Binary messages are raw bytes; text messages are hex"
+              />
+            ) : (
+              <label
+                className="flex items-center gap-2"
+                title="Random bit errors and junk bytes between frames"
+              >
+                <input
+                  type="checkbox"
+                  checked={noisy}
+                  disabled={busy}
+                  onChange={(e) => setNoisy(e.target.checked)}
+                />
+                Line noise
+              </label>
+            )}
+            {busy ? (
+              <Button size="sm" onClick={disconnect}>
+                Disconnect
+              </Button>
+            ) : (
+              <Button
+                size="sm"
+                disabled={
+                  (source === "serial" && !port) ||
+                  (source === "websocket" && !url.trim()) ||
+                  (source === "replay" && replayId === null)
+                }
+                onClick={connect}
+              >
+                Connect
+              </Button>
+            )}
+            <Button variant="secondary" size="sm" onClick={clear}>
+              Clear
+            </Button>
+            <span
+              className={
+                "ml-auto " +
+                (state === "connected"
+                  ? "text-emerald-600"
+                  : state === "error"
+                  ? "text-destructive"
+                  : state === "reconnecting"
+                  ? "text-yellow-700"
+                  : "text-muted-foreground")
+              }
+            >
+              {state}
+              {label && state !== "disconnected" && ` — ${label}`}
+            </span>
+          </div>
+          {detail && (
+            <div
+              className={
+                "flex items-center gap-2 " +
+                (state === "error" ? "text-destructive" : "text-yellow-700")
+              }
+            >
+              <AlertCircle className="w-4 h-4" /> {detail}
+            </div>
+          )}
+          {replay && replayState && (
+            <ReplayControls
+              replay={replay}
+              state={replayState}
+              basis={replayBasis}
+            />
+          )}
+          {isSessionStoreSupported() && source !== "replay" && (
+            <div className="flex flex-wrap items-center gap-2">
+              <Input
+                className="w-48"
+                value={recName}
+                disabled={recording}
+                onChange={(e) => setRecName(e.target.value)}
+                placeholder="Session name"
+              />
+              <Input
+                className="w-56"
+                value={recTags}
+                disabled={recording}
+                onChange={(e) => setRecTags(e.target.value)}
+                placeholder="Tags, e.g. static fire #3, pad B"
+              />
+              {recording ? (
+                <Button size="sm" onClick={stopRecorder}>
+                  Stop recording
+                </Button>
+              ) : (
+                <Button variant="secondary" size="sm" onClick={startRecorder}>
+                  Record
+                </Button>
+              )}
+              {recStatus && (
+                <span
+                  className={
+                    recording ? "text-destructive" : "text-muted-foreground"
+                  }
+                >
+                  {recording ? "● recording" : "saved"}:{" "}
+                  {recStatus.frameCount} frames, {recStatus.byteCount} B
+                </span>
+              )}
+              {(recError ?? recStatus?.error) && (
+                <span className="flex items-center gap-2 text-destructive">
+                  <AlertCircle className="w-4 h-4" />{" "}
+                  {recError ?? recStatus?.error}
+                </span>
+              )}
+            </div>
+          )}
+          {settings}
+          {!isSerialSupported() && (
+            <p className="text-muted-foreground">
+              Web Serial needs a Chromium-based browser and a secure context
+              (https or localhost).
+            </p>
+          )}
+          {source === "websocket" && (
+            <p className="text-muted-foreground">
+              For a local feed run <code>npm run bridge -- --demo</code>, or
+              pipe a capture or serial device into{" "}
+              <code>npm run bridge -- -</code>.
+            </p>
+          )}
+        </CardContent>
+      </Card>
+
+      <LinkHealthPanel monitor={monitor} active={busy} />
+      {snapshot && (
+        <StreamSummary
+          result={{ ...snapshot, fallback: false }}
+          selected={idx}
+          onSelect={(i) => setSelected(i === frames.length - 1 ? null : i)}
+        />
+      )}
+      <LinkTrend frames={frames} />
+      <SequencePanel
+        frames={frames}
+        onSelect={(i) => setSelected(i === frames.length - 1 ? null : i)}
+      />
+      {snapshot && snapshot.frameCount > frames.length && (
+        <p className="text-xs text-muted-foreground">
+          Showing the newest {frames.length} of {snapshot.frameCount} frames.
+        </p>
+      )}
+      {current && (
+        <FrameDetails
+          decoded={current}
+          profile={
+            profiles.find((p) => p.id === current.version) ?? profiles[0]
+          }
+          schema={opts.schema}
+        />
+      )}
+    </>
+  );
+}
@@ -0,0 +1,99 @@
+import {
+  LOG_FORMATS,
+  type LogImport,
+  type LogOptions,
+  type TimeUnit,
+} from "@/lib/protocol";
+
+// Column mapping for a line-oriented capture log
+export function LogMapping({
+  options,
+  onChange,
+  result,
+}: {
+  options: LogOptions;
+  onChange: (next: LogOptions) => void;
+  result: LogImport; // parse with the current options, for the guesses
+}) {
+  const select = "border rounded-md px-2 py-1";
+  return (
+    <div className="space-y-1">
+      <div className="flex flex-wrap items-center gap-2">
+        <label className="flex items-center gap-2">
+          Format
+          <select
+            className={select}
+            value={options.format}
+            onChange={(e) =>
+              // column names mean nothing across formats: guess again
+              onChange({
+                format: e.target.value as LogOptions["format"],
+                timeUnit: options.timeUnit,
+              })
+            }
+          >
+            {LOG_FORMATS.map((f) => (
+              <option key={f.id} value={f.id}>
+                {f.name}
+              </option>
+            ))}
+          </select>
+        </label>
+        {result.columns.length > 0 && (
+          <>
+            <label className="flex items-center gap-2">
+              Time
+              <select
+                className={select}
+                value={result.time ?? ""}
+                onChange={(e) => onChange({ ...options, time: e.target.value })}
+              >
+                <option value="">(none)</option>
+                {result.columns.map((c) => (
+                  <option key={c} value={c}>
+                    {c}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label className="flex items-center gap-2">
+              Hex
+              <select
+                className={select}
+                value={result.data}
+                onChange={(e) => onChange({ ...options, data: e.target.value })}
+              >
+                {result.columns.map((c) => (
+                  <option key={c} value={c}>
+                    {c}
+                  </option>
+                ))}
+              </select>
+            </label>
+          </>
+        )}
+        <label className="flex items-center gap-2">
+          Time unit
+          <select
+            className={select}
+            value={options.timeUnit ?? "auto"}
+            onChange={(e) =>
+              onChange({ ...options, timeUnit: e.target.value as TimeUnit })
+            }
+          >
+            <option value="auto">Auto</option>
+            <option value="s">Seconds</option>
+            <option value="ms">Milliseconds</option>
+            <option value="iso">Date / time text</option>
+          </select>
+        </label>
+      </div>
+      {result.errors.length > 0 && (
+        <div className="text-xs text-yellow-700">
+          {result.errors.slice(0, 3).join("; ")}
+          {result.skipped > 3 && ` …and ${result.skipped - 3} more`}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,136 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  REPLAY_SPEEDS,
+  type ReplayBasis,
+  type ReplayState,
+  type ReplayTransport,
+} from "@/lib/transport";
+
+const REPLAY_BASIS_LABELS: Record<ReplayBasis, string> = {
+  rxTime: "receive times",
+  millis: "the millis counter",
+  even: "even 100 ms spacing (no times recorded)",
+};
+
+// Transport controls for a session replay; the frame list and details
+// follow the cursor like they follow a live link
+export function ReplayControls({
+  replay,
+  state,
+  basis,
+}: {
+  replay: ReplayTransport;
+  state: ReplayState;
+  basis: ReplayBasis;
+}) {
+  const [seekTo, setSeekTo] = useState<string>("");
+  const [seekSeq, setSeekSeq] = useState<string>("");
+  const [missing, setMissing] = useState<string | null>(null);
+  const secs = (ms: number) => (ms / 1000).toFixed(1);
+
+  const goTime = () => {
+    const s = Number(seekTo);
+    if (seekTo.trim() && Number.isFinite(s)) replay.seekTime(s * 1000);
+  };
+  const goSequence = () => {
+    const n = Number(seekSeq);
+    if (!seekSeq.trim() || !Number.isInteger(n)) return;
+    setMissing(
+      replay.seekSequence(n) ? null : `No frame with sequence ${n}.`
+    );
+  };
+
+  return (
+    <div className="rounded-md border p-2 space-y-2">
+      <div className="flex flex-wrap items-center gap-2">
+        <Button
+          variant="secondary"
+          size="sm"
+          disabled={state.index <= 1}
+          onClick={() => replay.step(-1)}
+          title="Previous frame"
+        >
+          ◀︎ Step
+        </Button>
+        {state.playing ? (
+          <Button size="sm" onClick={() => replay.pause()}>
+            Pause
+          </Button>
+        ) : (
+          <Button size="sm" onClick={() => replay.play()}>
+            Play
+          </Button>
+        )}
+        <Button
+          variant="secondary"
+          size="sm"
+          disabled={state.index >= state.count}
+          onClick={() => replay.step(1)}
+          title="Next frame"
+        >
+          Step ▶︎
+        </Button>
+        <label className="flex items-center gap-2">
+          Speed
+          <select
+            className="border rounded-md px-2 py-1"
+            value={state.speed}
+            onChange={(e) => replay.setSpeed(Number(e.target.value))}
+          >
+            {REPLAY_SPEEDS.map((x) => (
+              <option key={x} value={x}>
+                {x}×
+              </option>
+            ))}
+          </select>
+        </label>
+        <span className="ml-auto font-mono">
+          frame {state.index} / {state.count} · {secs(state.position)} s /{" "}
+          {secs(state.duration)} s
+        </span>
+      </div>
+      <input
+        type="range"
+        className="w-full"
+        min={0}
+        max={Math.max(0, state.count - 1)}
+        value={Math.max(0, state.index - 1)}
+        onChange={(e) => replay.seek(Number(e.target.value))}
+      />
+      <div className="flex flex-wrap items-center gap-2">
+        <label className="flex items-center gap-2">
+          Go to
+          <Input
+            className="w-24 h-8"
+            value={seekTo}
+            onChange={(e) => setSeekTo(e.target.value)}
+            onKeyDown={(e) => e.key === "Enter" && goTime()}
+            placeholder="seconds"
+          />
+        </label>
+        <Button variant="secondary" size="sm" onClick={goTime}>
+          Seek
+        </Button>
+        <label className="flex items-center gap-2">
+          Sequence
+          <Input
+            className="w-24 h-8"
+            value={seekSeq}
+            onChange={(e) => setSeekSeq(e.target.value)}
+            onKeyDown={(e) => e.key === "Enter" && goSequence()}
+            placeholder="e.g. 1200"
+          />
+        </label>
+        <Button variant="secondary" size="sm" onClick={goSequence}>
+          Find
+        </Button>
+        {missing && <span className="text-destructive">{missing}</span>}
+        <span className="ml-auto text-muted-foreground">
+          Timed by {REPLAY_BASIS_LABELS[basis]}
+        </span>
+      </div>
+    </div>
+  );
+}
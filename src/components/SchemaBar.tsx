@@ -0,0 +1,69 @@
+import { Button } from "@/components/ui/button";
+import { AlertCircle } from "lucide-react";
+import type { ProtocolSchema } from "@/lib/protocol";
+
+// Active ArgID/Command schema, with load/export/reset
+export function SchemaBar({
+  schema,
+  error,
+  onLoad,
+  onReset,
+  onExport,
+}: {
+  schema: ProtocolSchema | null; // null = per-version built-in tables
+  error: string | null;
+  onLoad: (file: File) => void;
+  onReset: () => void;
+  onExport: () => void;
+}) {
+  return (
+    <div className="rounded-md border p-3 text-sm space-y-2">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div>
+          Schema:{" "}
+          {schema ? (
+            <>
+              <span className="font-medium">{schema.name}</span>{" "}
+              <span className="text-muted-foreground">
+                ({schema.args.length} ArgIDs, {schema.commands.length}{" "}
+                commands)
+              </span>
+            </>
+          ) : (
+            <span className="font-medium">built-in, per protocol version</span>
+          )}
+        </div>
+        <div className="flex gap-2">
+          <Button variant="secondary" size="sm" asChild>
+            <label className="cursor-pointer">
+              Load schema…
+              <input
+                type="file"
+                accept=".json,application/json"
+                className="hidden"
+                onChange={(e) => {
+                  const file = e.target.files?.[0];
+                  if (file) onLoad(file);
+                  e.target.value = "";
+                }}
+              />
+            </label>
+          </Button>
+          <Button variant="secondary" size="sm" onClick={onExport}>
+            Export JSON
+          </Button>
+          {schema && (
+            <Button variant="secondary" size="sm" onClick={onReset}>
+              Use built-in
+            </Button>
+          )}
+        </div>
+      </div>
+      {error && (
+        <div className="flex items-center gap-2 text-destructive">
+          <AlertCircle className="w-4 h-4" /> {error}
+        </div>
+      )}
+    </div>
+  );
+}
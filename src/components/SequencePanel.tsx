@@ -0,0 +1,264 @@
+import { useMemo, useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  formatRxTime,
+  analyzeSequenceByType,
+  type LossBucket,
+  type SequenceAnalysis,
+  type DecodedFrame,
+  type HeaderType,
+} from "@/lib/protocol";
+import { KV } from "@/components/KV";
+
+const TIMELINE_W = 600;
+const TIMELINE_H = 48;
+const BAR_H = TIMELINE_H - 12; // loss bars, above the 6 px dropout band
+const REGIONS_SHOWN = 20;
+const TIMELINE_BARS = 300; // more loss buckets than this are merged
+
+// Timeline geometry for one analysis: x of an extended counter value, and
+// the loss bars and dropout bands to draw, merged so a long capture draws
+// a bounded number of shapes
+function sequenceTimeline(a: SequenceAnalysis) {
+  const { buckets } = a;
+  // Epochs sit side by side, so a counter reset doesn't stretch the axis
+  const starts: number[] = [];
+  let total = 0;
+  for (const b of buckets) {
+    starts.push(total);
+    total += b.expected;
+  }
+  const scale = TIMELINE_W / Math.max(1, total);
+  const xOf = (ext: number) => {
+    if (!buckets.length || ext < buckets[0].from) return 0;
+    // Last bucket starting at or before ext; buckets ascend
+    let lo = 0;
+    let hi = buckets.length - 1;
+    while (lo < hi) {
+      const mid = (lo + hi + 1) >> 1;
+      if (buckets[mid].from <= ext) lo = mid;
+      else hi = mid - 1;
+    }
+    const b = buckets[lo];
+    return (starts[lo] + Math.min(ext - b.from, b.expected)) * scale;
+  };
+
+  const step = Math.ceil(buckets.length / TIMELINE_BARS);
+  const bars: { x: number; width: number; rate: number; label: string }[] =
+    [];
+  for (let i = 0; i < buckets.length; i += step) {
+    const group = buckets.slice(i, i + step);
+    const lost = group.reduce((acc, b) => acc + b.lost, 0);
+    const expected = group.reduce((acc, b) => acc + b.expected, 0);
+    if (!lost) continue;
+    bars.push({
+      x: starts[i] * scale,
+      width: expected * scale,
+      rate: lost / expected,
+      label: `counter ${group[0].from}–${group[group.length - 1].to - 1}`,
+    });
+  }
+
+  // Holes closer than a unit apart share one band
+  const holes: { x: number; width: number; missing: number; after: number }[] =
+    [];
+  for (const r of a.regions) {
+    const x = xOf(r.from);
+    const end = Math.max(x + 1, xOf(r.to + 1));
+    const last = holes[holes.length - 1];
+    if (last && x <= last.x + last.width + 1) {
+      last.width = Math.max(last.width, end - last.x);
+      last.missing += r.missing;
+    } else
+      holes.push({ x, width: end - x, missing: r.missing, after: r.after });
+  }
+  return { xOf, bars, holes };
+}
+
+// Flight events to line dropouts up against: Event frames and flight mode
+// changes
+function flightMarkers(frames: ReadonlyArray<DecodedFrame>) {
+  const marks: { index: number; label: string }[] = [];
+  let mode: string | undefined;
+  frames.forEach((f, index) => {
+    if (f.event)
+      marks.push({
+        index,
+        label: `${f.event.severityName}: ${
+          f.event.text ?? f.event.codeName ?? f.event.code
+        }`,
+      });
+    const e = f.tlv.find((t) => t.name === "flight_mode")?.engineering;
+    const next = e?.kind === "enum" ? e.label ?? String(e.index) : undefined;
+    if (next !== undefined && mode !== undefined && next !== mode)
+      marks.push({ index, label: `Flight mode ${next}` });
+    mode = next ?? mode;
+  });
+  return marks;
+}
+
+// Gaps, duplicates, reordering and wraps in the sequence counter of one
+// header type, with loss per stretch of the counter on a timeline
+export function SequencePanel({
+  frames,
+  onSelect,
+}: {
+  frames: ReadonlyArray<DecodedFrame>;
+  onSelect: (idx: number) => void;
+}) {
+  const streams = useMemo(() => analyzeSequenceByType(frames), [frames]);
+  const [type, setType] = useState<HeaderType>("Telemetry");
+  const stream = streams.find((s) => s.type === type) ?? streams[0];
+  // Flight events sit on telemetry frames; keep those in this stream
+  const timeline = useMemo(
+    () => stream && sequenceTimeline(stream.analysis),
+    [stream]
+  );
+  const marks = useMemo(() => {
+    const local = new Map(stream?.indices.map((g, i) => [g, i]));
+    return flightMarkers(frames).flatMap((m) => {
+      const index = local.get(m.index);
+      return index === undefined ? [] : [{ ...m, index }];
+    });
+  }, [frames, stream]);
+  if (!stream || !timeline || stream.indices.length < 2) return null;
+  const a = stream.analysis;
+  const { xOf, bars, holes } = timeline;
+  // Analysis indexes are into this type's frames
+  const select = (i: number) => onSelect(stream.indices[i]);
+  const ends = [a.buckets[0], a.buckets[a.buckets.length - 1]];
+  const endLabel = (b: LossBucket, ext: number) =>
+    b.time !== undefined ? formatRxTime(b.time) : `seq ${ext % a.modulus}`;
+  const percent = (r: number) => `${(100 * r).toFixed(2)}%`;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Sequence integrity: {stream.type} frames</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3 text-sm">
+        {streams.length > 1 && (
+          <label className="flex items-center gap-2">
+            Counter
+            <select
+              className="border rounded-md px-2 py-1"
+              value={stream.type}
+              onChange={(e) => setType(e.target.value as HeaderType)}
+            >
+              {streams.map((s) => (
+                <option key={s.type} value={s.type}>
+                  {s.type} ({s.indices.length} frames)
+                </option>
+              ))}
+            </select>
+          </label>
+        )}
+        <div className="grid sm:grid-cols-3 gap-x-6 gap-y-1">
+          <KV
+            label="Received / expected"
+            value={`${a.received} / ${a.expected}`}
+          />
+          <KV
+            label="Lost"
+            value={`${a.lost} (${percent(a.lossRate)})`}
+            warn={a.lost > 0}
+          />
+          <KV label="Duplicates" value={String(a.duplicates)} />
+          <KV label="Out of order" value={String(a.reordered)} />
+          <KV label="Wraps" value={String(a.wraps)} />
+          {/* Steps back too far to be reordering, e.g. a reboot */}
+          <KV
+            label="Counter resets"
+            value={String(a.resets)}
+            warn={a.resets > 0}
+          />
+        </div>
+        <div className="space-y-1">
+          <svg
+            viewBox={`0 0 ${TIMELINE_W} ${TIMELINE_H}`}
+            className="w-full h-16 rounded-md border"
+            preserveAspectRatio="none"
+          >
+            {/* Loss per bucket as bars, holes as a band along the bottom */}
+            {bars.map((b) => (
+              <rect
+                key={b.x}
+                x={b.x}
+                width={Math.max(1, b.width)}
+                y={TIMELINE_H - 8 - BAR_H * b.rate}
+                height={BAR_H * b.rate}
+                className="fill-destructive/40"
+              >
+                <title>{`${b.label}: ${percent(b.rate)} lost`}</title>
+              </rect>
+            ))}
+            {holes.map((h) => (
+              <rect
+                key={h.x}
+                x={h.x}
+                width={h.width}
+                y={TIMELINE_H - 6}
+                height={6}
+                className="fill-destructive cursor-pointer"
+                onClick={() => select(h.after)}
+              >
+                <title>{h.missing} frame(s) missing</title>
+              </rect>
+            ))}
+            {marks.map((m) => (
+              <line
+                key={`${m.index}:${m.label}`}
+                x1={xOf(a.extended[m.index])}
+                x2={xOf(a.extended[m.index])}
+                y1={0}
+                y2={TIMELINE_H}
+                stroke="currentColor"
+                strokeDasharray="2 2"
+                vectorEffect="non-scaling-stroke"
+                className="cursor-pointer"
+                onClick={() => select(m.index)}
+              >
+                <title>{m.label}</title>
+              </line>
+            ))}
+          </svg>
+          <div className="flex justify-between text-xs text-muted-foreground">
+            <span>{endLabel(ends[0], ends[0].from)}</span>
+            <span>
+              red: lost frames; dashed: flight events (hover for details)
+            </span>
+            <span>{endLabel(ends[1], ends[1].to - 1)}</span>
+          </div>
+        </div>
+        {a.regions.length > 0 && (
+          <div>
+            <div className="font-medium">Dropouts</div>
+            <ul className="list-disc ml-6 text-xs">
+              {a.regions.slice(0, REGIONS_SHOWN).map((r) => {
+                const before = stream.indices[r.before];
+                const t = frames[before].rxTime;
+                return (
+                  <li key={r.from}>
+                    <button
+                      type="button"
+                      className="underline-offset-2 hover:underline"
+                      onClick={() => select(r.after)}
+                    >
+                      {r.missing} frame(s) lost after frame #{before}
+                      {t !== undefined && ` (${formatRxTime(t)})`}
+                    </button>
+                  </li>
+                );
+              })}
+              {a.regions.length > REGIONS_SHOWN && (
+                <li className="text-muted-foreground">
+                  …and {a.regions.length - REGIONS_SHOWN} more
+                </li>
+              )}
+            </ul>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
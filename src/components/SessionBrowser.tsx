@@ -0,0 +1,186 @@
+import { useEffect, useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { AlertCircle } from "lucide-react";
+import type { ProtocolSchema } from "@/lib/protocol";
+import {
+  deleteSession,
+  exportSession,
+  listSessions,
+  updateSession,
+  type Session,
+} from "@/lib/session";
+import { downloadBlob, parseTags } from "@/components/helpers";
+
+// Stored sessions, newest first: open one in the Decode tab, rename, retag,
+// export or delete
+export function SessionBrowser({
+  schemas,
+  onOpen,
+}: {
+  schemas: ReadonlyArray<ProtocolSchema>;
+  onOpen: (session: Session) => void;
+}) {
+  const [sessions, setSessions] = useState<Session[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState<boolean>(false);
+
+  // Runs a store action, then reloads the list
+  const run = async (action: () => Promise<unknown>) => {
+    setBusy(true);
+    try {
+      await action();
+      setSessions(await listSessions());
+      setError(null);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    }
+    setBusy(false);
+  };
+  useEffect(() => {
+    listSessions().then(setSessions, (e: unknown) =>
+      setError(e instanceof Error ? e.message : String(e))
+    );
+  }, []);
+
+  const download = (s: Session, format: "jsonl" | "csv") =>
+    run(async () =>
+      downloadBlob(
+        `${s.name.replace(/[^\w.-]+/g, "_")}.${format}`,
+        await exportSession(s, format, schemas)
+      )
+    );
+  const remove = (s: Session) => {
+    if (confirm(`Delete session "${s.name}" and its ${s.frameCount} frames?`))
+      run(() => deleteSession(s.id));
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Recorded sessions</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3 text-sm">
+        <div className="flex flex-wrap items-center gap-2">
+          <Button
+            variant="secondary"
+            size="sm"
+            disabled={busy}
+            onClick={() => run(async () => undefined)}
+          >
+            Refresh
+          </Button>
+          <span className="text-muted-foreground">
+            Record from the Live tab, or save a decoded capture from the
+            Decode tab. Sessions are kept in this browser&apos;s storage.
+          </span>
+        </div>
+        {error && (
+          <div className="flex items-center gap-2 text-destructive">
+            <AlertCircle className="w-4 h-4" /> {error}
+          </div>
+        )}
+        {sessions && !sessions.length && (
+          <p className="text-muted-foreground">No sessions yet.</p>
+        )}
+        {sessions && sessions.length > 0 && (
+          <div className="overflow-x-auto">
+            <table className="w-full text-xs">
+              <thead>
+                <tr className="text-left">
+                  <th className="py-1 pr-2">Name</th>
+                  <th className="py-1 pr-2">Tags</th>
+                  <th className="py-1 pr-2">Source</th>
+                  <th className="py-1 pr-2">Started</th>
+                  <th className="py-1 pr-2">Duration</th>
+                  <th className="py-1 pr-2">Frames</th>
+                  <th className="py-1 pr-2">Bytes</th>
+                  <th className="py-1 pr-2" />
+                </tr>
+              </thead>
+              <tbody>
+                {sessions.map((s) => (
+                  <tr key={s.id} className="border-t align-top">
+                    <td className="py-1 pr-2">
+                      {/* Saved when the field loses focus */}
+                      <Input
+                        className="h-7 w-40 text-xs"
+                        defaultValue={s.name}
+                        disabled={busy}
+                        onBlur={(e) => {
+                          const name = e.target.value.trim();
+                          if (name && name !== s.name)
+                            run(() => updateSession(s.id, { name }));
+                        }}
+                      />
+                    </td>
+                    <td className="py-1 pr-2">
+                      <Input
+                        className="h-7 w-40 text-xs"
+                        defaultValue={s.tags.join(", ")}
+                        disabled={busy}
+                        placeholder="Tags"
+                        onBlur={(e) => {
+                          const tags = parseTags(e.target.value);
+                          if (tags.join() !== s.tags.join())
+                            run(() => updateSession(s.id, { tags }));
+                        }}
+                      />
+                    </td>
+                    <td className="py-1 pr-2">{s.source}</td>
+                    <td className="py-1 pr-2 font-mono">
+                      {new Date(s.startedAt).toLocaleString()}
+                    </td>
+                    <td className="py-1 pr-2 font-mono">
+                      {s.endedAt === undefined
+                        ? "unfinished"
+                        : `${((s.endedAt - s.startedAt) / 1000).toFixed(0)} s`}
+                    </td>
+                    <td className="py-1 pr-2 font-mono">{s.frameCount}</td>
+                    <td className="py-1 pr-2 font-mono">{s.byteCount}</td>
+                    <td className="py-1 pr-2">
+                      <div className="flex flex-wrap gap-1">
+                        <Button
+                          size="sm"
+                          disabled={busy}
+                          onClick={() => onOpen(s)}
+                        >
+                          Open
+                        </Button>
+                        <Button
+                          variant="secondary"
+                          size="sm"
+                          disabled={busy}
+                          onClick={() => download(s, "jsonl")}
+                        >
+                          JSONL
+                        </Button>
+                        <Button
+                          variant="secondary"
+                          size="sm"
+                          disabled={busy}
+                          onClick={() => download(s, "csv")}
+                        >
+                          CSV
+                        </Button>
+                        <Button
+                          variant="secondary"
+                          size="sm"
+                          disabled={busy}
+                          onClick={() => remove(s)}
+                        >
+                          Delete
+                        </Button>
+                      </div>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
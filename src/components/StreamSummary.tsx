@@ -0,0 +1,175 @@
+import { useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import {
+  DISCARD_LABELS,
+  formatRxTime,
+  streamStats,
+  type StreamResult,
+} from "@/lib/protocol";
+import { KV } from "@/components/KV";
+
+// What the Decode tab shows for the pasted input
+export type DecodeResult = StreamResult & {
+  fallback: boolean; // frames[0] is a best-effort parse, not a validated frame
+  byteCount: number;
+};
+
+const PAGE_SIZE = 100;
+const DISCARDS_SHOWN = 100;
+
+// Frame list + discarded ranges for a multi-frame capture, a page at a time
+export function StreamSummary({
+  result,
+  selected,
+  onSelect,
+}: {
+  result: DecodeResult;
+  selected: number;
+  onSelect: (idx: number) => void;
+}) {
+  // null = the page holding the selected frame
+  const [page, setPage] = useState<number | null>(null);
+  const discardedBytes = result.discarded.reduce(
+    (acc, d) => acc + d.end - d.start,
+    0
+  );
+  const stats = streamStats(result);
+  const pages = Math.max(1, Math.ceil(result.frames.length / PAGE_SIZE));
+  const shown = Math.min(page ?? Math.floor(selected / PAGE_SIZE), pages - 1);
+  const first = shown * PAGE_SIZE;
+  const rows = result.frames.slice(first, first + PAGE_SIZE);
+  const timed = rows.some((f) => f.rxTime !== undefined);
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>
+          {result.fallback
+            ? "No valid frames found"
+            : `Frames found: ${result.frames.length}`}
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3 text-sm">
+        <p className="text-muted-foreground">
+          {result.byteCount} B input, {discardedBytes} B discarded
+          {result.fallback &&
+            " — showing a best-effort parse of the whole input"}
+          .
+        </p>
+        {!result.fallback && (
+          <div className="grid sm:grid-cols-3 gap-x-6 gap-y-1">
+            <KV label="Valid" value={String(stats.valid)} />
+            {/* Repaired frames are counted apart from clean ones */}
+            <KV
+              label="Clean / corrected"
+              value={`${stats.valid - stats.corrected} / ${stats.corrected}`}
+            />
+            <KV
+              label="With errors"
+              value={String(stats.frames - stats.valid)}
+            />
+            <KV label="CRC-failed" value={String(stats.crcFailed)} />
+            <KV
+              label="Sequence"
+              value={`${stats.firstSequence} → ${stats.lastSequence}`}
+            />
+          </div>
+        )}
+        {!result.fallback && (
+          <div className="overflow-x-auto max-h-64">
+            <table className="w-full text-xs">
+              <thead>
+                <tr className="text-left">
+                  <th className="py-1 pr-2">#</th>
+                  <th className="py-1 pr-2">Offset</th>
+                  {timed && <th className="py-1 pr-2">Received</th>}
+                  <th className="py-1 pr-2">Type</th>
+                  <th className="py-1 pr-2">Seq</th>
+                  <th className="py-1 pr-2">Len</th>
+                  <th className="py-1 pr-2">Status</th>
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map((f, k) => {
+                  const i = first + k;
+                  return (
+                    <tr
+                      key={i}
+                      className={
+                        "border-t cursor-pointer " +
+                        (i === selected ? "bg-muted" : "")
+                      }
+                      onClick={() => onSelect(i)}
+                    >
+                      <td className="py-1 pr-2 font-mono">{i}</td>
+                      <td className="py-1 pr-2 font-mono">{f.offset}</td>
+                      {timed && (
+                        <td className="py-1 pr-2 font-mono">
+                          {f.rxTime !== undefined && formatRxTime(f.rxTime)}
+                        </td>
+                      )}
+                      <td className="py-1 pr-2">{f.headerType}</td>
+                      <td className="py-1 pr-2 font-mono">{f.sequence}</td>
+                      <td className="py-1 pr-2 font-mono">{f.raw.length}</td>
+                      <td className="py-1 pr-2">
+                        {f.corrected.length
+                          ? `corrected, ${f.corrected.length} bit(s)`
+                          : f.ok
+                          ? f.warnings.length
+                            ? `ok, ${f.warnings.length} warning(s)`
+                            : "ok"
+                          : "error"}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+        {pages > 1 && (
+          <div className="flex items-center gap-2">
+            <Button
+              variant="secondary"
+              size="sm"
+              disabled={shown === 0}
+              onClick={() => setPage(shown - 1)}
+            >
+              Previous
+            </Button>
+            <Button
+              variant="secondary"
+              size="sm"
+              disabled={shown === pages - 1}
+              onClick={() => setPage(shown + 1)}
+            >
+              Next
+            </Button>
+            <span className="text-muted-foreground">
+              Frames {first}–{first + rows.length - 1} of{" "}
+              {result.frames.length} (page {shown + 1} of {pages})
+            </span>
+          </div>
+        )}
+        {result.discarded.length > 0 && (
+          <div>
+            <div className="font-medium">Discarded bytes</div>
+            <ul className="list-disc ml-6 text-xs text-muted-foreground">
+              {result.discarded.slice(0, DISCARDS_SHOWN).map((d, i) => (
+                <li key={i}>
+                  {d.start}..{d.end - 1} ({d.end - d.start} B):{" "}
+                  {DISCARD_LABELS[d.reason]}
+                </li>
+              ))}
+              {result.discarded.length > DISCARDS_SHOWN && (
+                <li>
+                  …and {result.discarded.length - DISCARDS_SHOWN} more ranges
+                </li>
+              )}
+            </ul>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
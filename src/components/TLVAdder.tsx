@@ -0,0 +1,74 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  findArg,
+  hex2,
+  hintFor,
+  placeholderFor,
+  unitLabel,
+  type ProtocolSchema,
+} from "@/lib/protocol";
+
+// Minimal TLV adder UI
+export function TLVAdder({
+  schema,
+  onAdd,
+}: {
+  schema: ProtocolSchema;
+  onAdd: (id: number, value: string) => void;
+}) {
+  const [id, setId] = useState<number>(schema.args[0]?.id ?? 0);
+  const [value, setValue] = useState<string>("");
+  // Fall back to the first ArgID when a newly loaded schema drops this one
+  const def = findArg(schema, id) ?? schema.args[0];
+  if (!def)
+    return (
+      <p className="text-xs text-muted-foreground">
+        The loaded schema defines no ArgIDs.
+      </p>
+    );
+  return (
+    <div className="grid md:grid-cols-[200px_1fr_auto] gap-2 items-end">
+      <label className="text-sm">
+        <div className="mb-1 font-medium">Arg</div>
+        <select
+          className="border rounded-md px-2 py-1 w-full"
+          value={def.id}
+          onChange={(e) => setId(Number(e.target.value))}
+        >
+          {schema.args.map((d) => (
+            <option key={d.id} value={d.id}>
+              0x{hex2(d.id)} — {d.key}
+            </option>
+          ))}
+        </select>
+      </label>
+
+      <label className="text-sm">
+        <div className="mb-1 font-medium">Value {unitLabel(def)}</div>
+        <Input
+          placeholder={placeholderFor(def)}
+          value={value}
+          onChange={(e) => setValue(e.target.value)}
+        />
+        <div className="text-xs text-muted-foreground mt-1">
+          {hintFor(def)}
+        </div>
+      </label>
+
+      <div>
+        <Button
+          onClick={() => {
+            if (value.trim() !== "") {
+              onAdd(def.id, value.trim());
+              setValue("");
+            }
+          }}
+        >
+          Add
+        </Button>
+      </div>
+    </div>
+  );
+}
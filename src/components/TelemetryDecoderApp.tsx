@@ -1,728 +1,460 @@
-import { useMemo, useState } from "react";
+import { useEffect, useMemo, useState } from "react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
-import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
-import { AlertCircle, CheckCircle2, Info, TriangleAlert } from "lucide-react";
-
-// ==========================
-// Protocol constants (v1.1)
-// ==========================
-const SOF = 0xfd; // Start-of-Frame
-const EOF_V11 = 0xfe; // End-of-Frame (v1.1)
-const EOF_TYPO = 0xf1; // Some docs mention 0xF1 — we accept but warn.
-
-// Header bits 7–6 => Type
-const HEADER_TYPE = {
-  TELEMETRY: 0b00,
-  COMMAND: 0b11,
-} as const;
-
-// Header flag bits
-const FLAG_VALUE_BIG = 0b000001; // TLV values big-endian if set
-const FLAG_SEQ_LITTLE = 0b000010; // Sequence little-endian if set
-
-type Endian = "LE" | "BE";
-
-const DEFAULT_VALUE_ENDIAN: Endian = "LE";
-const DEFAULT_SEQUENCE_ENDIAN: Endian = "BE";
+import { AlertCircle } from "lucide-react";
+import {
+  DEFAULT_PROFILE,
+  DEFAULT_SEQUENCE_ENDIAN,
+  DEFAULT_VALUE_ENDIAN,
+  ENVELOPES,
+  FLAG_SEQ_LITTLE,
+  FLAG_VALUE_BIG,
+  HEADER_FLAGS,
+  INPUT_FORMATS,
+  PROFILES,
+  applyCalibrationSet,
+  buildDemoFrame,
+  bytesToHex,
+  calibrationSetFromSchema,
+  calibrationSetToJSON,
+  decodeFrame,
+  decodeFraming,
+  decodeStream,
+  decodeStreamChunked,
+  decodeLogRecords,
+  detectCaptureFormat,
+  detectInputFormat,
+  detectLogFormat,
+  decodeTLV,
+  emptyFrame,
+  encodeAck,
+  encodeCommand,
+  encodeEvent,
+  encodeFrame,
+  encodeFraming,
+  encodeTLVItem,
+  encodeTLVs,
+  findArg,
+  findCommand,
+  findCrc,
+  findProfile,
+  hex2,
+  parseCalibrationSet,
+  parseLog,
+  parseEnvelope,
+  parseInput,
+  parseSchema,
+  readCapture,
+  renderTLVRow,
+  schemaToJSON,
+  unmatchedCalibrations,
+  unwrapEnvelope,
+  type AckSpec,
+  type CalibrationSet,
+  type LogOptions,
+  type DecodeOptions,
+  type DecodedFrame,
+  type Envelope,
+  type InputFormat,
+  type Framing,
+  type FrameSpec,
+  type ProtocolSchema,
+} from "@/lib/protocol";
+import {
+  isSessionStoreSupported,
+  readFrameBatches,
+  saveSession,
+  type Session,
+} from "@/lib/session";
+import { AckEditor } from "@/components/AckEditor";
+import { CalibrationBar } from "@/components/CalibrationBar";
+import { CommandPicker } from "@/components/CommandPicker";
+import {
+  CrcSelect,
+  DecodeSettings,
+  FramingSelect,
+} from "@/components/DecodeSettings";
+import { type EventDraft, EventEditor } from "@/components/EventEditor";
+import { FrameDetails } from "@/components/FrameDetails";
+import { LinkTrend } from "@/components/LinkTrend";
+import { LivePanel } from "@/components/LivePanel";
+import { LogMapping } from "@/components/LogMapping";
+import { SchemaBar } from "@/components/SchemaBar";
+import { SequencePanel } from "@/components/SequencePanel";
+import { SessionBrowser } from "@/components/SessionBrowser";
+import { type DecodeResult, StreamSummary } from "@/components/StreamSummary";
+import { TLVAdder } from "@/components/TLVAdder";
+import { downloadText } from "@/components/helpers";
+
+// An opened capture file: frame bytes, or the text of a line-oriented log;
+// or a recorded session, whose frames stay decoded as they were received
+type Capture =
+  | { name: string; format: "binary" | "hex"; bytes: Uint8Array }
+  | { name: string; format: "log"; text: string }
+  | {
+      name: string;
+      format: "session";
+      session: Session;
+      frames: DecodedFrame[];
+    };
 
-type ArgDef = {
-  id: number;
-  key: string;
-  bytes: number;
-  type:
-    | "uint8"
-    | "uint16"
-    | "uint32"
-    | "int16"
-    | "float"
-    | "enum"
-    | "bitfield";
-  note: string;
-  endian?: Endian;
-};
+// Byte-order flags get their own selects in the generator
+const GEN_FLAG_CHECKBOXES = HEADER_FLAGS.filter(
+  (f) => f.mask !== FLAG_VALUE_BIG && f.mask !== FLAG_SEQ_LITTLE
+);
 
-type DecodedFrame = {
-  ok: boolean;
-  warnings: string[];
-  errors: string[];
-  raw: number[];
-  start: number;
-  totalLength: number; // bytes from Header..CRC (excludes EOF)
-  header: number;
-  headerType: "Telemetry" | "Command" | "Unknown";
-  headerFlags: number; // lower 6 bits
-  valueEndian: Endian;
-  sequenceEndian: Endian;
-  sequence: number;
-  payloadBytes: number[];
-  crcRx: number; // received (big-endian)
-  crcCalc: number; // calculated over Header..Payload
-  eof: number;
-  tlv: Array<{
-    id: number;
-    name: string;
-    bytes: number;
-    valueRaw: number[];
-    valueDecoded: unknown;
-    endian: Endian;
-  }>; // decoded TLVs
-  command: { id: number; name: string } | null;
-};
+export default function TelemetryDecoderApp() {
+  const [tab, setTab] = useState<"decode" | "live" | "generate" | "sessions">(
+    "decode"
+  );
+  const [hexInput, setHexInput] = useState<string>("");
+  const [inputFormat, setInputFormat] = useState<InputFormat | "auto">("auto");
+  const [selectedFrame, setSelectedFrame] = useState<number>(0);
+  // null = each protocol version's built-in ArgID table
+  const [customSchema, setCustomSchema] = useState<ProtocolSchema | null>(
+    null
+  );
+  const [schemaError, setSchemaError] = useState<string | null>(null);
+  // null = the calibrations each schema ships with
+  const [calSet, setCalSet] = useState<CalibrationSet | null>(null);
+  const [calError, setCalError] = useState<string | null>(null);
+  const [versionId, setVersionId] = useState<string>("auto");
+  const [recoverTLV, setRecoverTLV] = useState<boolean>(false);
+  const [repairBits, setRepairBits] = useState<number>(0);
+  const [framing, setFraming] = useState<Framing>("raw");
+  const [envelopeId, setEnvelopeId] = useState<string>("none");
+  const [customEnvelope, setCustomEnvelope] = useState<Envelope | null>(null);
+  const [envelopeError, setEnvelopeError] = useState<string | null>(null);
+  // A capture file replaces the pasted text as the Decode tab's input
+  const [capture, setCapture] = useState<Capture | null>(null);
+  const [logOptions, setLogOptions] = useState<LogOptions>({
+    format: "csv",
+  });
+  const [captureResult, setCaptureResult] = useState<DecodeResult | null>(
+    null
+  );
+  const [captureProgress, setCaptureProgress] = useState<number | null>(null);
+  const [captureError, setCaptureError] = useState<string | null>(null);
+  const [dragOver, setDragOver] = useState<boolean>(false);
+  const [saveNote, setSaveNote] = useState<string | null>(null);
+  // CRC per protocol version id; missing or "profile" = what it specifies
+  const [crcIds, setCrcIds] = useState<Record<string, string>>({});
 
-// ArgID map — fixed-size TLVs
-const ArgDefs: ReadonlyArray<ArgDef> = [
-  {
-    id: 0x01,
-    key: "millis",
-    bytes: 4,
-    type: "uint32",
-    note: "time since boot, ms",
-  },
-  { id: 0x02, key: "altitude", bytes: 4, type: "float", note: "altitude AGL, m" },
-  {
-    id: 0x03,
-    key: "vertical_velocity",
-    bytes: 4,
-    type: "float",
-    note: "vertical speed, m/s",
-  },
-  {
-    id: 0x04,
-    key: "vertical_acceleration",
-    bytes: 4,
-    type: "float",
-    note: "vertical accel, m/s²",
-  },
-  {
-    id: 0x05,
-    key: "avionics_temperature",
-    bytes: 2,
-    type: "int16",
-    note: "avionics °C ×10",
-  },
-  {
-    id: 0x06,
-    key: "cpu_temperature",
-    bytes: 2,
-    type: "int16",
-    note: "CPU °C ×10",
-  },
-  {
-    id: 0x07,
-    key: "flight_mode",
-    bytes: 1,
-    type: "enum",
-    note: "flight-mode enum",
-  },
-  { id: 0x08, key: "air_brakes", bytes: 1, type: "uint8", note: "air-brakes %" },
-  {
-    id: 0x09,
-    key: "oxidizer_temperature",
-    bytes: 2,
-    type: "int16",
-    note: "oxidizer °C ×10",
-  },
-  {
-    id: 0x0a,
-    key: "oxidizer_pressure",
-    bytes: 2,
-    type: "uint16",
-    note: "oxidizer pressure, bar",
-  },
-  {
-    id: 0x0b,
-    key: "valve_status",
-    bytes: 1,
-    type: "bitfield",
-    note: "valve bitmask",
-  },
-  { id: 0x0c, key: "gps_lat", bytes: 4, type: "float", note: "GPS latitude" },
-  { id: 0x0d, key: "gps_long", bytes: 4, type: "float", note: "GPS longitude" },
-  { id: 0x0e, key: "yaw", bytes: 2, type: "int16", note: "deg ×100" },
-  { id: 0x0f, key: "pitch", bytes: 2, type: "int16", note: "deg ×100" },
-  { id: 0x10, key: "roll", bytes: 2, type: "int16", note: "deg ×100" },
-  {
-    id: 0x20,
-    key: "oxidizer_pressure_1",
-    bytes: 4,
-    type: "float",
-    note: "CM pressure, bar",
-  },
-  {
-    id: 0x21,
-    key: "oxidizer_pressure_2",
-    bytes: 4,
-    type: "float",
-    note: "pre-injector pressure, bar",
-  },
-  {
-    id: 0x22,
-    key: "oxidizer_pressure_3",
-    bytes: 4,
-    type: "float",
-    note: "pre-injector pressure (redundant), bar",
-  },
-  {
-    id: 0x23,
-    key: "load_cell_500n",
-    bytes: 4,
-    type: "float",
-    note: "500N load cell",
-  },
-  {
-    id: 0x24,
-    key: "load_cell_5k",
-    bytes: 4,
-    type: "float",
-    note: "5K load cell",
-  },
-] as const;
+  // ===== Generator state =====
+  const [genType, setGenType] = useState<FrameSpec["type"]>("Telemetry");
+  const [genFlags, setGenFlags] = useState<number>(
+    (DEFAULT_VALUE_ENDIAN === "BE" ? FLAG_VALUE_BIG : 0) |
+      (DEFAULT_SEQUENCE_ENDIAN === "LE" ? FLAG_SEQ_LITTLE : 0)
+  );
+  const [genSeq, setGenSeq] = useState<number>(42);
+  const [genVersionId, setGenVersionId] = useState<string>(DEFAULT_PROFILE.id);
+  const [genEOF, setGenEOF] = useState<number>(DEFAULT_PROFILE.eof);
+  const [genCrcId, setGenCrcId] = useState<string>("profile");
+  const [genFraming, setGenFraming] = useState<Framing>("raw");
+  const [genCmdId, setGenCmdId] = useState<number>(
+    DEFAULT_PROFILE.schema.commands[0]?.id ?? 0
+  );
+  const [genCmdArgs, setGenCmdArgs] = useState<string[]>([]);
+  const [genAck, setGenAck] = useState<AckSpec>({
+    sequence: 0,
+    commandId: DEFAULT_PROFILE.schema.commands[0]?.id ?? 0,
+    result: 0,
+  });
+  const [genEvent, setGenEvent] = useState<EventDraft>({
+    severity: 1,
+    kind: "text",
+    text: "",
+    code: 0,
+  });
+  const [genItems, setGenItems] = useState<
+    Array<{ id: number; value: string }>
+  >([]);
+  const [genOutHex, setGenOutHex] = useState<string>("");
+  const [genErrors, setGenErrors] = useState<string[]>([]);
 
-const FLIGHT_MODES = [
-  "STARTUP",
-  "SENSOR_CHECK",
-  "ARMED",
-  "LIFT_OFF",
-  "COAST_AND_CONTROL",
-  "DROGUE_DESCEND",
-  "MAIN_DESCEND",
-  "TOUCHDOWN",
-  "ABORT",
-] as const;
+  // Every schema the decoder and generator see has the calibration set
+  // swapped in, so decoded views and generator inputs agree on units
+  const calibrate = useMemo(
+    () => (schema: ProtocolSchema) =>
+      calSet ? applyCalibrationSet(schema, calSet) : schema,
+    [calSet]
+  );
+  const schema = useMemo(
+    () => (customSchema ? calibrate(customSchema) : undefined),
+    [customSchema, calibrate]
+  );
+  const profiles = useMemo(
+    () =>
+      PROFILES.map((p) => ({
+        ...p,
+        crc: findCrc(crcIds[p.id] ?? "profile") ?? p.crc,
+        schema: calibrate(p.schema),
+      })),
+    [crcIds, calibrate]
+  );
+  const pinnedProfile = profiles.find((p) => p.id === versionId);
+  const genBase = findProfile(genVersionId) ?? DEFAULT_PROFILE;
+  const genCrc = findCrc(genCrcId);
+  const genProfile = genCrc ? { ...genBase, crc: genCrc } : genBase;
+  const genSchema = useMemo(
+    () => calibrate(customSchema ?? genProfile.schema),
+    [calibrate, customSchema, genProfile.schema]
+  );
 
-// Command ID map
-const CommandDefs = [
-  { id: 0x70, key: "LAUNCH" },
-  { id: 0x80, key: "ABORT" },
-  { id: 0x81, key: "SET_FLIGHT_MODE" },
-  { id: 0x82, key: "SET_AIR_BRAKES" },
-  { id: 0xaa, key: "ARM" },
-  { id: 0xdd, key: "DISARM" },
-  { id: 0xa0, key: "OPEN_MAINVALVE" },
-  { id: 0xa1, key: "OPEN_SECVALVE" },
-  { id: 0xa2, key: "OPEN_VENTVALVE" },
-  { id: 0xa3, key: "OPEN_PURGEVALVE" },
-  { id: 0xb0, key: "CLOSE_MAINVALVE" },
-  { id: 0xb1, key: "CLOSE_SECVALVE" },
-  { id: 0xb2, key: "CLOSE_VENTVALVE" },
-  { id: 0xb3, key: "CLOSE_PURGEVALVE" },
-  { id: 0xc0, key: "DETATCH_NOX_ACTUATOR" },
-  { id: 0xc1, key: "DETATCH_N2_ACTUATOR" },
-  { id: 0x7f, key: "PING" },
-] as const;
+  const envelopes = useMemo(
+    () => (customEnvelope ? [...ENVELOPES, customEnvelope] : ENVELOPES),
+    [customEnvelope]
+  );
+  const envelope = envelopes.find((e) => e.id === envelopeId);
+
+  const decodeOpts = useMemo<DecodeOptions>(
+    () => ({
+      schema,
+      profile: pinnedProfile,
+      profiles,
+      recoverTLV,
+      repairBits,
+      framing,
+      envelope,
+    }),
+    [schema, pinnedProfile, profiles, recoverTLV, repairBits, framing, envelope]
+  );
 
-// CRC-16 (Modbus 0xA001) — compute over Header..Payload
-function crc16_modbus(bytes: number[]): number {
-  let crc = 0xffff;
-  for (const b of bytes) {
-    crc ^= b;
-    for (let j = 0; j < 8; j++) {
-      if (crc & 1) crc = (crc >> 1) ^ 0xa001;
-      else crc >>= 1;
+  const pastedResult = useMemo<DecodeResult | null>(() => {
+    if (!hexInput.trim()) return null;
+    const opts = decodeOpts;
+    try {
+      const { bytes } = parseInput(hexInput, inputFormat);
+      const result = decodeStream(bytes, opts);
+      if (result.frames.length === 0) {
+        // Nothing passed validation: show a single-frame parse so the
+        // integrity card can explain what is wrong with the input.
+        const sofs = new Set(profiles.map((p) => p.sof));
+        const inner = envelope && unwrapEnvelope(bytes, envelope, sofs);
+        const wire = inner ? inner.frame : bytes;
+        const unframed = decodeFraming(wire, framing) ?? wire;
+        const frame = {
+          ...decodeFrame(unframed, opts),
+          link: inner ? inner.link : undefined,
+        };
+        return {
+          ...result,
+          frames: [
+            framing === "raw" && !inner ? frame : { ...frame, wire: bytes },
+          ],
+          fallback: true,
+          byteCount: bytes.length,
+        };
+      }
+      return { ...result, fallback: false, byteCount: bytes.length };
+    } catch (e) {
+      return {
+        frames: [
+          emptyFrame([], [e instanceof Error ? e.message : String(e)]),
+        ],
+        discarded: [],
+        fallback: true,
+        byteCount: 0,
+      };
     }
-  }
-  return crc & 0xffff;
-}
+  }, [hexInput, inputFormat, decodeOpts, framing, envelope, profiles]);
 
-// Helpers to parse integers/floats from byte arrays
-function readUint16(bytes: number[], endian: Endian): number {
-  return endian === "LE"
-    ? bytes[0] | (bytes[1] << 8)
-    : (bytes[0] << 8) | bytes[1];
-}
-function readInt16(bytes: number[], endian: Endian): number {
-  const u = readUint16(bytes, endian);
-  return u & 0x8000 ? u - 0x10000 : u;
-}
-function readUint32(bytes: number[], endian: Endian): number {
-  if (endian === "LE")
-    return (
-      (bytes[0] | (bytes[1] << 8) | (bytes[2] << 16) | (bytes[3] << 24)) >>> 0
-    );
-  return (
-    (((bytes[0] << 24) >>> 0) |
-      (bytes[1] << 16) |
-      (bytes[2] << 8) |
-      bytes[3]) >>>
-    0
+  const logImport = useMemo(
+    () =>
+      capture?.format === "log" ? parseLog(capture.text, logOptions) : null,
+    [capture, logOptions]
   );
-}
-function readFloat32(bytes: number[], endian: Endian): number {
-  const buf = new ArrayBuffer(4);
-  const view = new DataView(buf);
-  if (endian === "LE") {
-    view.setUint8(0, bytes[0]);
-    view.setUint8(1, bytes[1]);
-    view.setUint8(2, bytes[2]);
-    view.setUint8(3, bytes[3]);
-    return view.getFloat32(0, true);
-  } else {
-    view.setUint8(0, bytes[0]);
-    view.setUint8(1, bytes[1]);
-    view.setUint8(2, bytes[2]);
-    view.setUint8(3, bytes[3]);
-    return view.getFloat32(0, false);
-  }
-}
-
-// Clean hex string to byte array
-function hexToBytes(input: string): number[] {
-  // Accept "0x", spaces, commas, newlines. Keep only hex chars.
-  const clean = input.replace(/[^0-9a-fA-F]/g, "").toLowerCase();
-  if (clean.length % 2 !== 0)
-    throw new Error(
-      "Hex string has odd length after cleaning – missing a nibble?"
-    );
-  const out: number[] = [];
-  for (let i = 0; i < clean.length; i += 2) {
-    out.push(parseInt(clean.slice(i, i + 2), 16));
-  }
-  return out;
-}
 
-// Format helpers
-const hex2 = (n: number) => n.toString(16).toUpperCase().padStart(2, "0");
-const hex4 = (n: number) => n.toString(16).toUpperCase().padStart(4, "0");
+  // Files decode in slices off the render path; settings changes re-run it
+  // (sessions keep the decode they were recorded with)
+  useEffect(() => {
+    if (!capture) return;
+    const abort = new AbortController();
+    setCaptureProgress(0);
+    const decoding = logImport
+      ? decodeLogRecords(
+          logImport.records,
+          decodeOpts,
+          (n) => setCaptureProgress(n / logImport.records.length),
+          abort.signal
+        )
+      : capture.format === "session"
+      ? Promise.resolve({ frames: capture.frames, discarded: [] })
+      : capture.format !== "log"
+      ? decodeStreamChunked(
+          capture.bytes,
+          decodeOpts,
+          (n) => setCaptureProgress(n / capture.bytes.length),
+          abort.signal
+        )
+      : null;
+    const byteCount = logImport
+      ? logImport.records.reduce((acc, r) => acc + r.bytes.length, 0)
+      : capture.format === "session"
+      ? capture.session.byteCount
+      : capture.format !== "log"
+      ? capture.bytes.length
+      : 0;
+    decoding
+      ?.then((result) => {
+        setCaptureResult({ ...result, fallback: false, byteCount });
+        setCaptureProgress(null);
+        setCaptureError(null);
+      })
+      .catch((e) => {
+        // Aborted: a newer decode has taken over
+        if (e instanceof Error && e.name === "AbortError") return;
+        const msg = e instanceof Error ? e.message : String(e);
+        setCaptureError(`${capture.name}: ${msg}`);
+        setCaptureProgress(null);
+      });
+    return () => abort.abort();
+  }, [capture, logImport, decodeOpts]);
+
+  const decodeResult = capture ? captureResult : pastedResult;
+
+  const selectedIdx = decodeResult
+    ? Math.min(selectedFrame, decodeResult.frames.length - 1)
+    : 0;
+  const decoded = decodeResult?.frames[selectedIdx] ?? null;
+
+  const changeInput = (hex: string) => {
+    setHexInput(hex);
+    setCapture(null);
+    setCaptureResult(null);
+    setCaptureError(null);
+    setSaveNote(null);
+    setSelectedFrame(0);
+  };
 
-function decodeTLV(payload: number[]) {
-  const out: DecodedFrame["tlv"] = [];
-  let i = 0;
-  while (i < payload.length) {
-    const id = payload[i++];
-    const def = ArgDefs.find((d) => d.id === id);
-    if (!def) {
-      // Unknown ArgID: bail out of the loop; higher layer will warn
-      break;
-    }
-    if (i + def.bytes > payload.length) {
-      break; // truncated
+  const openCapture = async (file: File) => {
+    try {
+      const data = new Uint8Array(await file.arrayBuffer());
+      const format = detectCaptureFormat(data);
+      setCaptureResult(null);
+      if (format === "log") {
+        const text = new TextDecoder().decode(data);
+        setLogOptions({ format: detectLogFormat(text) });
+        setCapture({ name: file.name, format, text });
+      } else
+        setCapture({
+          name: file.name,
+          format,
+          bytes: readCapture(data, format),
+        });
+      setCaptureError(null);
+      setSaveNote(null);
+      setSelectedFrame(0);
+    } catch (e) {
+      const msg = e instanceof Error ? e.message : String(e);
+      setCaptureError(`${file.name}: ${msg}`);
     }
-    const val = payload.slice(i, i + def.bytes);
-    i += def.bytes;
-
-    let decoded: unknown = val;
-    const endian = def.endian ?? DEFAULT_VALUE_ENDIAN;
+  };
 
-    switch (def.type) {
-      case "uint8":
-        decoded = val[0];
-        break;
-      case "uint16":
-        decoded = readUint16(val, endian);
-        break;
-      case "int16":
-        decoded = readInt16(val, endian);
-        break;
-      case "uint32":
-        decoded = readUint32(val, endian);
-        break;
-      case "float":
-        decoded = readFloat32(val, endian);
-        break;
-      case "enum":
-        decoded = val[0];
-        break;
-      case "bitfield":
-        decoded = val[0];
-        break;
+  // ====== Sessions ======
+  const openSession = async (session: Session) => {
+    try {
+      const frames: DecodedFrame[] = [];
+      await readFrameBatches(session.id, (rows) => {
+        for (const r of rows) frames.push(r.frame);
+      });
+      setCaptureResult(null);
+      setCapture({ name: session.name, format: "session", session, frames });
+      setCaptureError(null);
+      setSaveNote(null);
+      setSelectedFrame(0);
+      setTab("decode");
+    } catch (e) {
+      const msg = e instanceof Error ? e.message : String(e);
+      setCaptureError(`${session.name}: ${msg}`);
+      setTab("decode");
     }
-
-    out.push({
-      id,
-      name: def.key,
-      bytes: def.bytes,
-      valueRaw: val,
-      valueDecoded: decoded,
-      endian,
-    });
-  }
-  return out;
-}
-
-// Main parser
-function parseFrame(bytes: number[]): DecodedFrame {
-  const warnings: string[] = [];
-  const errors: string[] = [];
-
-  if (bytes.length < 1 + 1 + 1 + 2 + 2 + 1) {
-    errors.push("Too short to be a valid frame.");
-    return baseResult();
-  }
-
-  const start = bytes[0];
-  if (start !== SOF) {
-    errors.push(
-      `Invalid Start-of-Frame: expected 0x${hex2(SOF)}, got 0x${hex2(start)}`
-    );
-  }
-
-  const totalLength = bytes[1];
-  // Expected layout: [SOF][TotalLength][Header][SeqHi?][SeqLo?][...Payload...][CRC Hi][CRC Lo][EOF]
-  const expectedBytesFromHeaderThroughCRC = totalLength;
-  const headerIdx = 2;
-  const header = bytes[headerIdx];
-  const typeBits = (header >> 6) & 0b11;
-  const headerType =
-    typeBits === HEADER_TYPE.TELEMETRY
-      ? "Telemetry"
-      : typeBits === HEADER_TYPE.COMMAND
-      ? "Command"
-      : "Unknown";
-  const headerFlags = header & 0b0011_1111;
-  const valueEndian: Endian =
-    headerFlags & FLAG_VALUE_BIG ? "BE" : "LE";
-  const sequenceEndian: Endian =
-    headerFlags & FLAG_SEQ_LITTLE ? "LE" : "BE";
-  const seqIdx = headerIdx + 1;
-  //const eofIdx =
-  //  2 /*SOF,Len*/ + expectedBytesFromHeaderThroughCRC + 1 /*EOF byte*/ - 1; // Last index: start at 0
-  const minTotal = 2 + expectedBytesFromHeaderThroughCRC + 1; // SOF + TL + (Header..CRC) + EOF
-  if (bytes.length < minTotal) {
-    errors.push(
-      `Truncated frame: need ${minTotal} bytes total (based on TotalLength=${expectedBytesFromHeaderThroughCRC}), got ${bytes.length}.`
-    );
-  }
-
-  // Sequence (2 bytes)
-  const seqHi = bytes[seqIdx];
-  const seqLo = bytes[seqIdx + 1];
-  const sequence =
-    sequenceEndian === "BE" ? (seqHi << 8) | seqLo : (seqLo << 8) | seqHi;
-
-  // Payload spans from after sequence up to the CRC (2 bytes at end of the counted region)
-  const payloadStart = seqIdx + 2;
-  const crcStart =
-    2 /*SOF+Len*/ + expectedBytesFromHeaderThroughCRC - 2; /*CRC bytes*/
-  const payloadBytes = bytes.slice(payloadStart, crcStart);
-
-  // CRC received (big-endian per spec)
-  const crcHi = bytes[crcStart];
-  const crcLo = bytes[crcStart + 1];
-  const crcRx = (crcHi << 8) | crcLo;
-
-  // CRC calculated over Header..Payload
-  const crcCalc = crc16_modbus(bytes.slice(headerIdx, crcStart));
-
-  // EOF
-  const eof = bytes[2 + expectedBytesFromHeaderThroughCRC];
-  if (eof !== EOF_V11) {
-    if (eof === EOF_TYPO) {
-      warnings.push(
-        `EOF is 0x${hex2(
-          EOF_TYPO
-        )} (typo seen in one table); spec v1.1 says 0x${hex2(EOF_V11)}.`
-      );
-    } else {
-      errors.push(
-        `Invalid End-of-Frame: expected 0x${hex2(EOF_V11)}, got 0x${hex2(eof)}`
+  };
+  const saveDecoded = async () => {
+    if (!decodeResult || decodeResult.fallback) return;
+    try {
+      const saved = await saveSession(
+        {
+          name: capture?.name ?? `Pasted frames ${new Date().toLocaleString()}`,
+          tags: [],
+          source: capture?.name ?? "pasted input",
+        },
+        decodeResult.frames,
+        decodeResult.byteCount
       );
-    }
-  }
-
-  // Header decode done above
-  let tlv: DecodedFrame["tlv"] = [];
-  let command: { id: number; name: string } | null = null;
-
-  if (headerType === "Telemetry") {
-    tlv = decodeTLV(payloadBytes);
-
-    // Sanity checks on TLV integrity
-    const seenBytes = tlv.reduce((acc, t) => acc + 1 + t.bytes, 0);
-    if (seenBytes !== payloadBytes.length) {
-      const unknownAt =
-        payloadBytes[seenBytes] !== undefined
-          ? `0x${hex2(payloadBytes[seenBytes])}`
-          : "<end>";
-      warnings.push(
-        `Payload parsing stopped early at byte ${seenBytes}/${payloadBytes.length}. Likely unknown ArgID (${unknownAt}) or truncated value.`
+      setSaveNote(`Saved as session "${saved.name}".`);
+    } catch (e) {
+      setSaveNote(
+        `Couldn't save: ${e instanceof Error ? e.message : String(e)}`
       );
     }
-  } else if (headerType === "Command") {
-    if (payloadBytes.length === 0) {
-      warnings.push("Command frame has no Command ID byte.");
-    } else {
-      const cmdId = payloadBytes[0];
-      const def = CommandDefs.find((c) => c.id === cmdId);
-      command = {
-        id: cmdId,
-        name: def ? def.key : `UNKNOWN(0x${hex2(cmdId)})`,
-      };
-      if (payloadBytes.length > 1) {
-        warnings.push(
-          `Command frame has ${payloadBytes.length - 1} extra payload byte(s).`
-        );
-      }
-    }
-  }
-
-  if (crcRx !== crcCalc) {
-    errors.push(
-      `CRC mismatch: received 0x${hex4(crcRx)} but calculated 0x${hex4(
-        crcCalc
-      )}.`
-    );
-  }
-
-  return {
-    ok: errors.length === 0,
-    warnings,
-    errors,
-    raw: bytes,
-    start,
-    totalLength: expectedBytesFromHeaderThroughCRC,
-    header,
-    headerType,
-    headerFlags,
-    valueEndian,
-    sequenceEndian,
-    sequence,
-    payloadBytes,
-    crcRx,
-    crcCalc,
-    eof,
-    tlv,
-    command,
   };
 
-  function baseResult(): DecodedFrame {
-    return {
-      ok: false,
-      warnings: [],
-      errors,
-      raw: bytes,
-      start: bytes[0] ?? 0,
-      totalLength: 0,
-      header: 0,
-      headerType: "Unknown",
-      headerFlags: 0,
-      valueEndian: "LE",
-      sequenceEndian: "BE",
-      sequence: 0,
-      payloadBytes: [],
-      crcRx: 0,
-      crcCalc: 0,
-      eof: 0,
-      tlv: [],
-      command: null,
-    };
-  }
-}
+  const loadDemo = () => {
+    changeInput(bytesToHex(buildDemoFrame(DEFAULT_SEQUENCE_ENDIAN, framing)));
+    setInputFormat("auto");
+  };
 
-// Pretty-print TLV values with units
-function renderTLVRow(t: DecodedFrame["tlv"][number]): {
-  label: string;
-  value: string;
-  hint?: string;
-} {
-  const idHex = `0x${hex2(t.id)}`;
-  switch (t.name) {
-    case "millis":
-      return {
-        label: `${idHex} millis`,
-        value: `${t.valueDecoded as number} ms`,
-      };
-    case "altitude":
-      return {
-        label: `${idHex} altitude`,
-        value: `${(t.valueDecoded as number).toFixed(2)} m`,
-      };
-    case "vertical_velocity":
-      return {
-        label: `${idHex} vertical_velocity`,
-        value: `${(t.valueDecoded as number).toFixed(2)} m/s`,
-      };
-    case "vertical_acceleration":
-      return {
-        label: `${idHex} vertical_acceleration`,
-        value: `${(t.valueDecoded as number).toFixed(2)} m/s²`,
-      };
-    case "avionics_temperature":
-      return {
-        label: `${idHex} avionics_temperature`,
-        value: `${t.valueDecoded as number} °C`,
-      };
-    case "cpu_temperature":
-      return {
-        label: `${idHex} cpu_temperature`,
-        value: `${t.valueDecoded as number} °C`,
-      };
-    case "flight_mode": {
-      const idx = t.valueDecoded as number;
-      const name = FLIGHT_MODES[idx] ?? `UNKNOWN(${idx})`;
-      return { label: `${idHex} flight_mode`, value: `${idx} – ${name}` };
-    }
-    case "air_brakes":
-      return {
-        label: `${idHex} air_brakes`,
-        value: `${t.valueDecoded as number}% open`,
-      };
-    case "oxidizer_temperature":
-      return {
-        label: `${idHex} oxidizer_temperature`,
-        value: `${t.valueDecoded as number} °C`,
-      };
-    case "oxidizer_pressure": {
-      const raw = t.valueDecoded as number;
-      const bar = raw / 10;
-      return {
-        label: `${idHex} oxidizer_pressure`,
-        value: `${bar.toFixed(1)} bar`,
-        hint: `${raw} (×0.1 bar)`,
-      };
-    }
-    case "oxidizer_pressure_1":
-    case "oxidizer_pressure_2":
-    case "oxidizer_pressure_3":
-      return {
-        label: `${idHex} ${t.name}`,
-        value: `${(t.valueDecoded as number).toFixed(2)} bar`,
-      };
-    case "valve_status": {
-      const b = t.valueDecoded as number;
-      const bits = Array.from({ length: 8 }, (_, i) =>
-        (b >> i) & 1 ? `V${i}` : null
-      )
-        .filter(Boolean)
-        .join(", ");
-      return { label: `${idHex} valve_status`, value: bits || "none" };
+  // ====== Schema ======
+  const loadSchemaFile = async (file: File) => {
+    try {
+      setCustomSchema(parseSchema(JSON.parse(await file.text())));
+      setSchemaError(null);
+    } catch (e) {
+      const msg = e instanceof Error ? e.message : String(e);
+      setSchemaError(`${file.name}: ${msg}`);
     }
-    case "gps_lat":
-      return {
-        label: `${idHex} gps_lat`,
-        value: `${(t.valueDecoded as number).toFixed(6)} °`,
-      };
-    case "gps_long":
-      return {
-        label: `${idHex} gps_long`,
-        value: `${(t.valueDecoded as number).toFixed(6)} °`,
-      };
-    case "yaw":
-      return {
-        label: `${idHex} yaw`,
-        value: `${((t.valueDecoded as number) / 100).toFixed(2)} °`,
-        hint: `${t.valueDecoded as number} (×0.01°)`,
-      };
-    case "pitch":
-      return {
-        label: `${idHex} pitch`,
-        value: `${((t.valueDecoded as number) / 100).toFixed(2)} °`,
-        hint: `${t.valueDecoded as number} (×0.01°)`,
-      };
-    case "roll":
-      return {
-        label: `${idHex} roll`,
-        value: `${((t.valueDecoded as number) / 100).toFixed(2)} °`,
-        hint: `${t.valueDecoded as number} (×0.01°)`,
-      };
-    default:
-      return { label: `${idHex} ${t.name}`, value: String(t.valueDecoded) };
-  }
-}
-
-// Build a demo telemetry frame with a few TLVs
-function buildDemoFrame(sequenceEndian: Endian) {
-  const payload: number[] = [];
-  const endianFor = (id: number): Endian => {
-    const def = ArgDefs.find((d) => d.id === id);
-    return def?.endian ?? DEFAULT_VALUE_ENDIAN;
   };
-  const pushTLV = (id: number, raw: number[]) => {
-    payload.push(id, ...raw);
+  const loadEnvelopeFile = async (file: File) => {
+    try {
+      const next = parseEnvelope(JSON.parse(await file.text()));
+      setCustomEnvelope(next);
+      setEnvelopeId(next.id);
+      setEnvelopeError(null);
+    } catch (e) {
+      const msg = e instanceof Error ? e.message : String(e);
+      setEnvelopeError(`${file.name}: ${msg}`);
+    }
   };
-  const enc16 = (id: number, v: number) =>
-    endianFor(id) === "LE"
-      ? [v & 0xff, (v >> 8) & 0xff]
-      : [(v >> 8) & 0xff, v & 0xff];
-  const enc32 = (id: number, v: number) => {
-    if (endianFor(id) === "LE")
-      return [v & 0xff, (v >> 8) & 0xff, (v >> 16) & 0xff, (v >> 24) & 0xff];
-    return [(v >> 24) & 0xff, (v >> 16) & 0xff, (v >> 8) & 0xff, v & 0xff];
+  const resetSchema = () => {
+    setCustomSchema(null);
+    setSchemaError(null);
   };
-  const encF32 = (id: number, f: number) => {
-    const buf = new ArrayBuffer(4);
-    const dv = new DataView(buf);
-    dv.setFloat32(0, f, endianFor(id) === "LE");
-    return [dv.getUint8(0), dv.getUint8(1), dv.getUint8(2), dv.getUint8(3)];
+  const exportSchema = () => {
+    const schema =
+      customSchema ?? (pinnedProfile ?? DEFAULT_PROFILE).schema;
+    downloadText(
+      `${schema.name.replace(/[^\w.-]+/g, "_")}.schema.json`,
+      schemaToJSON(schema)
+    );
   };
 
-  pushTLV(0x01, enc32(0x01, 123456)); // millis
-  pushTLV(0x02, encF32(0x02, 326.5)); // altitude m
-  pushTLV(0x03, encF32(0x03, -14.5)); // vertical vel
-  pushTLV(0x05, enc16(0x05, 25)); // avionics temp °C
-  pushTLV(0x07, [3]); // flight mode LIFT_OFF
-  pushTLV(0x08, [7]); // air brakes 7%
-  pushTLV(0x0e, enc16(0x0e, Math.round(12.34 * 100))); // yaw ×100
-  pushTLV(0x0f, enc16(0x0f, Math.round(-2.5 * 100))); // pitch ×100 (two's complement)
-
-  const headerTypeBits = HEADER_TYPE.TELEMETRY << 6; // 0b00 in top bits
-  const headerFlags =
-    (DEFAULT_VALUE_ENDIAN === "BE" ? FLAG_VALUE_BIG : 0) |
-    (sequenceEndian === "LE" ? FLAG_SEQ_LITTLE : 0);
-  const header = headerTypeBits | headerFlags;
-
-  const sequenceVal = 42;
-  const seqBytes =
-    sequenceEndian === "BE"
-      ? [(sequenceVal >> 8) & 0xff, sequenceVal & 0xff]
-      : [sequenceVal & 0xff, (sequenceVal >> 8) & 0xff];
-
-  // Build [SOF][Len][Header][Seq][Payload][CRC][EOF]
-  const headerThroughPayload = [header, ...seqBytes, ...payload];
-  const crc = crc16_modbus(headerThroughPayload);
-  const crcBE = [(crc >> 8) & 0xff, crc & 0xff]; // big-endian on the wire
-
-  const totalLength = headerThroughPayload.length + 2; // + CRC bytes, excludes EOF
-  const frame = [SOF, totalLength, ...headerThroughPayload, ...crcBE, EOF_V11];
-  return frame.map(hex2).join("");
-}
-
-export default function TelemetryDecoderApp() {
-  const [tab, setTab] = useState<"decode" | "generate">("decode");
-  const [hexInput, setHexInput] = useState<string>("");
-
-  // ===== Generator state =====
-  const [genType, setGenType] = useState<"Telemetry" | "Command">("Telemetry");
-  const [genFlags, setGenFlags] = useState<number>(0);
-  const [genSeq, setGenSeq] = useState<number>(42);
-  const [genEOF, setGenEOF] = useState<number>(EOF_V11);
-  const [genItems, setGenItems] = useState<
-    Array<{ id: number; value: string }>
-  >([]);
-  const [genOutHex, setGenOutHex] = useState<string>("");
-  const [genErrors, setGenErrors] = useState<string[]>([]);
-
-  const decoded = useMemo<DecodedFrame | null>(() => {
-    if (!hexInput.trim()) return null;
+  // ====== Calibration ======
+  const loadCalibrationFile = async (file: File) => {
     try {
-      const bytes = hexToBytes(hexInput);
-      return parseFrame(bytes);
+      setCalSet(parseCalibrationSet(JSON.parse(await file.text())));
+      setCalError(null);
     } catch (e) {
-      return {
-        ok: false,
-        warnings: [],
-        errors: [e instanceof Error ? e.message : String(e)],
-        raw: [],
-        start: 0,
-        totalLength: 0,
-        header: 0,
-        headerType: "Unknown",
-        headerFlags: 0,
-        valueEndian: "LE",
-        sequenceEndian: "BE",
-        sequence: 0,
-        payloadBytes: [],
-        crcRx: 0,
-        crcCalc: 0,
-        eof: 0,
-        tlv: [],
-        command: null,
-      };
+      const msg = e instanceof Error ? e.message : String(e);
+      setCalError(`${file.name}: ${msg}`);
     }
-  }, [hexInput]);
-
-  const loadDemo = () => setHexInput(buildDemoFrame(DEFAULT_SEQUENCE_ENDIAN));
+  };
+  const resetCalibration = () => {
+    setCalSet(null);
+    setCalError(null);
+  };
+  const exportCalibration = () => {
+    const set =
+      calSet ??
+      calibrationSetFromSchema(
+        customSchema ?? (pinnedProfile ?? DEFAULT_PROFILE).schema
+      );
+    downloadText(
+      `${set.name.replace(/[^\w.-]+/g, "_")}.cal.json`,
+      calibrationSetToJSON(set)
+    );
+  };
 
   // ====== Generator helpers ======
   const addGenItem = (id: number, value: string) =>
@@ -735,143 +467,50 @@ export default function TelemetryDecoderApp() {
     setGenErrors([]);
   };
 
-  function bytesToHex(bytes: number[], joiner = "") {
-    return bytes.map(hex2).join(joiner);
-  }
-
-  function encodeUInt16(n: number, endian: Endian) {
-    const v = Math.max(0, Math.min(0xffff, Math.floor(n)));
-    return endian === "LE"
-      ? [v & 0xff, (v >> 8) & 0xff]
-      : [(v >> 8) & 0xff, v & 0xff];
-  }
-  function encodeInt16(n: number, endian: Endian) {
-    let v = Math.round(n);
-    if (v < -32768 || v > 32767) v = ((v % 0x10000) + 0x10000) % 0x10000; // wrap
-    let u = v < 0 ? 0x10000 + v : v; // two's complement
-    u &= 0xffff;
-    return endian === "LE"
-      ? [u & 0xff, (u >> 8) & 0xff]
-      : [(u >> 8) & 0xff, u & 0xff];
-  }
-  function encodeUInt32(n: number, endian: Endian) {
-    const v = Math.max(0, Math.min(0xffffffff, Math.floor(n))); // clamp
-    if (endian === "LE")
-      return [v & 0xff, (v >> 8) & 0xff, (v >> 16) & 0xff, (v >> 24) & 0xff];
-    return [(v >> 24) & 0xff, (v >> 16) & 0xff, (v >> 8) & 0xff, v & 0xff];
-  }
-  function encodeFloat32(f: number, endian: Endian) {
-    const buf = new ArrayBuffer(4);
-    const dv = new DataView(buf);
-    dv.setFloat32(0, f, endian === "LE");
-    return [dv.getUint8(0), dv.getUint8(1), dv.getUint8(2), dv.getUint8(3)];
-  }
-
-  function encodeTLVItem(
-    id: number,
-    valueStr: string
-  ): number[] | string {
-    const def = ArgDefs.find((d) => d.id === id);
-    if (!def) return `Unknown ArgID 0x${hex2(id)}`;
-
-    const fail = (msg: string) => `Arg ${hex2(id)} (${def.key}): ${msg}`;
-    const endian = def.endian ?? DEFAULT_VALUE_ENDIAN;
-
-    try {
-      switch (def.key) {
-        case "millis": {
-          const n = Number(valueStr);
-          if (!Number.isFinite(n)) return fail("must be a number");
-          return [id, ...encodeUInt32(n, endian)];
-        }
-        case "altitude":
-        case "vertical_velocity":
-        case "vertical_acceleration":
-        case "gps_lat":
-        case "gps_long": {
-          const n = Number(valueStr);
-          if (!Number.isFinite(n)) return fail("must be a float");
-          return [id, ...encodeFloat32(n, endian)];
-        }
-        case "oxidizer_pressure_1":
-        case "oxidizer_pressure_2":
-        case "oxidizer_pressure_3": {
-          const n = Number(valueStr);
-          if (!Number.isFinite(n)) return fail("must be a float");
-          return [id, ...encodeFloat32(n, endian)];
-        }
-        case "avionics_temperature":
-        case "cpu_temperature": {
-          const n = Number(valueStr);
-          if (!Number.isFinite(n)) return fail("must be an integer (°C)");
-          return [id, ...encodeInt16(n, endian)];
-        }
-        case "flight_mode": {
-          const n = Number(valueStr);
-          if (!Number.isInteger(n) || n < 0 || n > 255)
-            return fail("enum 0..255");
-          return [id, n & 0xff];
-        }
-        case "air_brakes": {
-          const n = Number(valueStr);
-          if (!Number.isInteger(n) || n < 0 || n > 100)
-            return fail("percent 0..100");
-          return [id, n & 0xff];
-        }
-        case "oxidizer_temperature": {
-          const n = Number(valueStr);
-          if (!Number.isFinite(n)) return fail("must be an integer (°C)");
-          return [id, ...encodeInt16(n, endian)];
-        }
-        case "oxidizer_pressure": {
-          // UI expects bar, wire is uint16 *0.1 bar
-          const bar = Number(valueStr);
-          if (!Number.isFinite(bar)) return fail("must be a number (bar)");
-          const raw = Math.round(bar * 10);
-          if (raw < 0 || raw > 65535) return fail("out of range after ×10");
-          return [id, ...encodeUInt16(raw, endian)];
-        }
-        case "valve_status": {
-          const n = Number(valueStr);
-          if (!Number.isInteger(n) || n < 0 || n > 255)
-            return fail("bitmask 0..255");
-          return [id, n & 0xff];
-        }
-        case "yaw":
-        case "pitch":
-        case "roll": {
-          // UI expects degrees, wire is int16 ×100
-          const deg = Number(valueStr);
-          if (!Number.isFinite(deg)) return fail("must be a number (degrees)");
-          const raw = Math.round(deg * 100);
-          return [id, ...encodeInt16(raw, endian)];
-        }
-        default:
-          return fail("unsupported field");
-      }
-    } catch (e) {
-      return fail(e instanceof Error ? e.message : String(e));
+  // Set FLAG_VALUE_BIG overrides every ArgID's own byte order
+  const genFrameEndian = genFlags & FLAG_VALUE_BIG ? "BE" : undefined;
+
+  // Payload for the selected frame type, plus any input errors
+  function genPayload(): { payload: number[]; errors: string[] } {
+    const wrap = (out: number[] | string) =>
+      typeof out === "string"
+        ? { payload: [], errors: [out] }
+        : { payload: out, errors: [] };
+    switch (genType) {
+      case "Command":
+        return encodeCommand(
+          // the picker shows the first command if the schema lost this one
+          findCommand(genSchema, genCmdId)
+            ? genCmdId
+            : genSchema.commands[0]?.id ?? genCmdId,
+          genCmdArgs,
+          genSchema,
+          genFrameEndian
+        );
+      case "Ack":
+        return wrap(
+          encodeAck(
+            genAck,
+            genProfile.sequenceBytes,
+            genFlags & FLAG_SEQ_LITTLE ? "LE" : "BE"
+          )
+        );
+      case "Event":
+        return wrap(
+          encodeEvent(
+            genEvent.kind === "text"
+              ? { severity: genEvent.severity, text: genEvent.text }
+              : { severity: genEvent.severity, code: genEvent.code },
+            genFlags & FLAG_VALUE_BIG ? "BE" : "LE"
+          )
+        );
+      default:
+        return encodeTLVs(genItems, genSchema, genFrameEndian);
     }
   }
 
   function buildGeneratedFrame() {
-    const errs: string[] = [];
-    const payload: number[] = [];
-    for (let i = 0; i < genItems.length; i++) {
-      const { id, value } = genItems[i];
-      const encoded = encodeTLVItem(id, value);
-      if (typeof encoded === "string") {
-        errs.push(encoded);
-        continue;
-      }
-      payload.push(...encoded);
-    }
-
-    if (genType !== "Telemetry") {
-      errs.push(
-        "Command frames: payload builder not implemented yet (needs CmdID table wiring)."
-      );
-    }
+    const { payload, errors: errs } = genPayload();
 
     if (errs.length) {
       setGenErrors(errs);
@@ -879,44 +518,59 @@ export default function TelemetryDecoderApp() {
       return;
     }
 
-    // Header
-    const headerTypeBits =
-      genType === "Telemetry"
-        ? HEADER_TYPE.TELEMETRY << 6
-        : HEADER_TYPE.COMMAND << 6;
-    const autoFlags =
-      (DEFAULT_VALUE_ENDIAN === "BE" ? FLAG_VALUE_BIG : 0) |
-      (DEFAULT_SEQUENCE_ENDIAN === "LE" ? FLAG_SEQ_LITTLE : 0);
-    const userFlags = genFlags & 0b0011_1111;
-    const headerFlags =
-      (userFlags & ~(FLAG_VALUE_BIG | FLAG_SEQ_LITTLE)) | autoFlags;
-    const header = (headerTypeBits | headerFlags) & 0xff;
+    const headerFlags = genFlags & 0b0011_1111;
 
-    // Sequence
-    let seqHi: number, seqLo: number;
-    const s = Math.max(0, Math.min(0xffff, Math.floor(genSeq)));
-    if (DEFAULT_SEQUENCE_ENDIAN === "BE") {
-      seqHi = (s >> 8) & 0xff;
-      seqLo = s & 0xff;
-    } else {
-      seqHi = s & 0xff;
-      seqLo = (s >> 8) & 0xff;
+    try {
+      const frame = encodeFrame(
+        {
+          type: genType,
+          flags: headerFlags,
+          sequence: genSeq,
+          payload,
+          eof: genEOF,
+        },
+        genProfile
+      );
+      setGenOutHex(bytesToHex(encodeFraming(frame, genFraming), ""));
+      setGenErrors([]);
+    } catch (e) {
+      setGenErrors([e instanceof Error ? e.message : String(e)]);
+      setGenOutHex("");
     }
-
-    const headerThroughPayload = [header, seqHi, seqLo, ...payload];
-    const crc = crc16_modbus(headerThroughPayload);
-    const crcBE = [(crc >> 8) & 0xff, crc & 0xff];
-    const totalLength = headerThroughPayload.length + 2; // +CRC
-
-    const frame = [SOF, totalLength, ...headerThroughPayload, ...crcBE, genEOF];
-    const hex = bytesToHex(frame, "");
-    setGenOutHex(hex);
-    setGenErrors([]);
   }
 
+  const setCrcId = (versionId: string, id: string) =>
+    setCrcIds((prev) => ({ ...prev, [versionId]: id }));
+
+  const decodeSettings = (className = "") => (
+    <DecodeSettings
+      className={className}
+      recoverTLV={recoverTLV}
+      onRecoverTLV={setRecoverTLV}
+      repairBits={repairBits}
+      onRepairBits={setRepairBits}
+      crcIds={crcIds}
+      onCrcId={setCrcId}
+      framing={framing}
+      onFraming={setFraming}
+      versionId={versionId}
+      onVersionId={setVersionId}
+      envelopeId={envelope ? envelopeId : "none"}
+      onEnvelopeId={setEnvelopeId}
+      envelopes={envelopes}
+      onLoadEnvelope={loadEnvelopeFile}
+      envelopeError={envelopeError}
+    />
+  );
+
+  // Decode the generated frame the way it was built
   const loadGenIntoDecoder = () => {
     if (genOutHex) {
-      setHexInput(genOutHex);
+      changeInput(genOutHex);
+      setInputFormat("auto");
+      setFraming(genFraming);
+      setVersionId(genBase.id);
+      setCrcId(genBase.id, genCrcId);
       setTab("decode");
     }
   };
@@ -935,235 +589,255 @@ export default function TelemetryDecoderApp() {
         >
           Decode
         </Button>
+        <Button
+          variant={tab === "live" ? undefined : "secondary"}
+          onClick={() => setTab("live")}
+        >
+          Live
+        </Button>
         <Button
           variant={tab === "generate" ? undefined : "secondary"}
           onClick={() => setTab("generate")}
         >
           Generate
         </Button>
+        <Button
+          variant={tab === "sessions" ? undefined : "secondary"}
+          onClick={() => setTab("sessions")}
+        >
+          Sessions
+        </Button>
       </div>
 
+      <SchemaBar
+        schema={customSchema}
+        error={schemaError}
+        onLoad={loadSchemaFile}
+        onReset={resetSchema}
+        onExport={exportSchema}
+      />
+      <CalibrationBar
+        set={calSet}
+        unmatched={
+          calSet
+            ? unmatchedCalibrations(
+                customSchema ?? (pinnedProfile ?? DEFAULT_PROFILE).schema,
+                calSet
+              )
+            : []
+        }
+        error={calError}
+        onLoad={loadCalibrationFile}
+        onReset={resetCalibration}
+        onExport={exportCalibration}
+      />
+
       {tab === "decode" && (
         <>
-          <Card>
+          <Card
+            className={dragOver ? "ring-2 ring-primary" : ""}
+            onDragOver={(e) => {
+              e.preventDefault();
+              setDragOver(true);
+            }}
+            onDragLeave={() => setDragOver(false)}
+            onDrop={(e) => {
+              e.preventDefault();
+              setDragOver(false);
+              const file = e.dataTransfer.files[0];
+              if (file) openCapture(file);
+            }}
+          >
             <CardHeader>
-              <CardTitle>Paste telemetry frame (hex)</CardTitle>
+              <CardTitle>
+                Paste telemetry frames (hex) or drop a capture
+              </CardTitle>
             </CardHeader>
             <CardContent className="space-y-3">
-              <Textarea
-                value={hexInput}
-                onChange={(e) => setHexInput(e.target.value)}
-                placeholder="e.g. FD 2A 00 00 2A 01 40 E2 01 00 … FE"
-                className="font-mono h-40"
-              />
-              <div className="flex gap-2">
+              {capture ? (
+                <div className="rounded-md border p-3 text-sm min-h-40 space-y-2">
+                  <div>
+                    Capture:{" "}
+                    <span className="font-medium">{capture.name}</span>{" "}
+                    <span className="text-muted-foreground">
+                      {capture.format === "log"
+                        ? `(text log, ${logImport?.records.length ?? 0} ` +
+                          `records, ${logImport?.skipped ?? 0} lines skipped)`
+                        : capture.format === "session"
+                        ? `(recorded session, ${capture.frames.length} ` +
+                          "frames as decoded when received)"
+                        : `(${
+                            capture.format === "hex" ? "hex text" : "binary"
+                          }, ${capture.bytes.length} B of frame data)`}
+                    </span>
+                  </div>
+                  {logImport && (
+                    <LogMapping
+                      options={logOptions}
+                      onChange={setLogOptions}
+                      result={logImport}
+                    />
+                  )}
+                  {captureProgress !== null && (
+                    <div className="text-muted-foreground">
+                      Decoding… {Math.floor(100 * captureProgress)}%
+                    </div>
+                  )}
+                </div>
+              ) : (
+                <>
+                  <Textarea
+                    value={hexInput}
+                    onChange={(e) => changeInput(e.target.value)}
+                    placeholder="e.g. FD 2A 00 00 2A 01 40 E2 01 00 … FE"
+                    className="font-mono h-40"
+                  />
+                  <label className="flex items-center gap-2 text-sm">
+                    Input format
+                    <select
+                      className="border rounded-md px-2 py-1"
+                      value={inputFormat}
+                      onChange={(e) =>
+                        setInputFormat(e.target.value as InputFormat | "auto")
+                      }
+                    >
+                      <option value="auto">Auto-detect</option>
+                      {INPUT_FORMATS.map((f) => (
+                        <option key={f.id} value={f.id}>
+                          {f.name}
+                        </option>
+                      ))}
+                    </select>
+                    {inputFormat === "auto" && hexInput.trim() && (
+                      <span className="text-muted-foreground">
+                        detected:{" "}
+                        {
+                          INPUT_FORMATS.find(
+                            (f) => f.id === detectInputFormat(hexInput)
+                          )?.name
+                        }
+                      </span>
+                    )}
+                  </label>
+                </>
+              )}
+              {captureError && (
+                <div className="flex items-center gap-2 text-sm text-destructive">
+                  <AlertCircle className="w-4 h-4" /> {captureError}
+                </div>
+              )}
+              <div className="flex flex-wrap items-center gap-2">
                 <Button onClick={loadDemo} type="button">
                   Load demo frame
                 </Button>
+                <Button variant="secondary" asChild>
+                  <label className="cursor-pointer">
+                    Open capture…
+                    <input
+                      type="file"
+                      className="hidden"
+                      onChange={(e) => {
+                        const file = e.target.files?.[0];
+                        if (file) openCapture(file);
+                        e.target.value = "";
+                      }}
+                    />
+                  </label>
+                </Button>
                 <Button
                   variant="secondary"
                   type="button"
-                  onClick={() => setHexInput("")}
+                  onClick={() => changeInput("")}
                 >
                   Clear
                 </Button>
+                {isSessionStoreSupported() && (
+                  <Button
+                    variant="secondary"
+                    type="button"
+                    disabled={
+                      !decodeResult ||
+                      decodeResult.fallback ||
+                      capture?.format === "session"
+                    }
+                    onClick={saveDecoded}
+                    title="Keep these frames in the session store"
+                  >
+                    Save as session
+                  </Button>
+                )}
+                {decodeSettings("ml-auto")}
               </div>
+              {saveNote && (
+                <p className="text-sm text-muted-foreground">{saveNote}</p>
+              )}
               <p className="text-sm text-muted-foreground">
-                Accepts spaces, commas, newlines, and optional <code>0x</code>{" "}
-                prefixes. CRC-16 is Modbus (0xA001), computed over
-                Header..Payload, big-endian on the wire.
+                Accepts hex (spaces, commas, newlines and <code>0x</code>{" "}
+                prefixes allowed), C arrays, Python{" "}
+                <code>b&apos;…&apos;</code> literals, <code>\xFD</code>{" "}
+                escapes, decimal byte lists and base64; the format is detected
+                unless picked. The CRC follows the protocol version
+                (CRC-16/Modbus 0xA001 over Header..Payload, big-endian, for RED
+                v1.x) unless overridden above. Captures may hold several frames
+                back to back; bytes between frames are skipped. Capture files
+                (raw binary such as SD-card logs, hex text, or CSV, JSON-lines
+                and serial-terminal logs with receive times) can be opened or
+                dropped here.
               </p>
             </CardContent>
           </Card>
 
-          {decoded && (
-            <div className="grid md:grid-cols-2 gap-4">
-              <Card>
-                <CardHeader>
-                  <CardTitle className="flex items-center gap-2">
-                    Frame integrity{" "}
-                    {decoded.ok ? (
-                      <CheckCircle2 className="w-5 h-5" />
-                    ) : (
-                      <TriangleAlert className="w-5 h-5" />
-                    )}
-                  </CardTitle>
-                </CardHeader>
-                <CardContent className="space-y-2 text-sm">
-                  <KV
-                    label="Start-of-Frame"
-                    value={`0x${hex2(decoded.start)}`}
-                    good={decoded.start === SOF}
-                  />
-                  <KV
-                    label="TotalLength (Header..CRC)"
-                    value={`${decoded.totalLength} B`}
-                  />
-                  <KV
-                    label="Header"
-                    value={`0b${decoded.header.toString(2).padStart(8, "0")}`}
-                  />
-                  <KV label="Type" value={decoded.headerType} />
-                  <KV
-                    label="Flags (5..0)"
-                    value={`0b${decoded.headerFlags
-                      .toString(2)
-                      .padStart(6, "0")}`}
-                  />
-                  <KV label="Value endian" value={decoded.valueEndian} />
-                  <KV
-                    label="Sequence endian"
-                    value={decoded.sequenceEndian}
-                  />
-                  <KV label="Sequence" value={`${decoded.sequence}`} />
-                  <KV
-                    label="Payload bytes"
-                    value={`${decoded.payloadBytes.length}`}
-                  />
-                  <KV label="CRC (rx)" value={`0x${hex4(decoded.crcRx)}`} />
-                  <KV
-                    label="CRC (calc)"
-                    value={`0x${hex4(decoded.crcCalc)}`}
-                    good={decoded.crcRx === decoded.crcCalc}
-                  />
-                  <KV
-                    label="End-of-Frame"
-                    value={`0x${hex2(decoded.eof)}`}
-                    good={decoded.eof === EOF_V11}
-                    warn={decoded.eof === EOF_TYPO}
-                  />
-
-                  {decoded.errors.length > 0 && (
-                    <div className="mt-2 rounded-md border border-destructive/30 bg-destructive/10 p-2">
-                      <div className="flex items-center gap-2 font-medium text-destructive">
-                        <AlertCircle className="w-4 h-4" /> Errors
-                      </div>
-                      <ul className="list-disc ml-6 text-destructive">
-                        {decoded.errors.map((e, i) => (
-                          <li key={i}>{e}</li>
-                        ))}
-                      </ul>
-                    </div>
-                  )}
-                  {decoded.warnings.length > 0 && (
-                    <div className="mt-2 rounded-md border border-yellow-500/30 bg-yellow-500/10 p-2">
-                      <div className="flex items-center gap-2 font-medium text-yellow-700">
-                        <Info className="w-4 h-4" /> Warnings
-                      </div>
-                      <ul className="list-disc ml-6 text-yellow-700">
-                        {decoded.warnings.map((w, i) => (
-                          <li key={i}>{w}</li>
-                        ))}
-                      </ul>
-                    </div>
-                  )}
-                </CardContent>
-              </Card>
-
-              <Card>
-                <CardHeader>
-                  <CardTitle>Decoded payload</CardTitle>
-                </CardHeader>
-                <CardContent>
-                  {decoded.headerType === "Command" ? (
-                    decoded.command ? (
-                      <p className="text-sm">
-                        Command: 0x{hex2(decoded.command.id)} {decoded.command.name}
-                      </p>
-                    ) : (
-                      <p className="text-sm text-muted-foreground">
-                        No Command ID decoded.
-                      </p>
-                    )
-                  ) : decoded.tlv.length === 0 ? (
-                    <p className="text-sm text-muted-foreground">
-                      No TLVs decoded. Check ArgIDs or endianness.
-                    </p>
-                  ) : (
-                    <ul className="space-y-2">
-                      {decoded.tlv.map((t, idx) => {
-                        const row = renderTLVRow(t);
-                        return (
-                          <li key={idx} className="rounded-lg border p-2">
-                            <div className="flex justify-between text-sm">
-                              <span className="font-medium">{row.label}</span>
-                              <span className="font-mono">{row.value}</span>
-                            </div>
-                            {row.hint && (
-                              <div className="text-xs text-muted-foreground">
-                                {row.hint}
-                              </div>
-                            )}
-                            <div className="mt-1 text-xs text-muted-foreground">
-                              raw: {t.valueRaw.map(hex2).join(" ")}
-                            </div>
-                          </li>
-                        );
-                      })}
-                    </ul>
-                  )}
-                </CardContent>
-              </Card>
-
-              <Card className="md:col-span-2">
-                <CardHeader>
-                  <CardTitle>Raw bytes</CardTitle>
-                </CardHeader>
-                <CardContent>
-                  {decoded.raw.length === 0 ? (
-                    <p className="text-sm text-muted-foreground">—</p>
-                  ) : (
-                    <div className="overflow-x-auto">
-                      <table className="w-full text-xs">
-                        <thead>
-                          <tr className="text-left">
-                            <th className="py-1 pr-2">Idx</th>
-                            <th className="py-1 pr-2">Hex</th>
-                            <th className="py-1 pr-2">Dec</th>
-                            <th className="py-1 pr-2">Meaning</th>
-                          </tr>
-                        </thead>
-                        <tbody>
-                          {decoded.raw.map((b, i) => {
-                            let meaning = "";
-                            if (i === 0) meaning = "SOF";
-                            else if (i === 1) meaning = "TotalLength";
-                            else if (i === 2) meaning = "Header";
-                            else if (i === 3 || i === 4) meaning = "Sequence";
-                            else if (i === 2 + decoded.totalLength - 2)
-                              meaning = "CRC Hi";
-                            else if (i === 2 + decoded.totalLength - 1)
-                              meaning = "CRC Lo";
-                            else if (i === 2 + decoded.totalLength)
-                              meaning = "EOF";
-                            else meaning = "Payload";
-                            return (
-                              <tr key={i} className="border-t">
-                                <td className="py-1 pr-2 font-mono">{i}</td>
-                                <td className="py-1 pr-2 font-mono">
-                                  {hex2(b)}
-                                </td>
-                                <td className="py-1 pr-2 font-mono">{b}</td>
-                                <td className="py-1 pr-2">{meaning}</td>
-                              </tr>
-                            );
-                          })}
-                        </tbody>
-                      </table>
-                    </div>
-                  )}
-                </CardContent>
-              </Card>
-            </div>
+          {decodeResult && (
+            <>
+              <StreamSummary
+                key={capture?.name ?? "pasted"}
+                result={decodeResult}
+                selected={selectedIdx}
+                onSelect={setSelectedFrame}
+              />
+              <LinkTrend frames={decodeResult.frames} />
+              {!decodeResult.fallback && (
+                <SequencePanel
+                  frames={decodeResult.frames}
+                  onSelect={setSelectedFrame}
+                />
+              )}
+              {decoded && (
+                <FrameDetails
+                  decoded={decoded}
+                  profile={
+                    profiles.find((p) => p.id === decoded.version) ??
+                    profiles[0]
+                  }
+                  schema={schema}
+                />
+              )}
+            </>
           )}
         </>
       )}
 
+      {/* Kept mounted so a connection survives switching tabs */}
+      <div className={tab === "live" ? "space-y-6" : "hidden"}>
+        <LivePanel
+          opts={decodeOpts}
+          profiles={profiles}
+          settings={decodeSettings()}
+        />
+      </div>
+
+      {tab === "sessions" && (
+        <SessionBrowser
+          schemas={schema ? [schema] : profiles.map((p) => p.schema)}
+          onOpen={openSession}
+        />
+      )}
+
       {tab === "generate" && (
         <>
           <Card>
             <CardHeader>
-              <CardTitle>Build a telemetry frame</CardTitle>
+              <CardTitle>Build a {genType.toLowerCase()} frame</CardTitle>
             </CardHeader>
             <CardContent className="space-y-4">
               <div className="grid sm:grid-cols-2 gap-3 text-sm">
@@ -1173,32 +847,120 @@ export default function TelemetryDecoderApp() {
                     className="border rounded-md px-2 py-1"
                     value={genType}
                     onChange={(e) =>
-                      setGenType(e.target.value as "Telemetry" | "Command")
+                      setGenType(e.target.value as FrameSpec["type"])
                     }
                   >
                     <option>Telemetry</option>
                     <option>Command</option>
+                    <option value="Ack">Ack / Nack</option>
+                    <option value="Event">Event / log</option>
                   </select>
                 </label>
                 <label className="flex items-center justify-between gap-2">
-                  Flags (0..63)
-                  <input
-                    type="number"
-                    className="border rounded-md px-2 py-1 w-28"
-                    value={genFlags}
-                    min={0}
-                    max={63}
-                    onChange={(e) => setGenFlags(Number(e.target.value))}
-                  />
+                  Version
+                  <select
+                    className="border rounded-md px-2 py-1"
+                    value={genProfile.id}
+                    onChange={(e) => {
+                      const next =
+                        findProfile(e.target.value) ?? DEFAULT_PROFILE;
+                      setGenVersionId(next.id);
+                      setGenEOF(next.eof);
+                    }}
+                  >
+                    {PROFILES.map((p) => (
+                      <option key={p.id} value={p.id}>
+                        {p.name}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+                <label className="flex items-center justify-between gap-2">
+                  CRC
+                  <CrcSelect value={genCrcId} onChange={setGenCrcId} />
+                </label>
+                <label className="flex items-center justify-between gap-2">
+                  Framing
+                  <FramingSelect value={genFraming} onChange={setGenFraming} />
+                </label>
+                <label
+                  className="flex items-center justify-between gap-2"
+                  title="Big-endian sets the Values BE flag, which overrides each ArgID's own byte order"
+                >
+                  Value endian
+                  <select
+                    className="border rounded-md px-2 py-1"
+                    value={genFlags & FLAG_VALUE_BIG ? "BE" : "LE"}
+                    onChange={(e) =>
+                      setGenFlags((prev) =>
+                        e.target.value === "BE"
+                          ? prev | FLAG_VALUE_BIG
+                          : prev & ~FLAG_VALUE_BIG
+                      )
+                    }
+                  >
+                    <option value="LE">
+                      Per ArgID, else {DEFAULT_VALUE_ENDIAN}
+                    </option>
+                    <option value="BE">BE for all values (flag)</option>
+                  </select>
                 </label>
+                <label
+                  className="flex items-center justify-between gap-2"
+                  title="Little-endian sets the Seq LE flag"
+                >
+                  Sequence endian
+                  <select
+                    className="border rounded-md px-2 py-1"
+                    value={genFlags & FLAG_SEQ_LITTLE ? "LE" : "BE"}
+                    onChange={(e) =>
+                      setGenFlags((prev) =>
+                        e.target.value === "LE"
+                          ? prev | FLAG_SEQ_LITTLE
+                          : prev & ~FLAG_SEQ_LITTLE
+                      )
+                    }
+                  >
+                    <option value="BE">BE</option>
+                    <option value="LE">LE (flag)</option>
+                  </select>
+                </label>
+                <fieldset
+                  className={
+                    "sm:col-span-2 flex flex-wrap items-center gap-x-4 gap-y-1"
+                  }
+                >
+                  <legend className="float-left mr-2">Flags</legend>
+                  {GEN_FLAG_CHECKBOXES.map((f) => (
+                    <label
+                      key={f.key}
+                      className="flex items-center gap-1"
+                      title={f.note}
+                    >
+                      <input
+                        type="checkbox"
+                        checked={(genFlags & f.mask) !== 0}
+                        onChange={(e) =>
+                          setGenFlags((prev) =>
+                            e.target.checked ? prev | f.mask : prev & ~f.mask
+                          )
+                        }
+                      />
+                      {f.name}
+                    </label>
+                  ))}
+                  <span className="font-mono text-xs text-muted-foreground">
+                    0b{genFlags.toString(2).padStart(6, "0")}
+                  </span>
+                </fieldset>
                 <label className="flex items-center justify-between gap-2">
-                  Sequence (0..65535)
+                  Sequence (0..{genProfile.sequenceBytes === 1 ? 255 : 65535})
                   <input
                     type="number"
                     className="border rounded-md px-2 py-1 w-28"
                     value={genSeq}
                     min={0}
-                    max={65535}
+                    max={genProfile.sequenceBytes === 1 ? 255 : 65535}
                     onChange={(e) => setGenSeq(Number(e.target.value))}
                   />
                 </label>
@@ -1209,71 +971,117 @@ export default function TelemetryDecoderApp() {
                     value={genEOF}
                     onChange={(e) => setGenEOF(Number(e.target.value))}
                   >
-                    <option value={EOF_V11}>0xFE (v1.1)</option>
-                    <option value={EOF_TYPO}>0xF1 (compat)</option>
+                    <option value={genProfile.eof}>
+                      0x{hex2(genProfile.eof)} ({genProfile.id})
+                    </option>
+                    {genProfile.eofCompat.map((b) => (
+                      <option key={b} value={b}>
+                        0x{hex2(b)} (compat)
+                      </option>
+                    ))}
                   </select>
                 </label>
               </div>
 
               <div className="rounded-md border p-3 space-y-3">
-                <div className="font-medium">Add TLVs</div>
-                <TLVAdder onAdd={addGenItem} />
-                {genItems.length === 0 ? (
-                  <p className="text-xs text-muted-foreground">
-                    No TLVs yet — add some above.
-                  </p>
+                {genType === "Ack" ? (
+                  <AckEditor
+                    schema={genSchema}
+                    value={genAck}
+                    onChange={setGenAck}
+                  />
+                ) : genType === "Event" ? (
+                  <EventEditor value={genEvent} onChange={setGenEvent} />
+                ) : genType === "Command" ? (
+                  <CommandPicker
+                    schema={genSchema}
+                    frameEndian={genFrameEndian}
+                    id={genCmdId}
+                    args={genCmdArgs}
+                    onChange={(id, args) => {
+                      setGenCmdId(id);
+                      setGenCmdArgs(args);
+                    }}
+                  />
                 ) : (
-                  <ul className="space-y-2">
-                    {genItems.map((it, idx) => {
-                      const def = ArgDefs.find((d) => d.id === it.id)!;
-                      const preview = encodeTLVItem(it.id, it.value);
-                      const err = typeof preview === "string" ? preview : null;
-                      const raw = Array.isArray(preview)
-                        ? preview.slice(1)
-                        : [];
-                      const dec = Array.isArray(preview)
-                        ? decodeTLV(preview)[0]
-                        : undefined;
-                      return (
-                        <li key={idx} className="rounded-lg border p-2 text-sm">
-                          <div className="flex items-center justify-between gap-2">
-                            <div>
-                              <div className="font-medium">
-                                0x{hex2(def.id)} {def.key}
-                              </div>
-                              <div className="text-xs text-muted-foreground">
-                                value:{" "}
-                                <span className="font-mono">{it.value}</span>
+                  <>
+                    <div className="font-medium">Add TLVs</div>
+                    <TLVAdder schema={genSchema} onAdd={addGenItem} />
+                    {genItems.length === 0 ? (
+                      <p className="text-xs text-muted-foreground">
+                        No TLVs yet — add some above.
+                      </p>
+                    ) : (
+                      <ul className="space-y-2">
+                        {genItems.map((it, idx) => {
+                          const def = findArg(genSchema, it.id);
+                          const preview = encodeTLVItem(
+                            it.id,
+                            it.value,
+                            genSchema,
+                            genFrameEndian
+                          );
+                          const err =
+                            typeof preview === "string" ? preview : null;
+                          const raw = Array.isArray(preview)
+                            ? preview.slice(1)
+                            : [];
+                          const dec = Array.isArray(preview)
+                            ? decodeTLV(
+                                preview,
+                                genSchema,
+                                false,
+                                genFrameEndian
+                              )[0]
+                            : undefined;
+                          return (
+                            <li
+                              key={idx}
+                              className="rounded-lg border p-2 text-sm"
+                            >
+                              <div className="flex items-center justify-between gap-2">
+                                <div>
+                                  <div className="font-medium">
+                                    0x{hex2(it.id)}{" "}
+                                    {def?.key ?? "(not in schema)"}
+                                  </div>
+                                  <div className="text-xs text-muted-foreground">
+                                    value:{" "}
+                                    <span className="font-mono">
+                                      {it.value}
+                                    </span>
+                                  </div>
+                                </div>
+                                <div className="flex items-center gap-2">
+                                  {err ? (
+                                    <span className="text-red-600 text-xs">
+                                      {err}
+                                    </span>
+                                  ) : (
+                                    <span className="text-xs text-muted-foreground">
+                                      raw: {raw.map(hex2).join(" ")}
+                                    </span>
+                                  )}
+                                  <Button
+                                    variant="secondary"
+                                    onClick={() => removeGenItem(idx)}
+                                  >
+                                    Remove
+                                  </Button>
+                                </div>
                               </div>
-                            </div>
-                            <div className="flex items-center gap-2">
-                              {err ? (
-                                <span className="text-red-600 text-xs">
-                                  {err}
-                                </span>
-                              ) : (
-                                <span className="text-xs text-muted-foreground">
-                                  raw: {raw.map(hex2).join(" ")}
-                                </span>
+                              {dec && (
+                                <div className="mt-1 text-xs">
+                                  as decoded →{" "}
+                                  {renderTLVRow(dec, genSchema).value}
+                                </div>
                               )}
-                              <Button
-                                variant="secondary"
-                                onClick={() => removeGenItem(idx)}
-                              >
-                                Remove
-                              </Button>
-                            </div>
-                          </div>
-                          {dec && (
-                            <div className="mt-1 text-xs">
-                              as decoded →{" "}
-                              {renderTLVRow(dec).value}
-                            </div>
-                          )}
-                        </li>
-                      );
-                    })}
-                  </ul>
+                            </li>
+                          );
+                        })}
+                      </ul>
+                    )}
+                  </>
                 )}
 
                 <div className="flex gap-2">
@@ -1330,149 +1138,13 @@ export default function TelemetryDecoderApp() {
       )}
 
       <footer className="text-xs text-muted-foreground">
-        Spec highlights: SOF=0xFD, EOF=0xFE (v1.1), TotalLength counts
-        Header..CRC, CRC-16(Modbus 0xA001) over Header..Payload, CRC stored
-        big-endian. TLVs are fixed-size by ArgID.
+        Spec highlights: SOF=0xFD, EOF=0xFE (v1.1; 0xF1 in v1.0), TotalLength
+        counts Header..CRC, CRC-16(Modbus 0xA001) over Header..Payload, CRC
+        stored big-endian; other CRCs can be selected per decode or build.
+        Header type 00 = telemetry, 01 = ack/nack, 10 = event/log, 11 =
+        command. TLVs are fixed-size by ArgID, except string, bytes and array
+        fields, which carry a 1-byte length after the ArgID.
       </footer>
     </div>
   );
 }
-
-function KV({
-  label,
-  value,
-  good,
-  warn,
-}: {
-  label: string;
-  value: string;
-  good?: boolean;
-  warn?: boolean;
-}) {
-  return (
-    <div className="flex items-center justify-between text-sm">
-      <span className="text-muted-foreground">{label}</span>
-      <span
-        className={
-          "font-mono " +
-          (good ? "text-emerald-600" : warn ? "text-yellow-700" : "")
-        }
-      >
-        {value}
-      </span>
-    </div>
-  );
-}
-
-// Minimal TLV adder UI
-function TLVAdder({ onAdd }: { onAdd: (id: number, value: string) => void }) {
-  const [id, setId] = useState<number>(ArgDefs[0].id);
-  const [value, setValue] = useState<string>("");
-  const def = ArgDefs.find((d) => d.id === id)!;
-  return (
-    <div className="grid md:grid-cols-[200px_1fr_auto] gap-2 items-end">
-      <label className="text-sm">
-        <div className="mb-1 font-medium">Arg</div>
-        <select
-          className="border rounded-md px-2 py-1 w-full"
-          value={id}
-          onChange={(e) => setId(Number(e.target.value))}
-        >
-          {ArgDefs.map((d) => (
-            <option key={d.id} value={d.id}>
-              0x{hex2(d.id)} — {d.key}
-            </option>
-          ))}
-        </select>
-      </label>
-
-      <label className="text-sm">
-        <div className="mb-1 font-medium">
-          Value{" "}
-          {def.key === "oxidizer_pressure"
-            ? "(bar)"
-            : def.key === "yaw" || def.key === "pitch" || def.key === "roll"
-            ? "(deg)"
-            : ""}
-        </div>
-        <Input
-          placeholder={placeholderFor(def.key)}
-          value={value}
-          onChange={(e) => setValue(e.target.value)}
-        />
-        <div className="text-xs text-muted-foreground mt-1">
-          {hintFor(def.key)}
-        </div>
-      </label>
-
-      <div>
-        <Button
-          onClick={() => {
-            if (value.trim() !== "") {
-              onAdd(id, value.trim());
-              setValue("");
-            }
-          }}
-        >
-          Add
-        </Button>
-      </div>
-    </div>
-  );
-}
-
-function placeholderFor(key: string) {
-  switch (key) {
-    case "millis":
-      return "123456";
-    case "altitude":
-      return "326.5";
-    case "vertical_velocity":
-      return "-14.5";
-    case "vertical_acceleration":
-      return "0.0";
-    case "avionics_temperature":
-    case "cpu_temperature":
-      return "25";
-    case "flight_mode":
-      return "0..8";
-    case "air_brakes":
-      return "0..100";
-    case "oxidizer_temperature":
-      return "20";
-    case "oxidizer_pressure":
-      return "12.3  (bar)";
-    case "oxidizer_pressure_1":
-    case "oxidizer_pressure_2":
-    case "oxidizer_pressure_3":
-      return "12.3  (bar)";
-    case "valve_status":
-      return "bitmask 0..255";
-    case "gps_lat":
-      return "38.736946";
-    case "gps_long":
-      return "-9.142685";
-    case "yaw":
-    case "pitch":
-    case "roll":
-      return "12.34  (deg)";
-    default:
-      return "";
-  }
-}
-function hintFor(key: string) {
-  switch (key) {
-    case "oxidizer_pressure":
-      return "Will be encoded as uint16 of (bar × 10).";
-    case "oxidizer_pressure_1":
-    case "oxidizer_pressure_2":
-    case "oxidizer_pressure_3":
-      return "Will be encoded as float32.";
-    case "yaw":
-    case "pitch":
-    case "roll":
-      return "Will be encoded as int16 of (deg × 100).";
-    default:
-      return "";
-  }
-}
@@ -0,0 +1,19 @@
+// Comma-separated tag list as typed into a tags field
+export const parseTags = (text: string) =>
+  text
+    .split(",")
+    .map((t) => t.trim())
+    .filter(Boolean);
+
+export function downloadText(filename: string, text: string) {
+  downloadBlob(filename, new Blob([text], { type: "application/json" }));
+}
+
+export function downloadBlob(filename: string, blob: Blob) {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = filename;
+  a.click();
+  URL.revokeObjectURL(url);
+}
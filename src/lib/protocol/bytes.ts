@@ -0,0 +1,96 @@
+import type { Endian } from "./types";
+
+// Helpers to parse integers/floats from byte arrays
+export function readUint16(bytes: number[], endian: Endian): number {
+  return endian === "LE"
+    ? bytes[0] | (bytes[1] << 8)
+    : (bytes[0] << 8) | bytes[1];
+}
+export function readInt16(bytes: number[], endian: Endian): number {
+  const u = readUint16(bytes, endian);
+  return u & 0x8000 ? u - 0x10000 : u;
+}
+export function readUint32(bytes: number[], endian: Endian): number {
+  if (endian === "LE")
+    return (
+      (bytes[0] | (bytes[1] << 8) | (bytes[2] << 16) | (bytes[3] << 24)) >>> 0
+    );
+  return (
+    (((bytes[0] << 24) >>> 0) |
+      (bytes[1] << 16) |
+      (bytes[2] << 8) |
+      bytes[3]) >>>
+    0
+  );
+}
+// Unsigned integer of 1, 2 or 4 bytes
+export function readUnsigned(bytes: number[], endian: Endian): number {
+  if (bytes.length === 1) return bytes[0];
+  if (bytes.length === 2) return readUint16(bytes, endian);
+  return readUint32(bytes, endian);
+}
+export function readFloat32(bytes: number[], endian: Endian): number {
+  const view = new DataView(new Uint8Array(bytes.slice(0, 4)).buffer);
+  return view.getFloat32(0, endian === "LE");
+}
+
+// Helpers to write integers/floats into byte arrays
+export function encodeUInt16(n: number, endian: Endian) {
+  const v = Math.max(0, Math.min(0xffff, Math.floor(n)));
+  return endian === "LE"
+    ? [v & 0xff, (v >> 8) & 0xff]
+    : [(v >> 8) & 0xff, v & 0xff];
+}
+export function encodeInt16(n: number, endian: Endian) {
+  let v = Math.round(n);
+  if (v < -32768 || v > 32767) v = ((v % 0x10000) + 0x10000) % 0x10000; // wrap
+  let u = v < 0 ? 0x10000 + v : v; // two's complement
+  u &= 0xffff;
+  return endian === "LE"
+    ? [u & 0xff, (u >> 8) & 0xff]
+    : [(u >> 8) & 0xff, u & 0xff];
+}
+export function encodeUInt32(n: number, endian: Endian) {
+  const v = Math.max(0, Math.min(0xffffffff, Math.floor(n))); // clamp
+  if (endian === "LE")
+    return [v & 0xff, (v >> 8) & 0xff, (v >> 16) & 0xff, (v >> 24) & 0xff];
+  return [(v >> 24) & 0xff, (v >> 16) & 0xff, (v >> 8) & 0xff, v & 0xff];
+}
+export function encodeUnsigned(n: number, size: number, endian: Endian) {
+  if (size === 1) return [Math.max(0, Math.min(0xff, Math.floor(n)))];
+  if (size === 2) return encodeUInt16(n, endian);
+  return encodeUInt32(n, endian);
+}
+export function encodeFloat32(f: number, endian: Endian) {
+  const dv = new DataView(new ArrayBuffer(4));
+  dv.setFloat32(0, f, endian === "LE");
+  return [dv.getUint8(0), dv.getUint8(1), dv.getUint8(2), dv.getUint8(3)];
+}
+
+// Clean hex string to byte array
+export function hexToBytes(input: string): number[] {
+  // Accept "0x", spaces, commas, newlines. Keep only hex chars.
+  const clean = input
+    .replace(/\b0x/gi, "")
+    .replace(/[^0-9a-fA-F]/g, "")
+    .toLowerCase();
+  if (clean.length % 2 !== 0)
+    throw new Error(
+      "Hex string has odd length after cleaning – missing a nibble?"
+    );
+  const out: number[] = [];
+  for (let i = 0; i < clean.length; i += 2) {
+    out.push(parseInt(clean.slice(i, i + 2), 16));
+  }
+  return out;
+}
+
+export function bytesToHex(bytes: ArrayLike<number>, joiner = "") {
+  return Array.from(bytes, hex2).join(joiner);
+}
+
+// Format helpers
+export const hex2 = (n: number) =>
+  n.toString(16).toUpperCase().padStart(2, "0");
+export const hex4 = (n: number) =>
+  n.toString(16).toUpperCase().padStart(4, "0");
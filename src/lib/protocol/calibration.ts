@@ -0,0 +1,178 @@
+import type {
+  Calibration,
+  CalibrationEntry,
+  CalibrationSet,
+  CommandArgDef,
+  EngineeringValue,
+  ProtocolSchema,
+} from "./types";
+
+// Raw wire value -> engineering value
+export function toEngineering(cal: Calibration, raw: number): number {
+  switch (cal.kind) {
+    case "linear":
+      return raw * cal.scale + (cal.offset ?? 0);
+    case "poly":
+      // Horner, highest power first
+      return cal.coeffs.reduceRight((acc, c) => acc * raw + c, 0);
+    case "table":
+      return interpolate(cal.points, raw, 0, 1);
+  }
+}
+
+// Piecewise-linear lookup through [x, y] points sorted by x (`from`/`to`
+// pick which column is x). Outside the table the end segments extrapolate.
+function interpolate(
+  points: ReadonlyArray<[number, number]>,
+  x: number,
+  from: 0 | 1,
+  to: 0 | 1
+): number {
+  const last = points.length - 2;
+  let k = 0;
+  while (k < last && x > points[k + 1][from]) k++;
+  const [a, b] = [points[k], points[k + 1]];
+  const t = (x - a[from]) / (b[from] - a[from]);
+  return a[to] + t * (b[to] - a[to]);
+}
+
+// Candidate raw values for a numeric inverse: both ends, zero and a
+// log-spaced ladder either side, so floats and wide integers both get
+// brackets at a useful resolution.
+function samplePoints(lo: number, hi: number): number[] {
+  const out = [lo, hi, 0];
+  for (let e = -60; e <= 760; e++) {
+    const m = 10 ** (e / 20);
+    out.push(m, -m);
+  }
+  return out.filter((x) => x >= lo && x <= hi).sort((a, b) => a - b);
+}
+
+// Engineering value -> raw wire value within [lo, hi] (before rounding to
+// the wire type), or null if the calibration never reaches `eng` there.
+// Linear is exact; tables invert through the engineering column, which must
+// then be monotonic; polynomials are solved numerically.
+export function toRaw(
+  cal: Calibration,
+  eng: number,
+  [lo, hi]: [number, number]
+): number | null {
+  let raw: number | null = null;
+  if (cal.kind === "linear") raw = (eng - (cal.offset ?? 0)) / cal.scale;
+  else if (cal.kind === "table") {
+    const pts = [...cal.points].sort((a, b) => a[1] - b[1]);
+    const rising = pts.every((p, i) => i === 0 || p[0] > pts[i - 1][0]);
+    const falling = pts.every((p, i) => i === 0 || p[0] < pts[i - 1][0]);
+    if (rising || falling) raw = interpolate(pts, eng, 1, 0);
+  } else {
+    const f = (x: number) => toEngineering(cal, x) - eng;
+    const xs = samplePoints(lo, hi);
+    const k = xs.findIndex((x, i) => i > 0 && f(xs[i - 1]) * f(x) <= 0);
+    if (k > 0) {
+      let [a, b] = [xs[k - 1], xs[k]];
+      for (let n = 0; n < 200 && a !== b; n++) {
+        const mid = (a + b) / 2;
+        if (mid === a || mid === b) break;
+        if (f(a) * f(mid) <= 0) b = mid;
+        else a = mid;
+      }
+      raw = Math.abs(f(a)) <= Math.abs(f(b)) ? a : b;
+    }
+  }
+  return raw !== null && Number.isFinite(raw) && raw >= lo && raw <= hi
+    ? raw
+    : null;
+}
+
+// Short human description, e.g. "bar = raw × 0.1"
+export function describeCal(cal: Calibration, unit?: string): string {
+  const lhs = `${unit ?? "value"} = `;
+  switch (cal.kind) {
+    case "linear": {
+      const offset = cal.offset ?? 0;
+      const tail = offset
+        ? ` ${offset < 0 ? "−" : "+"} ${Math.abs(offset)}`
+        : "";
+      return `${lhs}raw × ${cal.scale}${tail}`;
+    }
+    case "poly":
+      return `${lhs}polynomial of raw (degree ${cal.coeffs.length - 1})`;
+    case "table":
+      return `${lhs}${cal.points.length}-point table of raw`;
+  }
+}
+
+// Typed engineering value of one decoded field
+export function engineeringValue(
+  def: CommandArgDef,
+  decoded: unknown
+): EngineeringValue {
+  const eng = (raw: number) => (def.cal ? toEngineering(def.cal, raw) : raw);
+  switch (def.type) {
+    case "string":
+      return { kind: "text", text: decoded as string };
+    case "bytes":
+      return { kind: "bytes", bytes: decoded as number[] };
+    case "array":
+      return {
+        kind: "array",
+        values: (decoded as number[]).map(eng),
+        unit: def.unit,
+      };
+    case "enum": {
+      const index = decoded as number;
+      return { kind: "enum", index, label: def.labels?.[index] };
+    }
+    case "bitfield": {
+      const mask = decoded as number;
+      const set = Array.from({ length: 8 * def.bytes }, (_, i) =>
+        (mask >>> i) & 1 ? def.bits?.[i] ?? `bit${i}` : null
+      ).filter((b): b is string => b !== null);
+      return { kind: "bitfield", mask, set };
+    }
+    default:
+      return { kind: "number", value: eng(decoded as number), unit: def.unit };
+  }
+}
+
+// ==========================
+// Calibration sets
+// ==========================
+
+// A schema with the set's calibrations swapped in; ArgIDs the set doesn't
+// name keep their own.
+export function applyCalibrationSet(
+  schema: ProtocolSchema,
+  set: CalibrationSet
+): ProtocolSchema {
+  return {
+    ...schema,
+    args: schema.args.map((a) => {
+      const e = set.args[a.key];
+      return e
+        ? {
+            ...a,
+            cal: e.cal,
+            unit: e.unit ?? a.unit,
+            digits: e.digits ?? a.digits,
+          }
+        : a;
+    }),
+  };
+}
+
+// Keys in the set that the schema has no ArgID for
+export const unmatchedCalibrations = (
+  schema: ProtocolSchema,
+  set: CalibrationSet
+) => Object.keys(set.args).filter((k) => !schema.args.some((a) => a.key === k));
+
+// The calibrations a schema carries, as a starting point for a new set
+export function calibrationSetFromSchema(
+  schema: ProtocolSchema
+): CalibrationSet {
+  const args: Record<string, CalibrationEntry> = {};
+  for (const a of schema.args)
+    if (a.cal) args[a.key] = { cal: a.cal, unit: a.unit, digits: a.digits };
+  return { name: `${schema.name} calibration`, args };
+}
@@ -0,0 +1,55 @@
+import { describe, expect, it } from "vitest";
+import { detectCaptureFormat, readCapture } from "./capture";
+import { buildSimulatedFrame } from "./demo";
+import { decodeStream, decodeStreamChunked } from "./stream";
+
+const text = (s: string) => new TextEncoder().encode(s);
+const frames = [0, 1, 2, 3].flatMap((seq) =>
+  buildSimulatedFrame(seq, seq * 100, "BE")
+);
+
+describe("detectCaptureFormat", () => {
+  it.each([
+    ["raw frames", Uint8Array.from(frames), "binary"],
+    ["an empty file", new Uint8Array(0), "binary"],
+    ["text with a control byte", text("FD 20\u0001 FE"), "binary"],
+    ["hex text", text("0xFD, 0x20 01\r\nfe;"), "hex"],
+    ["a timestamped log", text("12:00:01.250,FD20…FE\n"), "log"],
+  ])("reads %s as %s", (_, data, format) => {
+    expect(detectCaptureFormat(data)).toBe(format);
+  });
+
+  it("reads hex text back into frame bytes", () => {
+    const hex = frames.map((b) => b.toString(16).padStart(2, "0")).join(" ");
+    expect(Array.from(readCapture(text(hex), "hex"))).toEqual(frames);
+  });
+});
+
+describe("decodeStreamChunked", () => {
+  const bytes = Uint8Array.from([0x00, ...frames, 0x11, 0xfd]);
+
+  it("matches a one-shot decode whatever the chunk size", async () => {
+    const whole = decodeStream(bytes);
+    for (const size of [1, 7, 34, 1024]) {
+      const done: number[] = [];
+      const result = await decodeStreamChunked(
+        bytes,
+        {},
+        (n) => done.push(n),
+        undefined,
+        size
+      );
+      expect(result.frames.map((f) => [f.offset, f.sequence])).toEqual(
+        whole.frames.map((f) => [f.offset, f.sequence])
+      );
+      expect(done[done.length - 1]).toBe(bytes.length);
+    }
+  });
+
+  it("rejects with an AbortError once abandoned", async () => {
+    const abort = new AbortController();
+    const decoding = decodeStreamChunked(bytes, {}, undefined, abort.signal, 8);
+    abort.abort();
+    await expect(decoding).rejects.toMatchObject({ name: "AbortError" });
+  });
+});
@@ -0,0 +1,39 @@
+import { hexToBytes } from "./bytes";
+
+// ==========================
+// Capture files
+// ==========================
+// binary  raw bytes as received (SD-card logs, radio dumps)
+// hex     nothing but hex digits, separators and 0x prefixes
+// log     other text: line-oriented logs with timestamps, see logs.ts
+export type CaptureFormat = "binary" | "hex" | "log";
+
+const HEX_TEXT = /^[\s0-9a-fA-FxX,;:]*$/;
+// Any control character other than tab/CR/LF means binary
+const isControl = (c: number) =>
+  (c < 0x20 && c !== 0x09 && c !== 0x0a && c !== 0x0d) || c === 0x7f;
+const SNIFF_BYTES = 64 * 1024;
+
+// Frame bytes are never valid text for long: any SOF (0xFD) breaks UTF-8,
+// so only the head of the file is checked.
+export function detectCaptureFormat(data: Uint8Array): CaptureFormat {
+  if (data.length === 0) return "binary";
+  let text: string;
+  try {
+    text = new TextDecoder("utf-8", { fatal: true }).decode(
+      data.subarray(0, SNIFF_BYTES),
+      { stream: true } // the cut may split a character
+    );
+  } catch {
+    return "binary";
+  }
+  for (let i = 0; i < text.length; i++)
+    if (isControl(text.charCodeAt(i))) return "binary";
+  return HEX_TEXT.test(text) ? "hex" : "log";
+}
+
+// Binary or hex-text file contents -> frame bytes
+export function readCapture(data: Uint8Array, format: "binary" | "hex") {
+  if (format === "binary") return data;
+  return Uint8Array.from(hexToBytes(new TextDecoder().decode(data)));
+}
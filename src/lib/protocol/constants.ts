@@ -0,0 +1,44 @@
+import type { Endian } from "./types";
+
+// ==========================
+// Protocol constants (v1.1)
+// ==========================
+export const SOF = 0xfd; // Start-of-Frame
+export const EOF_V11 = 0xfe; // End-of-Frame (v1.1)
+export const EOF_TYPO = 0xf1; // v1.0 End-of-Frame; some v1.1 docs still show it
+
+// Header bits 7–6 => Type
+export const HEADER_TYPE = {
+  TELEMETRY: 0b00,
+  ACK: 0b01, // [AckedSeq][CmdID][Result]
+  EVENT: 0b10, // [Severity][Kind][text or code]
+  COMMAND: 0b11,
+} as const;
+
+// Event/log frame Kind byte
+export const EVENT_KIND_TEXT = 0x00; // rest of payload is UTF-8 text
+export const EVENT_KIND_CODE = 0x01; // uint16 event code (value endian)
+
+// Header flag bits
+export const FLAG_VALUE_BIG = 0b000001; // TLV values big-endian if set
+export const FLAG_SEQ_LITTLE = 0b000010; // Sequence little-endian if set
+export const FLAG_RETRANSMIT = 0b000100; // repeat of an earlier frame
+export const FLAG_ACK_REQUESTED = 0b001000; // receiver should send an Ack
+export const FLAG_PRIORITY = 0b010000; // jump the downlink queue
+export const FLAG_RESERVED = 0b100000; // unassigned; should be 0
+
+export const DEFAULT_VALUE_ENDIAN: Endian = "LE";
+export const DEFAULT_SEQUENCE_ENDIAN: Endian = "BE";
+
+// TotalLength is one byte and counts Header..CRC
+export const MAX_TOTAL_LENGTH = 0xff;
+
+// Framing transports (see framing.ts)
+export const ESC = 0x7d; // escape stuffing: ESC, byte ^ ESC_XOR
+export const ESC_XOR = 0x20;
+export const STUFFED_BYTES = [SOF, EOF_V11, EOF_TYPO, ESC]; // never raw inside
+export const COBS_DELIMITER = 0x00;
+export const SLIP_END = 0xc0;
+export const SLIP_ESC = 0xdb;
+export const SLIP_ESC_END = 0xdc;
+export const SLIP_ESC_ESC = 0xdd;
@@ -0,0 +1,53 @@
+import { describe, expect, it } from "vitest";
+import {
+  CRC_ALGORITHMS,
+  CRC16_MODBUS,
+  crcBytes,
+  crcCompute,
+  crcHex,
+  findCrc,
+} from "./crc";
+import { encodeFrame, identifyCrc } from "./frame";
+import { PROFILE_V1_1 } from "./profiles";
+
+const CHECK_INPUT = [..."123456789"].map((c) => c.charCodeAt(0));
+
+describe("CRC catalogue", () => {
+  for (const alg of CRC_ALGORITHMS)
+    it(`${alg.name} gives its check value over "123456789"`, () => {
+      expect(crcHex(alg, crcCompute(alg, CHECK_INPUT))).toBe(
+        crcHex(alg, alg.check)
+      );
+      expect(findCrc(alg.id)).toBe(alg);
+    });
+
+  it("the generic routine agrees with the dedicated Modbus routine", () => {
+    // A copy skips the fast path in crcCompute
+    const generic = { ...CRC16_MODBUS };
+    expect(crcCompute(generic, CHECK_INPUT)).toBe(CRC16_MODBUS.check);
+    const bytes = Array.from({ length: 64 }, (_, i) => (i * 37 + 11) & 0xff);
+    expect(crcCompute(generic, bytes)).toBe(crcCompute(CRC16_MODBUS, bytes));
+  });
+
+  it("formats and sizes CRCs by width", () => {
+    expect(crcHex(CRC16_MODBUS, 0xab)).toBe("00AB");
+    expect(crcBytes(CRC16_MODBUS)).toBe(2);
+    expect(crcBytes(findCrc("crc32")!)).toBe(4);
+  });
+
+  it("identifies the CRC each catalogue entry would put on a frame", () => {
+    for (const crc of CRC_ALGORITHMS)
+      for (const crcEndian of ["BE", "LE"] as const) {
+        const profile = { ...PROFILE_V1_1, crc, crcEndian };
+        const bytes = encodeFrame(
+          { type: "Ack", sequence: 0x0102, payload: [0x10, 0x20, 0x30] },
+          profile
+        );
+        expect(identifyCrc(bytes)).toContainEqual({
+          crc,
+          crcEndian,
+          crcFromLength: false,
+        });
+      }
+  });
+});
@@ -0,0 +1,109 @@
+import type { CrcAlgorithm } from "./types";
+
+// CRC-16 (Modbus 0xA001) — compute over Header..Payload
+export function crc16_modbus(bytes: ArrayLike<number>): number {
+  let crc = 0xffff;
+  for (let i = 0; i < bytes.length; i++) {
+    crc ^= bytes[i];
+    for (let j = 0; j < 8; j++) {
+      if (crc & 1) crc = (crc >> 1) ^ 0xa001;
+      else crc >>= 1;
+    }
+  }
+  return crc & 0xffff;
+}
+
+// ==========================
+// CRC catalogue
+// ==========================
+// Parameters follow the Rocksoft model (poly, init, refin, refout, xorout);
+// `check` is the CRC of ASCII "123456789".
+export const CRC16_MODBUS: CrcAlgorithm = {
+  id: "crc16-modbus",
+  name: "CRC-16/MODBUS",
+  width: 16,
+  poly: 0x8005,
+  init: 0xffff,
+  refin: true,
+  refout: true,
+  xorout: 0x0000,
+  check: 0x4b37,
+};
+
+export const CRC16_CCITT_FALSE: CrcAlgorithm = {
+  id: "crc16-ccitt-false",
+  name: "CRC-16/CCITT-FALSE",
+  width: 16,
+  poly: 0x1021,
+  init: 0xffff,
+  refin: false,
+  refout: false,
+  xorout: 0x0000,
+  check: 0x29b1,
+};
+
+export const CRC16_XMODEM: CrcAlgorithm = {
+  id: "crc16-xmodem",
+  name: "CRC-16/XMODEM",
+  width: 16,
+  poly: 0x1021,
+  init: 0x0000,
+  refin: false,
+  refout: false,
+  xorout: 0x0000,
+  check: 0x31c3,
+};
+
+export const CRC32: CrcAlgorithm = {
+  id: "crc32",
+  name: "CRC-32",
+  width: 32,
+  poly: 0x04c11db7,
+  init: 0xffffffff,
+  refin: true,
+  refout: true,
+  xorout: 0xffffffff,
+  check: 0xcbf43926,
+};
+
+export const CRC_ALGORITHMS: ReadonlyArray<CrcAlgorithm> = [
+  CRC16_MODBUS,
+  CRC16_CCITT_FALSE,
+  CRC16_XMODEM,
+  CRC32,
+];
+
+export const findCrc = (id: string) => CRC_ALGORITHMS.find((c) => c.id === id);
+
+// Bytes the CRC occupies on the wire
+export const crcBytes = (alg: CrcAlgorithm) => alg.width / 8;
+
+export const crcHex = (alg: CrcAlgorithm, n: number) =>
+  n
+    .toString(16)
+    .toUpperCase()
+    .padStart(alg.width / 4, "0");
+
+function reflect(value: number, bits: number) {
+  let out = 0;
+  for (let i = 0; i < bits; i++) out = (out << 1) | ((value >>> i) & 1);
+  return out >>> 0;
+}
+
+// Generic bitwise CRC (MSB-first register; reflection handled at the edges)
+export function crcCompute(alg: CrcAlgorithm, bytes: ArrayLike<number>) {
+  if (alg === CRC16_MODBUS) return crc16_modbus(bytes);
+  const mask = alg.width === 32 ? 0xffffffff : 2 ** alg.width - 1;
+  const top = 2 ** (alg.width - 1);
+  let crc = alg.init;
+  for (let i = 0; i < bytes.length; i++) {
+    const b = alg.refin ? reflect(bytes[i], 8) : bytes[i];
+    crc = (crc ^ (b << (alg.width - 8))) >>> 0;
+    for (let j = 0; j < 8; j++) {
+      const carry = crc >= top ? alg.poly : 0;
+      crc = (((crc << 1) ^ carry) & mask) >>> 0;
+    }
+  }
+  if (alg.refout) crc = reflect(crc, alg.width);
+  return ((crc ^ alg.xorout) & mask) >>> 0;
+}
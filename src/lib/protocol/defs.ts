@@ -0,0 +1,355 @@
+import {
+  FLAG_ACK_REQUESTED,
+  FLAG_PRIORITY,
+  FLAG_RESERVED,
+  FLAG_RETRANSMIT,
+  FLAG_SEQ_LITTLE,
+  FLAG_VALUE_BIG,
+} from "./constants";
+import type { ArgDef, CommandDef, FlagDef, ProtocolSchema } from "./types";
+
+export const FLIGHT_MODES = [
+  "STARTUP",
+  "SENSOR_CHECK",
+  "ARMED",
+  "LIFT_OFF",
+  "COAST_AND_CONTROL",
+  "DROGUE_DESCEND",
+  "MAIN_DESCEND",
+  "TOUCHDOWN",
+  "ABORT",
+] as const;
+
+// Header flag registry, LSB first
+export const HEADER_FLAGS: ReadonlyArray<FlagDef> = [
+  {
+    mask: FLAG_VALUE_BIG,
+    key: "VALUE_BIG",
+    name: "Values BE",
+    note: "TLV values are big-endian",
+  },
+  {
+    mask: FLAG_SEQ_LITTLE,
+    key: "SEQ_LITTLE",
+    name: "Seq LE",
+    note: "sequence number is little-endian",
+  },
+  {
+    mask: FLAG_RETRANSMIT,
+    key: "RETRANSMIT",
+    name: "Retransmission",
+    note: "repeat of an earlier frame with the same sequence",
+  },
+  {
+    mask: FLAG_ACK_REQUESTED,
+    key: "ACK_REQUESTED",
+    name: "Ack requested",
+    note: "receiver should answer with an Ack frame",
+  },
+  {
+    mask: FLAG_PRIORITY,
+    key: "PRIORITY",
+    name: "Priority",
+    note: "sent ahead of queued telemetry",
+  },
+  {
+    mask: FLAG_RESERVED,
+    key: "RESERVED",
+    name: "Reserved",
+    note: "unassigned; senders should leave it clear",
+  },
+];
+
+// Ack frame result codes; 0 is a positive ACK, anything else a NACK
+export const ACK_RESULTS = [
+  "ACCEPTED",
+  "REJECTED",
+  "UNKNOWN_COMMAND",
+  "INVALID_ARGUMENT",
+  "WRONG_STATE",
+  "BUSY",
+] as const;
+
+// Event/log frame severities
+export const EVENT_SEVERITIES = [
+  "DEBUG",
+  "INFO",
+  "WARNING",
+  "ERROR",
+  "CRITICAL",
+] as const;
+
+// ArgID map — fixed-size TLVs
+export const ArgDefs: ReadonlyArray<ArgDef> = [
+  {
+    id: 0x01,
+    key: "millis",
+    bytes: 4,
+    type: "uint32",
+    note: "time since boot, ms",
+    unit: "ms",
+    example: "123456",
+  },
+  {
+    id: 0x02,
+    key: "altitude",
+    bytes: 4,
+    type: "float",
+    note: "altitude AGL, m",
+    unit: "m",
+    digits: 2,
+    example: "326.5",
+  },
+  {
+    id: 0x03,
+    key: "vertical_velocity",
+    bytes: 4,
+    type: "float",
+    note: "vertical speed, m/s",
+    unit: "m/s",
+    digits: 2,
+    example: "-14.5",
+  },
+  {
+    id: 0x04,
+    key: "vertical_acceleration",
+    bytes: 4,
+    type: "float",
+    note: "vertical accel, m/s²",
+    unit: "m/s²",
+    digits: 2,
+    example: "0.0",
+  },
+  {
+    id: 0x05,
+    key: "avionics_temperature",
+    bytes: 2,
+    type: "int16",
+    note: "avionics °C ×10",
+    cal: { kind: "linear", scale: 0.1 },
+    unit: "°C",
+    digits: 1,
+    example: "25.5",
+  },
+  {
+    id: 0x06,
+    key: "cpu_temperature",
+    bytes: 2,
+    type: "int16",
+    note: "CPU °C ×10",
+    cal: { kind: "linear", scale: 0.1 },
+    unit: "°C",
+    digits: 1,
+    example: "25.5",
+  },
+  {
+    id: 0x07,
+    key: "flight_mode",
+    bytes: 1,
+    type: "enum",
+    note: "flight-mode enum",
+    labels: [...FLIGHT_MODES],
+    example: "0..8",
+  },
+  {
+    id: 0x08,
+    key: "air_brakes",
+    bytes: 1,
+    type: "uint8",
+    note: "air-brakes %",
+    unit: "%",
+    min: 0,
+    max: 100,
+    example: "0..100",
+  },
+  {
+    id: 0x09,
+    key: "oxidizer_temperature",
+    bytes: 2,
+    type: "int16",
+    note: "oxidizer °C ×10",
+    cal: { kind: "linear", scale: 0.1 },
+    unit: "°C",
+    digits: 1,
+    example: "20.5",
+  },
+  {
+    id: 0x0a,
+    key: "oxidizer_pressure",
+    bytes: 2,
+    type: "uint16",
+    note: "oxidizer pressure, bar",
+    cal: { kind: "linear", scale: 0.1 },
+    unit: "bar",
+    digits: 1,
+    example: "12.3",
+  },
+  {
+    id: 0x0b,
+    key: "valve_status",
+    bytes: 1,
+    type: "bitfield",
+    note: "valve bitmask",
+    bits: ["V0", "V1", "V2", "V3", "V4", "V5", "V6", "V7"],
+    example: "bitmask 0..255",
+  },
+  {
+    id: 0x0c,
+    key: "gps_lat",
+    bytes: 4,
+    type: "float",
+    note: "GPS latitude",
+    unit: "°",
+    digits: 6,
+    example: "38.736946",
+  },
+  {
+    id: 0x0d,
+    key: "gps_long",
+    bytes: 4,
+    type: "float",
+    note: "GPS longitude",
+    unit: "°",
+    digits: 6,
+    example: "-9.142685",
+  },
+  {
+    id: 0x0e,
+    key: "yaw",
+    bytes: 2,
+    type: "int16",
+    note: "deg ×100",
+    cal: { kind: "linear", scale: 0.01 },
+    unit: "°",
+    digits: 2,
+    example: "12.34",
+  },
+  {
+    id: 0x0f,
+    key: "pitch",
+    bytes: 2,
+    type: "int16",
+    note: "deg ×100",
+    cal: { kind: "linear", scale: 0.01 },
+    unit: "°",
+    digits: 2,
+    example: "12.34",
+  },
+  {
+    id: 0x10,
+    key: "roll",
+    bytes: 2,
+    type: "int16",
+    note: "deg ×100",
+    cal: { kind: "linear", scale: 0.01 },
+    unit: "°",
+    digits: 2,
+    example: "12.34",
+  },
+  {
+    id: 0x20,
+    key: "oxidizer_pressure_1",
+    bytes: 4,
+    type: "float",
+    note: "CM pressure, bar",
+    unit: "bar",
+    digits: 2,
+    example: "12.3",
+  },
+  {
+    id: 0x21,
+    key: "oxidizer_pressure_2",
+    bytes: 4,
+    type: "float",
+    note: "pre-injector pressure, bar",
+    unit: "bar",
+    digits: 2,
+    example: "12.3",
+  },
+  {
+    id: 0x22,
+    key: "oxidizer_pressure_3",
+    bytes: 4,
+    type: "float",
+    note: "pre-injector pressure (redundant), bar",
+    unit: "bar",
+    digits: 2,
+    example: "12.3",
+  },
+  {
+    id: 0x23,
+    key: "load_cell_500n",
+    bytes: 4,
+    type: "float",
+    note: "500N load cell",
+  },
+  {
+    id: 0x24,
+    key: "load_cell_5k",
+    bytes: 4,
+    type: "float",
+    note: "5K load cell",
+  },
+] as const;
+
+// Command ID map; `args` follow the Command ID in order
+export const CommandDefs: ReadonlyArray<CommandDef> = [
+  { id: 0x70, key: "LAUNCH" },
+  { id: 0x80, key: "ABORT" },
+  {
+    id: 0x81,
+    key: "SET_FLIGHT_MODE",
+    args: [
+      {
+        key: "mode",
+        bytes: 1,
+        type: "enum",
+        note: "target flight mode",
+        labels: [...FLIGHT_MODES],
+        example: "ARMED",
+      },
+    ],
+  },
+  {
+    id: 0x82,
+    key: "SET_AIR_BRAKES",
+    args: [
+      {
+        key: "deployment",
+        bytes: 1,
+        type: "uint8",
+        note: "air-brakes %",
+        unit: "%",
+        min: 0,
+        max: 100,
+        example: "0..100",
+      },
+    ],
+  },
+  { id: 0xaa, key: "ARM" },
+  { id: 0xdd, key: "DISARM" },
+  { id: 0xa0, key: "OPEN_MAINVALVE" },
+  { id: 0xa1, key: "OPEN_SECVALVE" },
+  { id: 0xa2, key: "OPEN_VENTVALVE" },
+  { id: 0xa3, key: "OPEN_PURGEVALVE" },
+  { id: 0xb0, key: "CLOSE_MAINVALVE" },
+  { id: 0xb1, key: "CLOSE_SECVALVE" },
+  { id: 0xb2, key: "CLOSE_VENTVALVE" },
+  { id: 0xb3, key: "CLOSE_PURGEVALVE" },
+  { id: 0xc0, key: "DETATCH_NOX_ACTUATOR" },
+  { id: 0xc1, key: "DETATCH_N2_ACTUATOR" },
+  { id: 0x7f, key: "PING" },
+] as const;
+
+export const DEFAULT_SCHEMA: ProtocolSchema = {
+  name: "RED v1.1 (built-in)",
+  args: ArgDefs,
+  commands: CommandDefs,
+};
+
+// v1.0 predates the 0x20–0x24 pressure and load-cell fields
+export const V1_0_SCHEMA: ProtocolSchema = {
+  name: "RED v1.0 (built-in)",
+  args: ArgDefs.filter((d) => d.id < 0x20),
+  commands: CommandDefs,
+};
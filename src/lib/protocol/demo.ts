@@ -0,0 +1,92 @@
+import { encodeFloat32, encodeInt16, encodeUInt32 } from "./bytes";
+import {
+  DEFAULT_VALUE_ENDIAN,
+  FLAG_SEQ_LITTLE,
+  FLAG_VALUE_BIG,
+} from "./constants";
+import { DEFAULT_SCHEMA } from "./defs";
+import { encodeFrame } from "./frame";
+import { encodeFraming } from "./framing";
+import { findArg } from "./schema";
+import { encodeTLVs, valueEndianOf } from "./tlv";
+import type { Endian, Framing } from "./types";
+
+// Demo frames carry the value flag only when the default order is BE
+const FRAME_ENDIAN: Endian | undefined =
+  DEFAULT_VALUE_ENDIAN === "BE" ? "BE" : undefined;
+
+// Build a demo telemetry frame with a few TLVs
+export function buildDemoFrame(
+  sequenceEndian: Endian,
+  framing: Framing = "raw"
+): number[] {
+  const payload: number[] = [];
+  const endianFor = (id: number): Endian => {
+    const def = findArg(DEFAULT_SCHEMA, id);
+    return def ? valueEndianOf(def, FRAME_ENDIAN) : DEFAULT_VALUE_ENDIAN;
+  };
+  const pushTLV = (id: number, raw: number[]) => {
+    payload.push(id, ...raw);
+  };
+
+  pushTLV(0x01, encodeUInt32(123456, endianFor(0x01))); // millis
+  pushTLV(0x02, encodeFloat32(326.5, endianFor(0x02))); // altitude m
+  pushTLV(0x03, encodeFloat32(-14.5, endianFor(0x03))); // vertical vel
+  pushTLV(0x05, encodeInt16(25 * 10, endianFor(0x05))); // avionics temp °C ×10
+  pushTLV(0x07, [3]); // flight mode LIFT_OFF
+  pushTLV(0x08, [7]); // air brakes 7%
+  pushTLV(0x0e, encodeInt16(Math.round(12.34 * 100), endianFor(0x0e))); // yaw ×100
+  pushTLV(0x0f, encodeInt16(Math.round(-2.5 * 100), endianFor(0x0f))); // pitch ×100 (two's complement)
+
+  const frame = encodeFrame({
+    type: "Telemetry",
+    flags:
+      (DEFAULT_VALUE_ENDIAN === "BE" ? FLAG_VALUE_BIG : 0) |
+      (sequenceEndian === "LE" ? FLAG_SEQ_LITTLE : 0),
+    sequence: 42,
+    payload,
+  });
+  return encodeFraming(frame, framing);
+}
+
+// Telemetry for the simulated transport, `t` ms into a looping one-minute
+// flight: six seconds of burn, then a ballistic coast down to touchdown.
+export function buildSimulatedFrame(
+  sequence: number,
+  t: number,
+  sequenceEndian: Endian,
+  framing: Framing = "raw"
+): number[] {
+  const s = (t % 60_000) / 1000;
+  const burn = Math.min(s, 6);
+  const coast = Math.max(s - 6, 0);
+  const velocity = 80 * burn - 9.81 * coast;
+  const altitude = Math.max(
+    40 * burn * burn + 480 * coast - 4.9 * coast ** 2,
+    0
+  );
+  const mode = s < 1 ? 2 : s < 6 ? 3 : altitude > 0 ? 4 : 7;
+
+  const { payload } = encodeTLVs(
+    [
+      { id: 0x01, value: String(Math.floor(t) % 2 ** 32) },
+      { id: 0x02, value: altitude.toFixed(2) },
+      { id: 0x03, value: (altitude > 0 ? velocity : 0).toFixed(2) },
+      { id: 0x05, value: (25 + s / 10).toFixed(1) },
+      { id: 0x07, value: String(mode) },
+      { id: 0x0a, value: Math.max(45 - 7.5 * burn, 0).toFixed(1) },
+      { id: 0x0e, value: (5 * Math.sin(s / 3)).toFixed(2) },
+    ],
+    DEFAULT_SCHEMA,
+    FRAME_ENDIAN
+  );
+  const frame = encodeFrame({
+    type: "Telemetry",
+    flags:
+      (DEFAULT_VALUE_ENDIAN === "BE" ? FLAG_VALUE_BIG : 0) |
+      (sequenceEndian === "LE" ? FLAG_SEQ_LITTLE : 0),
+    sequence: sequence & 0xffff,
+    payload,
+  });
+  return encodeFraming(frame, framing);
+}
@@ -0,0 +1,60 @@
+import { describe, expect, it } from "vitest";
+import { bytesToHex } from "./bytes";
+import { buildSimulatedFrame } from "./demo";
+import { ENVELOPES, parseEnvelope } from "./envelope";
+import { createStreamDecoder, decodeStream } from "./stream";
+
+const RCV = ENVELOPES.find((e) => e.id === "rcv-text")!;
+const frame = (seq: number) => buildSimulatedFrame(seq, seq * 100, "BE");
+const line = (hex: string, rssi = -87) =>
+  Array.from(new TextEncoder().encode(`+RCV=1,34,${hex},${rssi},9\r\n`));
+
+describe("text envelopes", () => {
+  it("decodes each line's frame with its link metrics", () => {
+    const bytes = [...line(bytesToHex(frame(1), "")), ...line("FD", -90)];
+    const { frames, discarded } = decodeStream(bytes, { envelope: RCV });
+    expect(frames.map((f) => [f.sequence, f.link])).toEqual([
+      [1, { rssi: -87, snr: 9 }],
+    ]);
+    expect(discarded).toHaveLength(1);
+  });
+
+  it("drops a line with an odd number of hex digits and carries on", () => {
+    const bad = line(bytesToHex(frame(1), "").slice(1));
+    const good = line(bytesToHex(frame(2), ""));
+    const decoder = createStreamDecoder({ envelope: RCV });
+    const first = decoder.push(bad);
+    expect(first.frames).toEqual([]);
+    expect(first.discarded).toEqual([
+      { start: 0, end: bad.length, reason: "noise" },
+    ]);
+    const second = decoder.push(good);
+    expect(second.frames.map((f) => [f.sequence, f.offset])).toEqual([
+      [2, bad.length],
+    ]);
+    expect(decoder.flush()).toEqual({ frames: [], discarded: [] });
+  });
+});
+
+describe("parseEnvelope", () => {
+  const binary = (type: string) => ({
+    kind: "binary",
+    sync: [0xa5],
+    header: 2,
+    fields: [{ metric: "rssi", at: 1, type }],
+  });
+
+  it("accepts the field types it can read", () => {
+    const env = parseEnvelope(binary("int8"));
+    expect(env.kind === "binary" && env.fields[0].type).toBe("int8");
+  });
+
+  it.each(["constructor", "toString", "int64"])(
+    "rejects the field type %s",
+    (type) => {
+      expect(() => parseEnvelope(binary(type))).toThrow(
+        /^fields\[0\]\.type: expected one of int8/
+      );
+    }
+  );
+});
@@ -0,0 +1,328 @@
+import { hexToBytes, readUnsigned } from "./bytes";
+import { MAX_TOTAL_LENGTH } from "./constants";
+import type {
+  DecodedFrame,
+  Endian,
+  Envelope,
+  EnvelopeField,
+  LinkMetric,
+  LinkMetrics,
+} from "./types";
+
+// ==========================
+// Radio modem envelopes
+// ==========================
+// binary  [sync][metrics…][frame][trailer]; the frame length comes from a
+//         length field or, without one, from the frame's own TotalLength
+//         (then the frame's SOF must sit right after the header)
+// text    one line per packet, e.g. "+RCV=1,34,FD20…FE,-87,9", matched by a
+//         regular expression with named groups
+// The stream decoder strips the envelope, decodes the frame bytes inside
+// and stamps each frame with the envelope's link metrics.
+
+export const ENVELOPES: ReadonlyArray<Envelope> = [
+  {
+    kind: "binary",
+    id: "lora-header",
+    name: "LoRa modem header (A5 5A, len, RSSI, SNR, freq. error)",
+    sync: [0xa5, 0x5a],
+    length: { at: 2, bytes: 1 },
+    header: 10,
+    trailer: 0,
+    fields: [
+      { metric: "rssi", at: 3, type: "int16" }, // dBm
+      { metric: "snr", at: 5, type: "int8", scale: 0.25 }, // quarter dB
+      { metric: "freqError", at: 6, type: "int32" }, // Hz
+    ],
+  },
+  {
+    kind: "binary",
+    id: "rssi-trailer",
+    name: "Transparent + RSSI byte (E22/E32 style)",
+    sync: [],
+    header: 0,
+    trailer: 1,
+    fields: [{ metric: "rssi", at: -1, type: "uint8", offset: -256 }],
+  },
+  {
+    kind: "text",
+    id: "rcv-text",
+    name: "AT text (+RCV=addr,len,hex,RSSI,SNR)",
+    pattern:
+      "^\\+RCV=\\d+,\\d+,(?<hex>[0-9A-Fa-f]+),(?<rssi>-?\\d+),(?<snr>-?[\\d.]+)",
+  },
+];
+
+export const LINK_METRICS: ReadonlyArray<{
+  id: LinkMetric;
+  name: string;
+  unit: string;
+}> = [
+  { id: "rssi", name: "RSSI", unit: "dBm" },
+  { id: "snr", name: "SNR", unit: "dB" },
+  { id: "freqError", name: "Frequency error", unit: "Hz" },
+];
+
+// Escape stuffing at most doubles a frame; anything longer is a bad length
+const MAX_FRAME_BYTES = 2 * (2 + MAX_TOTAL_LENGTH + 1);
+const NEWLINE = 0x0a;
+
+const FIELD_BYTES: Record<EnvelopeField["type"], 1 | 2 | 4> = {
+  int8: 1,
+  uint8: 1,
+  int16: 2,
+  uint16: 2,
+  int32: 4,
+  uint32: 4,
+};
+
+export type EnvelopePacket = {
+  start: number; // buffer index of the first byte
+  end: number; // exclusive; -1 while the envelope is incomplete
+  frame?: number[]; // bytes inside; none = not a packet (chatter, bad length)
+  frameAt?: number; // buffer index of frame[0] (binary envelopes)
+  link?: LinkMetrics;
+};
+
+function readField(bytes: number[], f: EnvelopeField): number | undefined {
+  const size = FIELD_BYTES[f.type];
+  const at = f.at < 0 ? bytes.length + f.at : f.at;
+  if (at < 0 || at + size > bytes.length) return undefined;
+  let raw = readUnsigned(bytes.slice(at, at + size), f.endian ?? "LE");
+  if (f.type.startsWith("int") && raw >= 2 ** (8 * size - 1))
+    raw -= 2 ** (8 * size);
+  return raw * (f.scale ?? 1) + (f.offset ?? 0);
+}
+
+const patterns = new Map<string, RegExp>();
+const compile = (pattern: string) => {
+  let re = patterns.get(pattern);
+  if (!re) patterns.set(pattern, (re = new RegExp(pattern)));
+  return re;
+};
+
+// Next envelope at or after `pos`, or null if none can start there. `sofs`
+// locates frames in length-less binary envelopes; `final` lets a text
+// envelope end without its newline.
+export function findEnvelope(
+  buf: ArrayLike<number>,
+  pos: number,
+  env: Envelope,
+  sofs: ReadonlySet<number>,
+  final = false
+): EnvelopePacket | null {
+  if (pos >= buf.length) return null;
+
+  if (env.kind === "text") {
+    let nl = pos;
+    while (nl < buf.length && buf[nl] !== NEWLINE) nl++;
+    if (nl === buf.length && !final) return { start: pos, end: -1 };
+    const end = Math.min(nl + 1, buf.length);
+    let line = "";
+    for (let i = pos; i < nl; i++) line += String.fromCharCode(buf[i]);
+    const groups = compile(env.pattern).exec(line.trim())?.groups;
+    if (!groups?.hex) return { start: pos, end };
+    const link: LinkMetrics = {};
+    for (const { id } of LINK_METRICS) {
+      const v = Number(groups[id]);
+      if (groups[id] !== undefined && Number.isFinite(v)) link[id] = v;
+    }
+    let frame: number[];
+    try {
+      frame = hexToBytes(groups.hex);
+    } catch {
+      return { start: pos, end }; // odd digit count: noise, like chatter
+    }
+    return { start: pos, end, frame, link };
+  }
+
+  const { sync, length, header, trailer } = env;
+  for (let start = pos; start < buf.length; start++) {
+    let k = 0;
+    while (
+      k < sync.length &&
+      start + k < buf.length &&
+      buf[start + k] === sync[k]
+    )
+      k++;
+    if (k < sync.length) {
+      if (start + k === buf.length) return { start, end: -1 }; // partial sync
+      continue;
+    }
+    const need = length ? length.at + length.bytes : header + 2;
+    if (start + need > buf.length) return { start, end: -1 };
+    if (!length && !sofs.has(buf[start + header])) continue;
+
+    const field = Array.from(
+      { length: length?.bytes ?? 0 },
+      (_, i) => buf[start + (length?.at ?? 0) + i]
+    );
+    const frameLen = length
+      ? readUnsigned(field, length.endian ?? "LE") + (length.adjust ?? 0)
+      : 2 + buf[start + header + 1] + 1;
+    if (frameLen <= 0 || frameLen > MAX_FRAME_BYTES)
+      return { start, end: start + 1 };
+    const end = start + header + frameLen + trailer;
+    if (end > buf.length) return { start, end: -1 };
+
+    const bytes = Array.from({ length: end - start }, (_, i) => buf[start + i]);
+    const link: LinkMetrics = {};
+    for (const f of env.fields) {
+      const v = readField(bytes, f);
+      if (v !== undefined) link[f.metric] = v;
+    }
+    return {
+      start,
+      end,
+      frame: bytes.slice(header, header + frameLen),
+      frameAt: start + header,
+      link,
+    };
+  }
+  return null;
+}
+
+// The first packet inside a complete capture, for single-frame parsing
+export function unwrapEnvelope(
+  bytes: ArrayLike<number>,
+  env: Envelope,
+  sofs: ReadonlySet<number>
+): { frame: number[]; link: LinkMetrics } | null {
+  let pos = 0;
+  for (;;) {
+    const packet = findEnvelope(bytes, pos, env, sofs, true);
+    if (!packet || packet.end === -1) return null;
+    if (packet.frame) return { frame: packet.frame, link: packet.link ?? {} };
+    pos = packet.end;
+  }
+}
+
+// ==========================
+// Link-quality trends
+// ==========================
+
+// [x, value] points per metric for plotting link quality over a capture.
+// x is the receive time in ms when every frame with metrics has one,
+// otherwise the frame index.
+export function linkSeries(frames: ReadonlyArray<DecodedFrame>): {
+  byTime: boolean;
+  series: Record<LinkMetric, Array<[number, number]>>;
+} {
+  const linked = frames
+    .map((f, i) => ({ f, i }))
+    .filter(({ f }) => f.link && Object.keys(f.link).length);
+  const byTime =
+    linked.length > 0 && linked.every(({ f }) => f.rxTime !== undefined);
+  const series: Record<LinkMetric, Array<[number, number]>> = {
+    rssi: [],
+    snr: [],
+    freqError: [],
+  };
+  for (const { f, i } of linked)
+    for (const { id } of LINK_METRICS) {
+      const v = f.link?.[id];
+      if (v !== undefined) series[id].push([byTime ? f.rxTime ?? i : i, v]);
+    }
+  return { byTime, series };
+}
+
+// ==========================
+// JSON envelope definitions
+// ==========================
+// Binary:
+//   { "kind": "binary", "name": "Ground modem", "sync": [165, 90],
+//     "length": { "at": 2, "bytes": 1 }, "header": 10, "trailer": 0,
+//     "fields": [{ "metric": "rssi", "at": 3, "type": "int16" },
+//                { "metric": "snr", "at": 5, "type": "int8", "scale": 0.25 }] }
+// Text:
+//   { "kind": "text", "name": "AT modem",
+//     "pattern": "^\\+RCV=\\d+,\\d+,(?<hex>[0-9A-F]+),(?<rssi>-?\\d+)" }
+
+const isObject = (v: unknown): v is Record<string, unknown> =>
+  typeof v === "object" && v !== null && !Array.isArray(v);
+const isInt = (v: unknown): v is number => Number.isInteger(v);
+const isByte = (v: unknown) => isInt(v) && v >= 0 && v <= 0xff;
+const isEndian = (v: unknown): v is Endian | undefined =>
+  v === undefined || v === "LE" || v === "BE";
+const isOptNumber = (v: unknown): v is number | undefined =>
+  v === undefined || (typeof v === "number" && Number.isFinite(v));
+
+function parseField(input: unknown, path: string): EnvelopeField {
+  if (!isObject(input)) throw new Error(`${path}: expected an object`);
+  const { metric, at, type, endian, scale, offset } = input;
+  if (!LINK_METRICS.some((m) => m.id === metric))
+    throw new Error(`${path}.metric: expected "rssi", "snr" or "freqError"`);
+  if (!isInt(at)) throw new Error(`${path}.at: expected an integer`);
+  if (typeof type !== "string" || !Object.hasOwn(FIELD_BYTES, type))
+    throw new Error(
+      `${path}.type: expected one of ${Object.keys(FIELD_BYTES).join(", ")}`
+    );
+  if (!isEndian(endian)) throw new Error(`${path}.endian: expected LE or BE`);
+  if (!isOptNumber(scale) || !isOptNumber(offset))
+    throw new Error(`${path}: scale and offset must be numbers`);
+  return {
+    metric: metric as LinkMetric,
+    at,
+    type: type as EnvelopeField["type"],
+    endian,
+    scale,
+    offset,
+  };
+}
+
+export function parseEnvelope(input: unknown): Envelope {
+  if (!isObject(input)) throw new Error("Envelope must be a JSON object.");
+  const name =
+    typeof input.name === "string" && input.name ? input.name : "custom";
+  const id = `custom:${name}`;
+
+  if (input.kind === "text") {
+    if (typeof input.pattern !== "string")
+      throw new Error('Text envelope needs a "pattern" string.');
+    let re: RegExp;
+    try {
+      re = new RegExp(input.pattern);
+    } catch (e) {
+      throw new Error(`pattern: ${e instanceof Error ? e.message : String(e)}`);
+    }
+    if (!re.source.includes("(?<hex>"))
+      throw new Error('pattern: needs a named group "hex" for the frame bytes');
+    return { kind: "text", id, name, pattern: input.pattern };
+  }
+
+  if (input.kind !== "binary")
+    throw new Error('"kind" must be "binary" or "text".');
+  const { sync = [], length, header, trailer = 0, fields = [] } = input;
+  if (!Array.isArray(sync) || !sync.every(isByte))
+    throw new Error('"sync" must be an array of byte values.');
+  if (!isInt(header) || header < sync.length)
+    throw new Error('"header" must be an integer covering at least the sync.');
+  if (!isInt(trailer) || trailer < 0)
+    throw new Error('"trailer" must be a non-negative integer.');
+  if (length !== undefined) {
+    if (!isObject(length)) throw new Error('"length" must be an object.');
+    if (!isInt(length.at) || length.at < 0)
+      throw new Error("length.at: expected a non-negative integer");
+    if (length.bytes !== 1 && length.bytes !== 2)
+      throw new Error("length.bytes: expected 1 or 2");
+    if (length.at + length.bytes > header)
+      throw new Error("length: must lie within the header");
+    if (!isEndian(length.endian))
+      throw new Error("length.endian: expected LE or BE");
+    if (length.adjust !== undefined && !isInt(length.adjust))
+      throw new Error("length.adjust: expected an integer");
+  }
+  if (!length && !sync.length && header === 0 && trailer === 0)
+    throw new Error("Envelope wraps nothing: give a sync, header or trailer.");
+  if (!Array.isArray(fields)) throw new Error('"fields" must be an array.');
+  return {
+    kind: "binary",
+    id,
+    name,
+    sync,
+    length: length as Extract<Envelope, { kind: "binary" }>["length"],
+    header,
+    trailer,
+    fields: fields.map((f, i) => parseField(f, `fields[${i}]`)),
+  };
+}
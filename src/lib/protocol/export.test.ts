@@ -0,0 +1,62 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_SCHEMA } from "./defs";
+import { csvColumns, csvDigits, csvLine, frameCsvRow } from "./export";
+import { decodeFrame, encodeFrame } from "./frame";
+import { encodeTLVs } from "./tlv";
+import type { ProtocolSchema } from "./types";
+
+// ArgID keys that collide with a fixed column and with an Object key
+const SCHEMA: ProtocolSchema = {
+  ...DEFAULT_SCHEMA,
+  args: [
+    { id: 0x70, key: "sequence", bytes: 2, type: "uint16", note: "" },
+    { id: 0x71, key: "constructor", bytes: 1, type: "uint8", note: "" },
+    { id: 0x72, key: "temp", bytes: 4, type: "float", note: "", digits: 1 },
+  ],
+};
+
+describe("wide CSV", () => {
+  const { payload } = encodeTLVs(
+    [
+      { id: 0x70, value: "7" },
+      { id: 0x71, value: "9" },
+      { id: 0x72, value: "44.3" },
+    ],
+    SCHEMA
+  );
+  const frame = decodeFrame(
+    encodeFrame({ type: "Telemetry", sequence: 42, payload }),
+    { schema: SCHEMA }
+  );
+  const columns = csvColumns([SCHEMA]);
+  const cells = frameCsvRow(frame, columns, csvDigits([SCHEMA])).split(",");
+  const row = Object.fromEntries(columns.map((c, i) => [c, cells[i]]));
+
+  it("keeps TLV columns apart from the fixed ones", () => {
+    expect(columns).toContain("sequence");
+    expect(columns.slice(-3)).toEqual([
+      "arg.sequence",
+      "arg.constructor",
+      "arg.temp",
+    ]);
+    expect(row.sequence).toBe("42");
+    expect(row["arg.sequence"]).toBe("7");
+    expect(row["arg.constructor"]).toBe("9");
+  });
+
+  it("rounds engineering values to the schema's digits", () => {
+    expect(row["arg.temp"]).toBe("44.3");
+    expect(frameCsvRow(frame, ["arg.temp"])).toMatch(/^44\.29999/);
+    expect(csvDigits([SCHEMA, DEFAULT_SCHEMA]).get("temp")).toBe(1);
+  });
+
+  it("leaves unknown and prototype-named columns empty", () => {
+    expect(frameCsvRow(frame, ["toString", "constructor", "nope"])).toBe(",,");
+  });
+
+  it("quotes cells that need it", () => {
+    expect(csvLine(["a,b", 'say "hi"', [1, 2], undefined])).toBe(
+      '"a,b","say ""hi""",1 2,'
+    );
+  });
+});
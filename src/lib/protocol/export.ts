@@ -0,0 +1,153 @@
+import { bytesToHex } from "./bytes";
+import { formatRxTime } from "./format";
+import type { DecodedFrame, EngineeringValue, ProtocolSchema } from "./types";
+
+// ==========================
+// Flat exports (JSON lines, CSV)
+// ==========================
+
+// Engineering value as plain data: numbers stay numbers, enums become their
+// label, bitfields the names of the set bits, bytes a hex string
+export function plainValue(
+  e: EngineeringValue
+): number | string | number[] | string[] {
+  switch (e.kind) {
+    case "number":
+      return e.value;
+    case "array":
+      return e.values;
+    case "enum":
+      return e.label ?? e.index;
+    case "bitfield":
+      return e.set;
+    case "text":
+      return e.text;
+    case "bytes":
+      return bytesToHex(e.bytes);
+  }
+}
+
+// One frame as a JSON-ready record; TLVs keyed by ArgID key (a repeated key
+// keeps its last value)
+export function frameRecord(f: DecodedFrame): Record<string, unknown> {
+  return {
+    offset: f.offset,
+    rxTime: f.rxTime,
+    version: f.version || undefined,
+    type: f.headerType,
+    flags: f.headerFlags,
+    sequence: f.sequence,
+    ok: f.ok,
+    corrected: f.corrected.length || undefined,
+    link: f.link,
+    values: f.tlv.length
+      ? Object.fromEntries(
+          f.tlv.map((t) => [t.name, plainValue(t.engineering)])
+        )
+      : undefined,
+    command: f.command
+      ? {
+          name: f.command.name,
+          args: Object.fromEntries(
+            f.command.args.map((a) => [a.key, plainValue(a.engineering)])
+          ),
+        }
+      : undefined,
+    ack: f.ack ?? undefined,
+    event: f.event ?? undefined,
+    rxMeta: f.rxMeta,
+    errors: f.errors.length ? f.errors : undefined,
+    warnings: f.warnings.length ? f.warnings : undefined,
+  };
+}
+
+const FIXED_COLUMNS = [
+  "offset",
+  "rx_time",
+  "version",
+  "type",
+  "sequence",
+  "ok",
+  "corrected",
+  "rssi",
+  "snr",
+  "freq_error",
+];
+
+// TLV columns are "arg.<key>", so an ArgID key can't shadow a fixed column
+const ARG_PREFIX = "arg.";
+
+// Wide CSV header: fixed columns, then one per ArgID key across the schemas
+export function csvColumns(schemas: ReadonlyArray<ProtocolSchema>): string[] {
+  const keys = new Set(schemas.flatMap((s) => s.args.map((a) => a.key)));
+  return [...FIXED_COLUMNS, ...[...keys].map((k) => ARG_PREFIX + k)];
+}
+
+// Decimals per ArgID key, as the schemas render them; the first schema
+// that gives a key digits wins
+export function csvDigits(
+  schemas: ReadonlyArray<ProtocolSchema>
+): ReadonlyMap<string, number> {
+  const digits = new Map<string, number>();
+  for (const s of schemas)
+    for (const a of s.args)
+      if (a.digits !== undefined && !digits.has(a.key))
+        digits.set(a.key, a.digits);
+  return digits;
+}
+
+// Numbers rounded to `digits` as in the decoded views, else as plainValue
+function csvValue(e: EngineeringValue, digits?: number) {
+  if (digits === undefined) return plainValue(e);
+  if (e.kind === "number") return e.value.toFixed(digits);
+  if (e.kind === "array") return e.values.map((v) => v.toFixed(digits));
+  return plainValue(e);
+}
+
+const csvCell = (v: unknown): string => {
+  const text =
+    v === undefined || v === null
+      ? ""
+      : Array.isArray(v)
+      ? v.join(" ")
+      : String(v);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const csvLine = (cells: ReadonlyArray<unknown>) =>
+  cells.map(csvCell).join(",");
+
+// One frame as a CSV row for `columns` (see csvColumns), numbers rounded
+// per `digits` (see csvDigits)
+export function frameCsvRow(
+  f: DecodedFrame,
+  columns: ReadonlyArray<string>,
+  digits: ReadonlyMap<string, number> = new Map()
+): string {
+  const values = new Map(
+    f.tlv.map(
+      (t) => [t.name, csvValue(t.engineering, digits.get(t.name))] as const
+    )
+  );
+  const fixed: Record<string, unknown> = {
+    offset: f.offset,
+    rx_time: f.rxTime !== undefined ? formatRxTime(f.rxTime) : undefined,
+    version: f.version,
+    type: f.headerType,
+    sequence: f.sequence,
+    ok: f.ok,
+    corrected: f.corrected.length,
+    rssi: f.link?.rssi,
+    snr: f.link?.snr,
+    freq_error: f.link?.freqError,
+  };
+  return csvLine(
+    columns.map((c) =>
+      c.startsWith(ARG_PREFIX)
+        ? values.get(c.slice(ARG_PREFIX.length))
+        : Object.hasOwn(fixed, c)
+        ? fixed[c]
+        : undefined
+    )
+  );
+}
@@ -0,0 +1,111 @@
+import { bytesToHex, hex2 } from "./bytes";
+import { describeCal } from "./calibration";
+import { DEFAULT_SCHEMA } from "./defs";
+import { findArg } from "./schema";
+import type {
+  CommandArgDef,
+  DecodedCommandArg,
+  DecodedTLV,
+  EngineeringValue,
+  ProtocolSchema,
+} from "./types";
+
+const withUnit = (value: string, unit?: string) =>
+  unit ? `${value} ${unit}` : value;
+
+type RenderedValue = { value: string; hint?: string };
+
+// Pretty-print TLV values with units
+export function renderTLVRow(
+  t: DecodedTLV,
+  schema: ProtocolSchema = DEFAULT_SCHEMA
+): RenderedValue & { label: string } {
+  const label = `0x${hex2(t.id)} ${t.name}`;
+  const def = findArg(schema, t.id);
+  if (!def) return { label, value: String(t.valueDecoded) };
+  return { label, ...renderValue(def, t) };
+}
+
+export function renderCommandArg(
+  def: CommandArgDef,
+  arg: DecodedCommandArg
+): RenderedValue & { label: string } {
+  return { label: arg.key, ...renderValue(def, arg) };
+}
+
+// Both the decoded views and the generator preview render through here, from
+// the engineering value the calibration layer produced
+function renderValue(
+  def: CommandArgDef,
+  t: { bytes: number; valueDecoded: unknown; engineering: EngineeringValue }
+): RenderedValue {
+  const fixed = (v: number) =>
+    def.digits !== undefined ? v.toFixed(def.digits) : String(v);
+  const e = t.engineering;
+  switch (e.kind) {
+    case "text":
+      return { value: JSON.stringify(e.text), hint: `${t.bytes} B` };
+    case "bytes":
+      return {
+        value: bytesToHex(e.bytes, " ") || "(empty)",
+        hint: `${t.bytes} B`,
+      };
+    case "array":
+      return {
+        value: withUnit(`[${e.values.map(fixed).join(", ")}]`, e.unit),
+        hint: `${e.values.length} × ${def.element}`,
+      };
+    case "enum":
+      return { value: `${e.index} – ${e.label ?? `UNKNOWN(${e.index})`}` };
+    case "bitfield":
+      return { value: e.set.join(", ") || "none" };
+    case "number":
+      return {
+        value: withUnit(fixed(e.value), e.unit),
+        hint: def.cal
+          ? `raw ${t.valueDecoded}; ${describeCal(def.cal, e.unit)}`
+          : undefined,
+      };
+  }
+}
+
+// Generator input helpers
+export function placeholderFor(def: CommandArgDef) {
+  return def.example ?? "";
+}
+
+export function hintFor(def: CommandArgDef) {
+  const cal = def.cal ? ` (${describeCal(def.cal, def.unit)})` : "";
+  switch (def.type) {
+    case "enum":
+      return def.labels?.length
+        ? `Index or label: ${def.labels.join(", ")}.`
+        : "";
+    case "bitfield":
+      return def.bits?.length
+        ? `Bits (LSB first): ${def.bits.join(", ")}.`
+        : "";
+    case "string":
+      return `UTF-8 text, up to ${def.bytes} bytes.`;
+    case "bytes":
+      return `Hex bytes, up to ${def.bytes}.`;
+    case "array":
+      return `Comma-separated ${def.element} values, up to ${def.bytes} bytes${
+        cal && `; each encoded as raw${cal}`
+      }.`;
+    case "float":
+      return `Will be encoded as float32${cal && ` of raw${cal}`}.`;
+    default:
+      return cal && `Will be encoded as ${def.type} of raw${cal}.`;
+  }
+}
+
+export function unitLabel(def: CommandArgDef) {
+  return def.unit ? `(${def.unit})` : "";
+}
+
+// Ground receive time: time of day for stamps without a date, else ISO UTC
+export function formatRxTime(ms: number) {
+  const iso = new Date(ms).toISOString();
+  return ms < 86_400_000 ? iso.slice(11, 23) : iso.replace("T", " ");
+}
@@ -0,0 +1,162 @@
+import { describe, expect, it } from "vitest";
+import { EOF_TYPO, FLAG_SEQ_LITTLE, FLAG_VALUE_BIG } from "./constants";
+import { DEFAULT_SCHEMA } from "./defs";
+import { buildSimulatedFrame } from "./demo";
+import { decodeFrame, encodeFrame } from "./frame";
+import { PROFILE_V1_0, PROFILE_V1_1 } from "./profiles";
+import { decodeStream } from "./stream";
+import { encodeTLVs } from "./tlv";
+import type { Endian, ProtocolSchema } from "./types";
+
+// The default schema plus one ArgID pinned to big-endian, to exercise the
+// order of precedence in valueEndianOf
+const SCHEMA: ProtocolSchema = {
+  ...DEFAULT_SCHEMA,
+  args: [
+    ...DEFAULT_SCHEMA.args,
+    {
+      id: 0x70,
+      key: "be_counter",
+      bytes: 2,
+      type: "uint16",
+      note: "test ArgID with its own byte order",
+      endian: "BE",
+    },
+  ],
+};
+
+const ITEMS = [
+  { id: 0x01, value: "123456" }, // millis, uint32
+  { id: 0x02, value: "326.5" }, // altitude, float
+  { id: 0x05, value: "-12.5" }, // avionics temperature, int16 ×0.1
+  { id: 0x70, value: "4660" }, // 0x1234, pinned BE
+];
+
+const engineering = (v: unknown) =>
+  (v as { kind: string; value: number }).value;
+
+describe("per-frame endianness round trip", () => {
+  for (const valueBig of [false, true])
+    for (const seqLittle of [false, true]) {
+      const flags =
+        (valueBig ? FLAG_VALUE_BIG : 0) | (seqLittle ? FLAG_SEQ_LITTLE : 0);
+      const frameEndian: Endian | undefined = valueBig ? "BE" : undefined;
+
+      it(`values ${valueBig ? "BE" : "LE"} flag, sequence ${
+        seqLittle ? "LE" : "BE"
+      }`, () => {
+        const { payload, errors } = encodeTLVs(ITEMS, SCHEMA, frameEndian);
+        expect(errors).toEqual([]);
+        const bytes = encodeFrame(
+          { type: "Telemetry", flags, sequence: 0x1234 + 1, payload },
+          PROFILE_V1_1
+        );
+        // Sequence bytes sit right after SOF, TotalLength and Header
+        expect(bytes.slice(3, 5)).toEqual(
+          seqLittle ? [0x35, 0x12] : [0x12, 0x35]
+        );
+
+        const f = decodeFrame(bytes, { profile: PROFILE_V1_1, schema: SCHEMA });
+        expect(f.ok).toBe(true);
+        expect(f.errors).toEqual([]);
+        expect(f.sequence).toBe(0x1235);
+        expect(f.valueEndian).toBe(valueBig ? "BE" : "LE");
+        expect(f.sequenceEndian).toBe(seqLittle ? "LE" : "BE");
+
+        expect(f.tlv.map((t) => t.id)).toEqual([0x01, 0x02, 0x05, 0x70]);
+        expect(engineering(f.tlv[0].engineering)).toBe(123456);
+        expect(engineering(f.tlv[1].engineering)).toBeCloseTo(326.5);
+        expect(engineering(f.tlv[2].engineering)).toBeCloseTo(-12.5);
+        expect(engineering(f.tlv[3].engineering)).toBe(0x1234);
+
+        // Frame flag first, then the ArgID's own order, then the default
+        expect(f.tlv.map((t) => t.endian)).toEqual(
+          valueBig ? ["BE", "BE", "BE", "BE"] : ["LE", "LE", "LE", "BE"]
+        );
+        expect(f.tlv[3].valueRaw).toEqual([0x12, 0x34]);
+        expect(f.tlv[0].valueRaw).toEqual(
+          valueBig ? [0x00, 0x01, 0xe2, 0x40] : [0x40, 0xe2, 0x01, 0x00]
+        );
+      });
+    }
+});
+
+describe("CRC bit-flip repair", () => {
+  const good = buildSimulatedFrame(7, 700, "BE");
+  const flipped = (...flips: [number, number][]) => {
+    const bytes = [...good];
+    for (const [index, bit] of flips) bytes[index] ^= 1 << bit;
+    return bytes;
+  };
+
+  it("repairs a single flipped bit and reports it", () => {
+    const bytes = flipped([10, 4]);
+    expect(decodeFrame(bytes).ok).toBe(false);
+    const frame = decodeFrame(bytes, { repairBits: 1 });
+    expect(frame.ok).toBe(true);
+    expect(frame.corrected).toEqual([{ index: 10, bit: 4 }]);
+    expect(frame.raw).toEqual(bytes); // as received
+    expect(frame.tlv).toEqual(decodeFrame(good).tlv);
+    // A two-bit budget still prefers the single flip
+    expect(decodeFrame(bytes, { repairBits: 2 }).corrected).toEqual([
+      { index: 10, bit: 4 },
+    ]);
+  });
+
+  it("repairs a unique two-bit error", () => {
+    const bytes = flipped([2, 0], [4, 7]);
+    expect(decodeFrame(bytes, { repairBits: 1 }).ok).toBe(false);
+    const frame = decodeFrame(bytes, { repairBits: 2 });
+    expect(frame.ok).toBe(true);
+    expect(frame.corrected).toEqual([
+      { index: 2, bit: 0 },
+      { index: 4, bit: 7 },
+    ]);
+  });
+
+  it("refuses a two-bit error that more than one pair explains", () => {
+    const frame = decodeFrame(flipped([2, 0], [3, 7]), { repairBits: 2 });
+    expect(frame.ok).toBe(false);
+    expect(frame.corrected).toEqual([]);
+    expect(frame.errors[0]).toMatch(/^CRC mismatch/);
+  });
+
+  it("lets the stream decoder accept a repairable frame", () => {
+    const bytes = [...good, ...flipped([10, 4]), ...good];
+    expect(decodeStream(bytes).frames).toHaveLength(2);
+    const { frames, discarded } = decodeStream(bytes, { repairBits: 1 });
+    expect(discarded).toEqual([]);
+    expect(frames.map((f) => [f.offset, f.corrected.length])).toEqual([
+      [0, 0],
+      [good.length, 1],
+      [2 * good.length, 0],
+    ]);
+  });
+});
+
+describe("version auto-detection", () => {
+  const spec = {
+    type: "Telemetry" as const,
+    sequence: 7,
+    payload: encodeTLVs(ITEMS.slice(0, 2), DEFAULT_SCHEMA).payload,
+  };
+
+  it("keeps v1.1 for a frame ending in the v1.0 EOF", () => {
+    const frame = decodeFrame(encodeFrame({ ...spec, eof: EOF_TYPO }));
+    expect(frame.version).toBe("v1.1");
+    expect(frame.ok).toBe(true);
+    expect(frame.warnings).toEqual([
+      "EOF is 0xF1, accepted for compatibility; RED v1.1 says 0xFE.",
+    ]);
+  });
+
+  it("still decodes as v1.0 when that version is pinned", () => {
+    const bytes = encodeFrame(spec, PROFILE_V1_0);
+    const frame = decodeFrame(bytes, { profile: PROFILE_V1_0 });
+    expect([frame.version, frame.ok, frame.warnings]).toEqual([
+      "v1.0",
+      true,
+      [],
+    ]);
+  });
+});
@@ -0,0 +1,509 @@
+import {
+  encodeUInt16,
+  encodeUnsigned,
+  hex2,
+  readUint16,
+  readUnsigned,
+} from "./bytes";
+import {
+  FLAG_RESERVED,
+  FLAG_SEQ_LITTLE,
+  FLAG_VALUE_BIG,
+  HEADER_TYPE,
+  MAX_TOTAL_LENGTH,
+} from "./constants";
+import { CRC_ALGORITHMS, crcBytes, crcCompute, crcHex } from "./crc";
+import { DEFAULT_PROFILE, PROFILES, minTotalLength } from "./profiles";
+import { findCommand } from "./schema";
+import { ackLength, decodeAck, decodeEvent } from "./messages";
+import { decodeCommandArgs, decodeTLV } from "./tlv";
+import type {
+  BitFlip,
+  CrcAlgorithm,
+  DecodeOptions,
+  DecodedAck,
+  DecodedCommand,
+  DecodedEvent,
+  DecodedFrame,
+  DecodedTLV,
+  Endian,
+  FrameSpec,
+  HeaderType,
+  ProtocolProfile,
+} from "./types";
+
+// Main parser — one frame, SOF expected at bytes[0]. Without a pinned
+// profile every known version is tried and the best fit is kept.
+export function decodeFrame(
+  bytes: number[],
+  opts: DecodeOptions = {}
+): DecodedFrame {
+  if (opts.profile) return decodeFrameAs(bytes, opts.profile, opts);
+
+  let best: Fit | null = null;
+  for (const profile of opts.profiles ?? PROFILES) {
+    const fit = { frame: decodeFrameAs(bytes, profile, opts), profile };
+    if (!best || fitsBetter(fit, best)) best = fit;
+  }
+  return best?.frame ?? emptyFrame(bytes, ["No protocol profiles to try."]);
+}
+
+type Fit = { frame: DecodedFrame; profile: ProtocolProfile };
+
+// Fewer errors, then fewer warnings, then more decoded TLVs. Ties keep the
+// earlier (newer) profile. An EOF the profile accepts for compatibility
+// is not held against it: a v1.1 frame ending in 0xF1 is still v1.1.
+function fitsBetter(a: Fit, b: Fit) {
+  const warnings = ({ frame, profile }: Fit) =>
+    frame.warnings.length - (profile.eofCompat.includes(frame.eof) ? 1 : 0);
+  if (a.frame.errors.length !== b.frame.errors.length)
+    return a.frame.errors.length < b.frame.errors.length;
+  if (warnings(a) !== warnings(b)) return warnings(a) < warnings(b);
+  return a.frame.tlv.length > b.frame.tlv.length;
+}
+
+export function decodeFrameAs(
+  bytes: number[],
+  profile: ProtocolProfile,
+  opts: Pick<DecodeOptions, "schema" | "recoverTLV" | "repairBits"> = {}
+): DecodedFrame {
+  const schema = opts.schema ?? profile.schema;
+  const warnings: string[] = [];
+  const errors: string[] = [];
+
+  if (bytes.length < 2 + minTotalLength(profile) + 1) {
+    errors.push("Too short to be a valid frame.");
+    return { ...emptyFrame(bytes, errors), version: profile.id };
+  }
+
+  const start = bytes[0];
+  if (start !== profile.sof) {
+    errors.push(
+      `Invalid Start-of-Frame: expected 0x${hex2(profile.sof)}, got 0x${hex2(
+        start
+      )}`
+    );
+  }
+
+  const totalLength = bytes[1];
+  // Expected layout: [SOF][TotalLength][Header][SeqHi?][SeqLo?][...Payload...][CRC Hi][CRC Lo][EOF]
+  const expectedBytesFromHeaderThroughCRC = totalLength;
+  const headerIdx = 2;
+  const header = bytes[headerIdx];
+  const typeBits = (header >> 6) & 0b11;
+  const headerType: HeaderType =
+    typeBits === HEADER_TYPE.TELEMETRY
+      ? "Telemetry"
+      : typeBits === HEADER_TYPE.COMMAND
+      ? "Command"
+      : typeBits === HEADER_TYPE.ACK
+      ? "Ack"
+      : "Event";
+  const headerFlags = header & 0b0011_1111;
+  if (headerFlags & FLAG_RESERVED)
+    warnings.push("Reserved header flag bit 5 is set.");
+  const valueEndian: Endian = headerFlags & FLAG_VALUE_BIG ? "BE" : "LE";
+  // Only a set flag overrides per-ArgID byte orders (see valueEndianOf)
+  const frameEndian = headerFlags & FLAG_VALUE_BIG ? valueEndian : undefined;
+  const sequenceEndian: Endian = headerFlags & FLAG_SEQ_LITTLE ? "LE" : "BE";
+  const seqIdx = headerIdx + 1;
+  //const eofIdx =
+  //  2 /*SOF,Len*/ + expectedBytesFromHeaderThroughCRC + 1 /*EOF byte*/ - 1; // Last index: start at 0
+  const minTotal = 2 + expectedBytesFromHeaderThroughCRC + 1; // SOF + TL + (Header..CRC) + EOF
+  if (bytes.length < minTotal) {
+    errors.push(
+      `Truncated frame: need ${minTotal} bytes total (based on TotalLength=${expectedBytesFromHeaderThroughCRC}), got ${bytes.length}.`
+    );
+  }
+
+  // Sequence (1 or 2 bytes, per profile)
+  const sequence =
+    profile.sequenceBytes === 1
+      ? bytes[seqIdx]
+      : readUint16(bytes.slice(seqIdx, seqIdx + 2), sequenceEndian);
+
+  // Payload spans from after sequence up to the CRC (end of the counted region)
+  const payloadStart = seqIdx + profile.sequenceBytes;
+  const crcStart =
+    2 /*SOF+Len*/ +
+    expectedBytesFromHeaderThroughCRC -
+    crcBytes(profile.crc); /*CRC bytes*/
+  const payloadBytes = bytes.slice(payloadStart, crcStart);
+
+  const crcRx = readFrameCrc(bytes, crcStart, profile);
+  const crcCalc = calcFrameCrc(bytes, crcStart, profile);
+
+  // EOF
+  const eof = bytes[2 + expectedBytesFromHeaderThroughCRC];
+  if (eof !== profile.eof) {
+    if (profile.eofCompat.includes(eof)) {
+      warnings.push(
+        `EOF is 0x${hex2(eof)}, accepted for compatibility; ${
+          profile.name
+        } says 0x${hex2(profile.eof)}.`
+      );
+    } else {
+      errors.push(
+        `Invalid End-of-Frame: expected 0x${hex2(profile.eof)}, got 0x${hex2(
+          eof
+        )}`
+      );
+    }
+  }
+
+  // Header decode done above
+  let tlv: DecodedTLV[] = [];
+  let command: DecodedCommand | null = null;
+  let ack: DecodedAck | null = null;
+  let event: DecodedEvent | null = null;
+
+  if (headerType === "Telemetry") {
+    tlv = decodeTLV(payloadBytes, schema, opts.recoverTLV, frameEndian);
+
+    // Sanity checks on TLV integrity: every byte not covered by a TLV
+    let seenBytes = 0;
+    for (const t of [...tlv, null]) {
+      const next = t ? t.offset : payloadBytes.length;
+      if (next > seenBytes) {
+        const at = `0x${hex2(payloadBytes[seenBytes])}`;
+        warnings.push(
+          t
+            ? `Skipped payload bytes ${seenBytes}..${
+                next - 1
+              } (starting ${at}) to resync on ArgID 0x${hex2(t.id)}.`
+            : `Payload parsing stopped early at byte ${seenBytes}/${payloadBytes.length}. Likely unknown ArgID (${at}), truncated value or bad length prefix.`
+        );
+      }
+      if (t) seenBytes = t.offset + t.wireBytes;
+    }
+    const recovered = tlv.filter((t) => t.recovered).length;
+    if (recovered)
+      warnings.push(
+        `${recovered} field(s) recovered after resync — lower confidence.`
+      );
+  } else if (headerType === "Command") {
+    if (payloadBytes.length === 0) {
+      warnings.push("Command frame has no Command ID byte.");
+    } else {
+      const cmdId = payloadBytes[0];
+      const def = findCommand(schema, cmdId);
+      const argDefs = def?.args ?? [];
+      const args = decodeCommandArgs(
+        argDefs,
+        payloadBytes.slice(1),
+        frameEndian
+      );
+      command = {
+        id: cmdId,
+        name: def ? def.key : `UNKNOWN(0x${hex2(cmdId)})`,
+        args,
+      };
+      if (args.length < argDefs.length) {
+        warnings.push(
+          `${def?.key} expects ${argDefs.length} argument(s); decoded ${
+            args.length
+          } (missing or truncated ${argDefs[args.length].key}).`
+        );
+      }
+      const extra =
+        payloadBytes.length - 1 - args.reduce((acc, a) => acc + a.wireBytes, 0);
+      if (extra > 0 && args.length === argDefs.length) {
+        warnings.push(`Command frame has ${extra} extra payload byte(s).`);
+      }
+    }
+  } else if (headerType === "Ack") {
+    const expected = ackLength(profile.sequenceBytes);
+    ack = decodeAck(
+      payloadBytes,
+      profile.sequenceBytes,
+      sequenceEndian,
+      schema
+    );
+    if (payloadBytes.length !== expected)
+      warnings.push(
+        `Ack frame payload is ${payloadBytes.length} byte(s); expected ${expected}.`
+      );
+  } else {
+    event = decodeEvent(payloadBytes, valueEndian, schema);
+    if (!event)
+      warnings.push(
+        payloadBytes.length < 2
+          ? "Event frame is missing its Severity/Kind bytes."
+          : `Event frame has unknown Kind 0x${hex2(
+              payloadBytes[1]
+            )} or a short code.`
+      );
+    else if (event.code !== undefined && payloadBytes.length > 4)
+      warnings.push(
+        `Event frame has ${payloadBytes.length - 4} extra payload byte(s).`
+      );
+  }
+
+  if (crcRx !== crcCalc) {
+    // Only worth trying when everything but the CRC checks out
+    const flips =
+      errors.length === 0 && opts.repairBits
+        ? findBitFlips(bytes, crcStart, profile, opts.repairBits)
+        : null;
+    if (flips) {
+      const fixed = [...bytes];
+      for (const f of flips) fixed[f.index] ^= 1 << f.bit;
+      const frame = decodeFrameAs(fixed, profile, { ...opts, repairBits: 0 });
+      const where = flips.map((f) => `bit ${f.bit} of byte ${f.index}`);
+      return {
+        ...frame,
+        raw: bytes, // as received; `corrected` says what was changed
+        warnings: [
+          `CRC repaired by flipping ${where.join(" and ")}.`,
+          ...frame.warnings,
+        ],
+        corrected: flips,
+      };
+    }
+    errors.push(
+      `CRC mismatch: received 0x${crcHex(
+        profile.crc,
+        crcRx
+      )} but calculated 0x${crcHex(profile.crc, crcCalc)} (${
+        profile.crc.name
+      }).`
+    );
+  }
+
+  return {
+    ok: errors.length === 0,
+    warnings,
+    errors,
+    raw: bytes,
+    start,
+    totalLength: expectedBytesFromHeaderThroughCRC,
+    header,
+    headerType,
+    headerFlags,
+    valueEndian,
+    sequenceEndian,
+    sequence,
+    payloadBytes,
+    crcRx,
+    crcCalc,
+    eof,
+    tlv,
+    command,
+    ack,
+    event,
+    offset: 0,
+    version: profile.id,
+    corrected: [],
+  };
+}
+
+// CRC as received, in the profile's wire byte order
+function readFrameCrc(
+  bytes: ArrayLike<number>,
+  crcStart: number,
+  profile: ProtocolProfile
+) {
+  const n = crcBytes(profile.crc);
+  return readUnsigned(
+    Array.from({ length: n }, (_, k) => bytes[crcStart + k]),
+    profile.crcEndian
+  );
+}
+
+// CRC over Header..Payload (or TotalLength..Payload, per profile)
+function calcFrameCrc(
+  bytes: Uint8Array | number[],
+  crcStart: number,
+  profile: ProtocolProfile
+) {
+  return crcCompute(
+    profile.crc,
+    bytes.slice(profile.crcFromLength ? 1 : 2, crcStart)
+  );
+}
+
+// Bit-flip repair. CRCs are affine in the message, so flipping one bit
+// always changes the CRC by the same syndrome. A set of flips repairs the
+// frame when its syndromes XOR to (received ^ calculated). Flips are only
+// tried over Header..Payload, and only a unique solution is accepted.
+function findBitFlips(
+  bytes: ArrayLike<number>,
+  crcStart: number,
+  profile: ProtocolProfile,
+  maxFlips: number
+): BitFlip[] | null {
+  const from = profile.crcFromLength ? 1 : 2;
+  const target =
+    (readFrameCrc(bytes, crcStart, profile) ^
+      calcFrameCrc(Array.from(bytes), crcStart, profile)) >>>
+    0;
+  const zeros = new Array<number>(crcStart - from).fill(0);
+  const base = crcCompute(profile.crc, zeros);
+
+  const flips: Array<BitFlip & { syndrome: number }> = [];
+  for (let index = 2; index < crcStart; index++) {
+    for (let bit = 0; bit < 8; bit++) {
+      zeros[index - from] = 1 << bit;
+      const syndrome = (crcCompute(profile.crc, zeros) ^ base) >>> 0;
+      zeros[index - from] = 0;
+      flips.push({ index, bit, syndrome });
+    }
+  }
+  const strip = ({ index, bit }: BitFlip) => ({ index, bit });
+
+  const single = flips.filter((f) => f.syndrome === target);
+  if (single.length === 1) return [strip(single[0])];
+  if (single.length > 1 || maxFlips < 2) return null;
+
+  const bySyndrome = new Map<number, number[]>();
+  flips.forEach((f, i) =>
+    bySyndrome.set(f.syndrome, [...(bySyndrome.get(f.syndrome) ?? []), i])
+  );
+  let pair: [number, number] | null = null;
+  for (let i = 0; i < flips.length; i++) {
+    for (const j of bySyndrome.get((flips[i].syndrome ^ target) >>> 0) ?? []) {
+      if (j <= i) continue;
+      if (pair) return null; // ambiguous
+      pair = [i, j];
+    }
+  }
+  return pair ? [strip(flips[pair[0]]), strip(flips[pair[1]])] : null;
+}
+
+export type CrcMatch = {
+  crc: CrcAlgorithm;
+  crcEndian: Endian;
+  crcFromLength: boolean;
+};
+
+// "Identify CRC": try every catalogue entry, in both byte orders, over
+// Header..Payload and TotalLength..Payload, against the received CRC.
+// Only SOF and TotalLength are trusted; an empty result means no match.
+export function identifyCrc(bytes: number[]): CrcMatch[] {
+  const matches: CrcMatch[] = [];
+  const totalLength = bytes[1];
+  if (totalLength === undefined || bytes.length < 2 + totalLength)
+    return matches;
+  for (const crc of CRC_ALGORITHMS) {
+    const crcStart = 2 + totalLength - crcBytes(crc);
+    if (crcStart <= 2) continue;
+    for (const crcFromLength of [false, true]) {
+      const calc = crcCompute(
+        crc,
+        bytes.slice(crcFromLength ? 1 : 2, crcStart)
+      );
+      for (const crcEndian of ["BE", "LE"] as const) {
+        const rx = readUnsigned(
+          bytes.slice(crcStart, crcStart + crcBytes(crc)),
+          crcEndian
+        );
+        if (rx === calc) matches.push({ crc, crcEndian, crcFromLength });
+      }
+    }
+  }
+  return matches;
+}
+
+export type FrameCheck =
+  | "ok"
+  | "repairable" // CRC fails but a unique bit-flip repair exists
+  | "need-more"
+  | "bad-length"
+  | "bad-eof"
+  | "crc";
+
+// Cheap structural check of a candidate frame starting at buf[pos], used by
+// the stream decoder before committing to a full decode.
+export function checkFrame(
+  buf: Uint8Array,
+  pos: number,
+  profile: ProtocolProfile,
+  repairBits = 0
+): FrameCheck {
+  if (pos + 1 >= buf.length) return "need-more";
+  const totalLength = buf[pos + 1];
+  if (totalLength < minTotalLength(profile)) return "bad-length";
+  const frameLen = 2 + totalLength + 1;
+  if (pos + frameLen > buf.length) return "need-more";
+  const eof = buf[pos + frameLen - 1];
+  if (eof !== profile.eof && !profile.eofCompat.includes(eof)) return "bad-eof";
+  const frame = buf.subarray(pos, pos + frameLen);
+  const crcStart = 2 + totalLength - crcBytes(profile.crc);
+  if (
+    readFrameCrc(frame, crcStart, profile) ===
+    calcFrameCrc(frame, crcStart, profile)
+  )
+    return "ok";
+  return repairBits && findBitFlips(frame, crcStart, profile, repairBits)
+    ? "repairable"
+    : "crc";
+}
+
+// Placeholder result for input that never got far enough to decode
+export function emptyFrame(raw: number[], errors: string[]): DecodedFrame {
+  return {
+    ok: false,
+    warnings: [],
+    errors,
+    raw,
+    start: raw[0] ?? 0,
+    totalLength: 0,
+    header: 0,
+    headerType: "Unknown",
+    headerFlags: 0,
+    valueEndian: "LE",
+    sequenceEndian: "BE",
+    sequence: 0,
+    payloadBytes: [],
+    crcRx: 0,
+    crcCalc: 0,
+    eof: 0,
+    tlv: [],
+    command: null,
+    ack: null,
+    event: null,
+    offset: 0,
+    version: "",
+    corrected: [],
+  };
+}
+
+// Build [SOF][Len][Header][Seq][Payload][CRC][EOF]
+export function encodeFrame(
+  spec: FrameSpec,
+  profile: ProtocolProfile = DEFAULT_PROFILE
+): number[] {
+  const flags = (spec.flags ?? 0) & 0b0011_1111;
+  const typeBits =
+    HEADER_TYPE[spec.type.toUpperCase() as keyof typeof HEADER_TYPE];
+  const header = ((typeBits << 6) | flags) & 0xff;
+
+  // Sequence byte order follows the header flag so the frame decodes as built
+  const sequenceEndian: Endian = flags & FLAG_SEQ_LITTLE ? "LE" : "BE";
+
+  const seqBytes =
+    profile.sequenceBytes === 1
+      ? [Math.max(0, Math.min(0xff, Math.floor(spec.sequence)))]
+      : encodeUInt16(spec.sequence, sequenceEndian);
+
+  const headerThroughPayload = [header, ...seqBytes, ...spec.payload];
+  const totalLength = headerThroughPayload.length + crcBytes(profile.crc); // excludes EOF
+  if (totalLength > MAX_TOTAL_LENGTH)
+    throw new Error(
+      `Frame too long: TotalLength would be ${totalLength} (max ${MAX_TOTAL_LENGTH}).`
+    );
+
+  const crc = crcCompute(
+    profile.crc,
+    profile.crcFromLength
+      ? [totalLength, ...headerThroughPayload]
+      : headerThroughPayload
+  );
+  return [
+    profile.sof,
+    totalLength,
+    ...headerThroughPayload,
+    ...encodeUnsigned(crc, crcBytes(profile.crc), profile.crcEndian),
+    spec.eof ?? profile.eof,
+  ];
+}
@@ -0,0 +1,63 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_SCHEMA } from "./defs";
+import { buildSimulatedFrame } from "./demo";
+import { encodeFrame } from "./frame";
+import { decodeFraming, encodeFraming, FRAMINGS } from "./framing";
+import { decodeStream } from "./stream";
+import { encodeTLVs } from "./tlv";
+
+// A frame whose body holds every delimiter and escape byte: sequence 0xC0DB
+// (SLIP END, ESC) and millis 0x7DFDFE00 (escape ESC, SOF, EOF, COBS 0x00)
+function awkwardFrame() {
+  const { payload } = encodeTLVs(
+    [{ id: 0x01, value: String(0x7dfdfe00) }],
+    DEFAULT_SCHEMA
+  );
+  return encodeFrame({ type: "Telemetry", sequence: 0xc0db, payload });
+}
+
+describe("framing transports", () => {
+  const frames = [awkwardFrame(), buildSimulatedFrame(1, 100, "BE")];
+
+  for (const { id } of FRAMINGS) {
+    it(`${id}: encodeFraming then decodeFraming gives the frame back`, () => {
+      for (const frame of frames)
+        expect(decodeFraming(encodeFraming(frame, id), id)).toEqual(frame);
+    });
+
+    it(`${id}: decodeStream unframes back-to-back packets`, () => {
+      const wire = [...frames, ...frames].flatMap((f) => encodeFraming(f, id));
+      const { frames: decoded, discarded } = decodeStream(wire, {
+        framing: id,
+      });
+      expect(discarded).toEqual([]);
+      expect(decoded.every((f) => f.ok)).toBe(true);
+      expect(decoded.map((f) => f.raw)).toEqual([...frames, ...frames]);
+      expect(decoded.map((f) => f.sequence)).toEqual([0xc0db, 1, 0xc0db, 1]);
+    });
+  }
+
+  it("leaves no delimiter inside the stuffed frames", () => {
+    const frame = awkwardFrame();
+    for (const b of [0xfd, 0xfe, 0x7d, 0x00, 0xc0, 0xdb])
+      expect(frame.slice(1, -1)).toContain(b);
+    const inner = (w: number[]) => w.slice(1, -1);
+    expect(inner(encodeFraming(frame, "escape"))).not.toContain(0xfd);
+    expect(inner(encodeFraming(frame, "escape"))).not.toContain(0xfe);
+    expect(encodeFraming(frame, "cobs").slice(0, -1)).not.toContain(0x00);
+    expect(inner(encodeFraming(frame, "slip"))).not.toContain(0xc0);
+  });
+
+  it("COBS splits runs longer than 254 non-zero bytes", () => {
+    const long = Array.from({ length: 600 }, (_, i) => (i % 255) + 1);
+    const wire = encodeFraming(long, "cobs");
+    expect(wire[0]).toBe(0xff);
+    expect(decodeFraming(wire, "cobs")).toEqual(long);
+  });
+
+  it("returns null for a broken transport encoding", () => {
+    expect(decodeFraming([0xfd, 0x10, 0x7d], "escape")).toBeNull();
+    expect(decodeFraming([0x05, 0x01, 0x00], "cobs")).toBeNull();
+    expect(decodeFraming([0xc0, 0xdb, 0x01, 0xc0], "slip")).toBeNull();
+  });
+});
@@ -0,0 +1,173 @@
+import {
+  COBS_DELIMITER,
+  ESC,
+  ESC_XOR,
+  SLIP_END,
+  SLIP_ESC,
+  SLIP_ESC_END,
+  SLIP_ESC_ESC,
+  STUFFED_BYTES,
+} from "./constants";
+import type { Framing } from "./types";
+
+// ==========================
+// Framing transports
+// ==========================
+// raw    — [SOF]..[EOF] as-is; SOF/EOF values may also appear inside.
+// escape — SOF/EOF/ESC inside TotalLength..CRC become [ESC, b ^ 0x20], so an
+//          unescaped SOF or EOF on the wire is always a real delimiter.
+// cobs   — whole frame COBS-encoded, terminated by 0x00.
+// slip   — whole frame SLIP-escaped (RFC 1055) between END (0xC0) bytes.
+export const FRAMINGS: ReadonlyArray<{ id: Framing; name: string }> = [
+  { id: "raw", name: "Raw (SOF/EOF only)" },
+  { id: "escape", name: "Escape-byte stuffing" },
+  { id: "cobs", name: "COBS" },
+  { id: "slip", name: "SLIP" },
+];
+
+function cobsEncode(bytes: number[]): number[] {
+  const out = [0];
+  let codeAt = 0;
+  let code = 1;
+  for (const b of bytes) {
+    if (b === 0) {
+      out[codeAt] = code;
+      codeAt = out.push(0) - 1;
+      code = 1;
+      continue;
+    }
+    out.push(b);
+    if (++code === 0xff) {
+      out[codeAt] = code;
+      codeAt = out.push(0) - 1;
+      code = 1;
+    }
+  }
+  out[codeAt] = code;
+  return [...out, COBS_DELIMITER];
+}
+
+function cobsDecode(bytes: number[]): number[] | null {
+  const out: number[] = [];
+  let i = 0;
+  while (i < bytes.length) {
+    const code = bytes[i++];
+    if (code === 0 || i + code - 1 > bytes.length) return null;
+    for (let k = 1; k < code; k++) {
+      if (bytes[i] === 0) return null;
+      out.push(bytes[i++]);
+    }
+    if (code !== 0xff && i < bytes.length) out.push(0);
+  }
+  return out;
+}
+
+function slipEncode(bytes: number[]): number[] {
+  const out = [SLIP_END];
+  for (const b of bytes) {
+    if (b === SLIP_END) out.push(SLIP_ESC, SLIP_ESC_END);
+    else if (b === SLIP_ESC) out.push(SLIP_ESC, SLIP_ESC_ESC);
+    else out.push(b);
+  }
+  out.push(SLIP_END);
+  return out;
+}
+
+function slipDecode(bytes: number[]): number[] | null {
+  const out: number[] = [];
+  for (let i = 0; i < bytes.length; i++) {
+    if (bytes[i] !== SLIP_ESC) {
+      out.push(bytes[i]);
+      continue;
+    }
+    const next = bytes[++i];
+    if (next === SLIP_ESC_END) out.push(SLIP_END);
+    else if (next === SLIP_ESC_ESC) out.push(SLIP_ESC);
+    else return null;
+  }
+  return out;
+}
+
+function unescape(bytes: number[]): number[] | null {
+  const out: number[] = [];
+  for (let i = 0; i < bytes.length; i++) {
+    if (bytes[i] !== ESC) out.push(bytes[i]);
+    else if (i + 1 < bytes.length) out.push(bytes[++i] ^ ESC_XOR);
+    else return null; // dangling ESC
+  }
+  return out;
+}
+
+// Wrap one encoded frame ([SOF]..[EOF]) for the wire
+export function encodeFraming(frame: number[], framing: Framing): number[] {
+  switch (framing) {
+    case "escape": {
+      const body = frame
+        .slice(1, -1)
+        .flatMap((b) => (STUFFED_BYTES.includes(b) ? [ESC, b ^ ESC_XOR] : [b]));
+      return [frame[0], ...body, frame[frame.length - 1]];
+    }
+    case "cobs":
+      return cobsEncode(frame);
+    case "slip":
+      return slipEncode(frame);
+    default:
+      return frame;
+  }
+}
+
+// Unwrap one wire packet back into [SOF]..[EOF]; null if the transport
+// encoding itself is broken. Delimiters at either end are optional.
+export function decodeFraming(wire: number[], framing: Framing) {
+  switch (framing) {
+    case "escape":
+      return unescape(wire);
+    case "cobs": {
+      let end = wire.length;
+      while (end > 0 && wire[end - 1] === COBS_DELIMITER) end--;
+      return cobsDecode(wire.slice(0, end));
+    }
+    case "slip": {
+      let start = 0;
+      let end = wire.length;
+      while (start < end && wire[start] === SLIP_END) start++;
+      while (end > start && wire[end - 1] === SLIP_END) end--;
+      return slipDecode(wire.slice(start, end));
+    }
+    default:
+      return wire;
+  }
+}
+
+export type WirePacket = {
+  start: number; // buffer index of the first byte
+  end: number; // exclusive; -1 while the closing delimiter is still missing
+};
+
+// Next packet at or after `pos`, or null if no packet starts there.
+// Escape framing needs the SOF/EOF values to look for; COBS and SLIP
+// packets simply run up to their delimiter.
+export function findPacket(
+  buf: ArrayLike<number>,
+  pos: number,
+  framing: Exclude<Framing, "raw">,
+  sofs: ReadonlySet<number>,
+  eofs: ReadonlySet<number>
+): WirePacket | null {
+  if (framing === "escape") {
+    let start = pos;
+    while (start < buf.length && !sofs.has(buf[start])) start++;
+    if (start === buf.length) return null;
+    for (let j = start + 1; j < buf.length; j++) {
+      if (buf[j] === ESC) j++;
+      else if (eofs.has(buf[j])) return { start, end: j + 1 };
+      else if (sofs.has(buf[j])) return { start, end: j }; // cut short
+    }
+    return { start, end: -1 };
+  }
+  if (pos >= buf.length) return null;
+  const delimiter = framing === "cobs" ? COBS_DELIMITER : SLIP_END;
+  for (let j = pos; j < buf.length; j++)
+    if (buf[j] === delimiter) return { start: pos, end: j + 1 };
+  return { start: pos, end: -1 };
+}
@@ -0,0 +1,23 @@
+// RED telemetry protocol — framework-agnostic decode/encode.
+// No React in here: the web app, CLI tools and test rigs all import this.
+export * from "./types";
+export * from "./constants";
+export * from "./crc";
+export * from "./bytes";
+export * from "./input";
+export * from "./defs";
+export * from "./schema";
+export * from "./calibration";
+export * from "./profiles";
+export * from "./tlv";
+export * from "./messages";
+export * from "./frame";
+export * from "./framing";
+export * from "./stream";
+export * from "./sequence";
+export * from "./envelope";
+export * from "./capture";
+export * from "./logs";
+export * from "./format";
+export * from "./export";
+export * from "./demo";
@@ -0,0 +1,51 @@
+import { describe, expect, it } from "vitest";
+import { detectInputFormat, parseInput, type InputFormat } from "./input";
+
+const FD_2A_00 = [0xfd, 0x2a, 0x00];
+
+// Paste, the format auto-detection should pick, the bytes it holds
+const PASTES: [string, InputFormat, number[]][] = [
+  ["FD 2A 00", "hex", FD_2A_00],
+  ["fd:2a:00", "hex", FD_2A_00],
+  ["0xFD,0x2A,0x00", "hex", FD_2A_00],
+  ["FD2A00", "hex", FD_2A_00],
+  ["10 20 30", "hex", [0x10, 0x20, 0x30]], // two-digit values stay hex
+  ["uint8_t f[] = {0xFD, 0x2A, 0, '*'};", "c-array", [...FD_2A_00, 0x2a]],
+  ["{(uint8_t)0xFDu, 0b101010, 00}", "c-array", FD_2A_00],
+  ["b'\\xfd*\\x00'", "python", FD_2A_00],
+  ["b'\\xfd' b\"*\" b'\\x00'", "python", FD_2A_00],
+  ["bytearray(b'\\xfd*\\x00')", "python", FD_2A_00],
+  ["br'\\x'", "python", [0x5c, 0x78]], // raw: backslashes kept
+  ["\\xFD\\x2A\\x00", "escaped", FD_2A_00],
+  ['"\\xFD*\\0"', "escaped", FD_2A_00],
+  ["253, 42, 0", "decimal", FD_2A_00],
+  ["[253, 42, 0]", "decimal", FD_2A_00],
+  ["/SoA", "base64", FD_2A_00],
+  ["_SoA", "base64", FD_2A_00], // URL-safe alphabet
+  ["/Soq", "base64", [0xfd, 0x2a, 0x2a]],
+  ["/So", "base64", [0xfd, 0x2a]], // padding left off
+];
+
+describe("parseInput", () => {
+  for (const [text, format, bytes] of PASTES)
+    it(`reads ${JSON.stringify(text)} as ${format}`, () => {
+      expect(detectInputFormat(text)).toBe(format);
+      expect(parseInput(text)).toEqual({ bytes, format });
+    });
+
+  it("uses the given format instead of detecting one", () => {
+    expect(parseInput("10 20", "decimal").bytes).toEqual([10, 20]);
+    expect(parseInput("10 20").bytes).toEqual([0x10, 0x20]);
+  });
+
+  it("falls back to hex and reports what it couldn't read", () => {
+    expect(detectInputFormat("FD G!")).toBe("hex");
+    expect(() => parseInput("FD G!")).toThrow('Unexpected "G" in hex input.');
+  });
+
+  it("rejects values that aren't bytes", () => {
+    expect(() => parseInput("253, 256")).toThrow('"256" is not a byte value');
+    expect(() => parseInput("{0x1FF}")).toThrow("not a byte value");
+    expect(() => parseInput("b'\\q'")).toThrow('Unknown escape "\\q".');
+  });
+});
@@ -0,0 +1,187 @@
+import { hexToBytes } from "./bytes";
+
+// ==========================
+// Pasted input formats
+// ==========================
+// hex      "FD 2A 00", "fd:2a:00", "0xFD,0x2A"
+// c-array  "uint8_t f[] = {0xFD, 0x2A, 0, '*'};"
+// python   b'\xfd*\x00' (several literals concatenate)
+// escaped  "\xFD\x2A\x00", quoted or bare; bare text ignores whitespace
+// decimal  "253, 42, 0" or "[253, 42, 0]"
+// base64   "/SoA" (URL-safe alphabet and missing padding accepted)
+export type InputFormat =
+  | "hex"
+  | "c-array"
+  | "python"
+  | "escaped"
+  | "decimal"
+  | "base64";
+
+export const INPUT_FORMATS: ReadonlyArray<{ id: InputFormat; name: string }> = [
+  { id: "hex", name: "Hex" },
+  { id: "c-array", name: "C array" },
+  { id: "python", name: "Python bytes" },
+  { id: "escaped", name: "Escaped string (\\xFD)" },
+  { id: "decimal", name: "Decimal list" },
+  { id: "base64", name: "Base64" },
+];
+
+const HEX_TEXT = /^(?:\s|[,;:|._-]|\b0x|[0-9a-f])*$/i;
+const DECIMAL_TEXT =
+  /^[[({]?\s*\d{1,3}(?:\s*[,;\s]\s*\d{1,3})*\s*,?\s*[\])}]?$/;
+const BASE64_TEXT = /^[A-Za-z0-9+/_-]+={0,2}$/;
+const PY_LITERAL = /[bB][rR]?('(?:[^'\\]|\\.)*'|"(?:[^"\\]|\\.)*")/g;
+const QUOTED = /'(?:[^'\\]|\\.)*'|"(?:[^"\\]|\\.)*"/g;
+
+// Best guess at what a paste is; hex when nothing fits better
+export function detectInputFormat(text: string): InputFormat {
+  const t = text.trim();
+  if (/^(?:bytearray\(|bytes\()?\s*[bB][rR]?['"]/.test(t)) return "python";
+  if (/\{[^}]*\}/.test(t)) return "c-array";
+  if (/\\(?:x[0-9a-f]|[0-7])/i.test(t)) return "escaped";
+  if (HEX_TEXT.test(t)) {
+    // Plain digits read as hex unless some value isn't two digits wide
+    const tokens = t.split(/[\s,;]+/).filter(Boolean);
+    const decimal =
+      DECIMAL_TEXT.test(t) && tokens.some((tok) => tok.length !== 2);
+    return decimal ? "decimal" : "hex";
+  }
+  if (DECIMAL_TEXT.test(t)) return "decimal";
+  const compact = t.replace(/\s+/g, "");
+  return BASE64_TEXT.test(compact) && compact.length % 4 !== 1
+    ? "base64"
+    : "hex";
+}
+
+const byteOf = (n: number, what: string) => {
+  if (!Number.isInteger(n) || n < 0 || n > 0xff)
+    throw new Error(`${what} is not a byte value (0..255).`);
+  return n;
+};
+
+// Characters of a string literal, with C/Python escapes, as bytes
+function unescape(body: string, raw = false): number[] {
+  const SIMPLE: Record<string, number> = {
+    n: 0x0a,
+    r: 0x0d,
+    t: 0x09,
+    a: 0x07,
+    b: 0x08,
+    f: 0x0c,
+    v: 0x0b,
+    "\\": 0x5c,
+    "?": 0x3f,
+    "'": 0x27,
+    '"': 0x22,
+  };
+  const out: number[] = [];
+  for (let i = 0; i < body.length; i++) {
+    const c = body[i];
+    if (c !== "\\" || raw) {
+      out.push(byteOf(body.charCodeAt(i), `Character "${c}"`));
+      continue;
+    }
+    const e = body[++i] ?? "";
+    if (e === "\n") continue; // line continuation
+    const hex = /^x([0-9a-fA-F]{1,2})/.exec(body.slice(i));
+    const oct = /^[0-7]{1,3}/.exec(body.slice(i));
+    if (hex) {
+      out.push(parseInt(hex[1], 16));
+      i += hex[0].length - 1;
+    } else if (oct) {
+      out.push(byteOf(parseInt(oct[0], 8), `\\${oct[0]}`));
+      i += oct[0].length - 1;
+    } else if (e in SIMPLE) out.push(SIMPLE[e]);
+    else throw new Error(`Unknown escape "\\${e}".`);
+  }
+  return out;
+}
+
+function parseHex(text: string): number[] {
+  const stray = text.replace(/\b0x/gi, "").match(/[^\s,;:|._\-0-9a-f]/i);
+  if (stray) throw new Error(`Unexpected "${stray[0]}" in hex input.`);
+  return hexToBytes(text);
+}
+
+function parseCArray(text: string): number[] {
+  const body = /\{([^}]*)\}/.exec(text)?.[1] ?? text;
+  return body
+    .split(",")
+    .map((el) => el.trim())
+    .filter(Boolean)
+    .map((el) => {
+      // Drop casts and integer suffixes: (uint8_t)0xFDu
+      const v = el.replace(/^\([\w\s]+\)\s*/, "").replace(/[uUlL]+$/, "");
+      const char = /^'(.+)'$/.exec(v);
+      if (char) {
+        const bytes = unescape(char[1]);
+        if (bytes.length === 1) return bytes[0];
+      }
+      const n = /^0x[0-9a-f]+$/i.test(v)
+        ? parseInt(v, 16)
+        : /^0b[01]+$/i.test(v)
+        ? parseInt(v.slice(2), 2)
+        : /^0[0-7]+$/.test(v)
+        ? parseInt(v, 8)
+        : /^\d+$/.test(v)
+        ? Number(v)
+        : NaN;
+      if (Number.isNaN(n)) throw new Error(`Can't read array element "${el}".`);
+      return byteOf(n, `Element "${el}"`);
+    });
+}
+
+function parsePython(text: string): number[] {
+  const literals = [...text.matchAll(PY_LITERAL)];
+  if (!literals.length) throw new Error("No b'…' bytes literal found.");
+  return literals.flatMap((m) =>
+    unescape(m[1].slice(1, -1), /^[bB][rR]/.test(m[0]))
+  );
+}
+
+function parseEscaped(text: string): number[] {
+  const quoted = text.match(QUOTED);
+  return quoted
+    ? quoted.flatMap((q) => unescape(q.slice(1, -1)))
+    : unescape(text.replace(/\s+/g, ""));
+}
+
+function parseDecimal(text: string): number[] {
+  return text
+    .replace(/[[\](){}]/g, "")
+    .split(/[\s,;]+/)
+    .filter(Boolean)
+    .map((tok) => {
+      if (!/^\d+$/.test(tok)) throw new Error(`"${tok}" is not a number.`);
+      return byteOf(Number(tok), `"${tok}"`);
+    });
+}
+
+function parseBase64(text: string): number[] {
+  const compact = text
+    .replace(/\s+/g, "")
+    .replace(/-/g, "+")
+    .replace(/_/g, "/");
+  if (!BASE64_TEXT.test(compact) || compact.length % 4 === 1)
+    throw new Error("Not valid base64.");
+  const padded = compact.padEnd(Math.ceil(compact.length / 4) * 4, "=");
+  return Array.from(atob(padded), (c) => c.charCodeAt(0));
+}
+
+// Pasted text -> bytes. `format` "auto" detects; the format actually used is
+// returned so a UI can show it.
+export function parseInput(
+  text: string,
+  format: InputFormat | "auto" = "auto"
+): { bytes: number[]; format: InputFormat } {
+  const used = format === "auto" ? detectInputFormat(text) : format;
+  const parse = {
+    hex: parseHex,
+    "c-array": parseCArray,
+    python: parsePython,
+    escaped: parseEscaped,
+    decimal: parseDecimal,
+    base64: parseBase64,
+  }[used];
+  return { bytes: parse(text.trim()), format: used };
+}
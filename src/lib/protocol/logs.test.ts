@@ -0,0 +1,129 @@
+import { describe, expect, it } from "vitest";
+import { bytesToHex } from "./bytes";
+import { buildSimulatedFrame } from "./demo";
+import { decodeLogRecords, detectLogFormat, parseLog, parseTime } from "./logs";
+
+const A = bytesToHex(buildSimulatedFrame(1, 100, "BE"));
+const B = bytesToHex(buildSimulatedFrame(2, 200, "BE"), " ");
+
+describe("detectLogFormat", () => {
+  it("tells the formats apart by their first non-blank line", () => {
+    expect(detectLogFormat(`\n{"t": 1, "hex": "${A}"}`)).toBe("jsonl");
+    expect(detectLogFormat(`time,hex\n1,${A}`)).toBe("csv");
+    expect(detectLogFormat(`1\t${A}`)).toBe("csv");
+    expect(detectLogFormat(`[12:00:00.000] ${B}`)).toBe("terminal");
+    expect(detectLogFormat(`[2026-10-19 12:00:00, x] ${B}`)).toBe("terminal");
+    expect(detectLogFormat(`RX: ${B}`)).toBe("terminal");
+  });
+});
+
+describe("parseTime", () => {
+  it("reads epoch seconds, epoch ms, times of day and dates", () => {
+    expect(parseTime("1697700000.25")).toBe(1697700000250);
+    expect(parseTime("1697700000250")).toBe(1697700000250);
+    expect(parseTime("12:34:56.789")).toBe(
+      ((12 * 60 + 34) * 60 + 56) * 1000 + 789
+    );
+    expect(parseTime("2026-10-19T12:00:00Z")).toBe(Date.UTC(2026, 9, 19, 12));
+    expect(parseTime("not a time")).toBeUndefined();
+    expect(parseTime("")).toBeUndefined();
+  });
+
+  it("follows an explicit unit", () => {
+    expect(parseTime("1500", "s")).toBe(1_500_000);
+    expect(parseTime("1500", "ms")).toBe(1500);
+    expect(parseTime("12:00", "s")).toBeUndefined();
+  });
+});
+
+describe("parseLog", () => {
+  it("maps named CSV columns and keeps the rest as metadata", () => {
+    const log = parseLog(
+      `timestamp;rssi;hex\n1697700000;-80;${A}\n1697700001;"-7""5";${A}`,
+      { format: "csv" }
+    );
+    expect(log.columns).toEqual(["timestamp", "rssi", "hex"]);
+    expect([log.time, log.data]).toEqual(["timestamp", "hex"]);
+    expect(log.records.map((r) => [r.line, r.time, r.meta])).toEqual([
+      [2, 1697700000000, { rssi: "-80" }],
+      [3, 1697700001000, { rssi: '-7"5' }],
+    ]);
+    expect(bytesToHex(log.records[0].bytes)).toBe(A);
+  });
+
+  it("guesses the columns of a CSV without a header row", () => {
+    const log = parseLog(`1697700000.5,A,${A}\n1697700001.5,B,${A}\n`, {
+      format: "csv",
+    });
+    expect([log.time, log.data]).toEqual(["column 1", "column 3"]);
+    expect(log.records.map((r) => [r.time, r.meta])).toEqual([
+      [1697700000500, { "column 2": "A" }],
+      [1697700001500, { "column 2": "B" }],
+    ]);
+  });
+
+  it("counts CSV rows without hex as skipped", () => {
+    const log = parseLog(`time,hex\n1,${A}\n2,n/a`, { format: "csv" });
+    expect(log.records).toHaveLength(1);
+    expect(log.skipped).toBe(1);
+    expect(log.errors).toEqual([`line 3: no hex in "hex"`]);
+  });
+
+  it("reads JSON lines holding hex strings or byte arrays", () => {
+    const log = parseLog(
+      [
+        `{"t": 1697700000.5, "hex": "${A}", "radio": "A"}`,
+        `{"t": 1697700001, "hex": [253, 0], "snr": 7.5}`,
+        `not json`,
+        `{"t": 3}`,
+      ].join("\n"),
+      { format: "jsonl" }
+    );
+    expect([log.time, log.data]).toEqual(["t", "hex"]);
+    expect(log.records.map((r) => [r.line, r.time, r.meta])).toEqual([
+      [1, 1697700000500, { radio: "A" }],
+      [2, 1697700001000, { snr: "7.5" }],
+    ]);
+    expect(log.records[1].bytes).toEqual([253, 0]);
+    expect(log.skipped).toBe(2);
+    expect(log.errors).toHaveLength(2);
+  });
+
+  it("reads received terminal lines and skips TX echo and banners", () => {
+    const log = parseLog(
+      [
+        "Serial monitor ready",
+        `[12:00:00.500] ${B}`,
+        `12:00:01.000 -> ${B}`,
+        `TX: ${B}`,
+        `RX: ${B}`,
+      ].join("\n"),
+      { format: "terminal" }
+    );
+    expect(log.records.map((r) => [r.line, r.time])).toEqual([
+      [2, 43_200_500],
+      [3, 43_201_000],
+      [5, undefined],
+    ]);
+    expect(log.skipped).toBe(2);
+    expect(log.errors).toEqual([]);
+  });
+});
+
+describe("decodeLogRecords", () => {
+  it("stamps a frame split across lines with the line that completed it", async () => {
+    const frame = buildSimulatedFrame(3, 300, "BE");
+    const log = parseLog(
+      [
+        `1,${bytesToHex(frame.slice(0, 10))},A`,
+        `2,${bytesToHex(frame.slice(10))},B`,
+      ].join("\n"),
+      { format: "csv", time: "column 1", data: "column 2" }
+    );
+    const { frames, discarded } = await decodeLogRecords(log.records);
+    expect(discarded).toEqual([]);
+    expect(frames.map((f) => [f.sequence, f.rxTime, f.rxMeta])).toEqual([
+      [3, 2000, { "column 3": "B" }],
+    ]);
+  });
+});
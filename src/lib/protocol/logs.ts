@@ -0,0 +1,318 @@
+import { hexToBytes } from "./bytes";
+import { createStreamDecoder, type StreamResult } from "./stream";
+import type { DecodeOptions, DecodedFrame } from "./types";
+
+// ==========================
+// Line-oriented capture logs
+// ==========================
+// csv       timestamp,hex[,rssi,...] with or without a header row; "," ";"
+//           or tab separated
+// jsonl     {"t": 1697700000.12, "hex": "FD21...", "radio": "A"} per line
+// terminal  serial-monitor output: "[2026-10-19 12:34:56.789] FD 21 ...",
+//           "12:34:56.789 -> FD 21 ...", "RX: FD 21 ..." (TX lines skipped)
+// Each line's bytes go to the stream decoder in order, so frames may span
+// lines; a frame takes the receive time and extra fields of the line that
+// completed it.
+
+export type LogFormat = "csv" | "jsonl" | "terminal";
+
+// "auto": numbers above 1e11 are epoch ms, other numbers seconds; text is a
+// date/time or a time of day
+export type TimeUnit = "auto" | "s" | "ms" | "iso";
+
+export type LogOptions = {
+  format: LogFormat;
+  time?: string; // column name / JSON key; undefined = guess, "" = none
+  data?: string; // column holding the hex; undefined = guess
+  timeUnit?: TimeUnit;
+};
+
+export type LogRecord = {
+  line: number; // 1-based
+  time?: number; // see DecodedFrame.rxTime
+  bytes: number[];
+  meta: Record<string, string>; // the line's other fields
+};
+
+export type LogImport = {
+  records: LogRecord[];
+  columns: string[]; // what time/data can map to
+  time?: string; // mapping actually used
+  data?: string;
+  skipped: number; // lines without frame data
+  errors: string[]; // first few unreadable lines
+};
+
+export const LOG_FORMATS: ReadonlyArray<{ id: LogFormat; name: string }> = [
+  { id: "csv", name: "CSV" },
+  { id: "jsonl", name: "JSON lines" },
+  { id: "terminal", name: "Serial terminal" },
+];
+
+const MAX_ERRORS = 20;
+const TIME_KEYS = /^(t|time|timestamp|ts|rx_?time|received)$/i;
+const DATA_KEYS = /^(hex|data|frame|raw|bytes|payload)$/i;
+const HEX_FIELD = /^\s*(?:(?:0x)?[0-9a-f]{2}[\s,:]*)+$/i;
+const TIME_OF_DAY = /^(\d{1,2}):(\d{2}):(\d{2})(?:[.,](\d{1,6}))?$/;
+
+const lines = (text: string) => text.split(/\r?\n/);
+
+export function detectLogFormat(text: string): LogFormat {
+  const first = lines(text).find((l) => l.trim()) ?? "";
+  if (first.trim().startsWith("{")) return "jsonl";
+  return /[,;\t]/.test(first) && !/^\s*\[/.test(first) ? "csv" : "terminal";
+}
+
+// Milliseconds: since the Unix epoch, or since midnight for time-of-day
+// stamps that carry no date. undefined if unreadable.
+export function parseTime(
+  v: string,
+  unit: TimeUnit = "auto"
+): number | undefined {
+  const text = v.trim();
+  if (!text) return undefined;
+  const n = Number(text);
+  if (unit === "s") return Number.isFinite(n) ? n * 1000 : undefined;
+  if (unit === "ms") return Number.isFinite(n) ? n : undefined;
+  if (unit === "auto" && Number.isFinite(n)) return n > 1e11 ? n : n * 1000;
+  const tod = TIME_OF_DAY.exec(text);
+  if (tod) {
+    const [, h, m, s, frac = "0"] = tod;
+    return ((+h * 60 + +m) * 60 + +s) * 1000 + Number(`0.${frac}`) * 1000;
+  }
+  const ms = Date.parse(text);
+  return Number.isNaN(ms) ? undefined : ms;
+}
+
+// ==========================
+// CSV
+// ==========================
+
+// One CSV row; double quotes may wrap fields and "" escapes a quote
+function splitRow(line: string, sep: string): string[] {
+  const out: string[] = [];
+  let cur = "";
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const c = line[i];
+    if (quoted) {
+      if (c === '"' && line[i + 1] === '"') cur += line[i++];
+      else if (c === '"') quoted = false;
+      else cur += c;
+    } else if (c === '"') quoted = true;
+    else if (c === sep) {
+      out.push(cur.trim());
+      cur = "";
+    } else cur += c;
+  }
+  out.push(cur.trim());
+  return out;
+}
+
+function guessSeparator(line: string) {
+  const counts = [",", ";", "\t"].map(
+    (sep) => [sep, line.split(sep).length] as const
+  );
+  return counts.reduce((a, b) => (b[1] > a[1] ? b : a))[0];
+}
+
+// A header row names its columns; data rows hold numbers, dates and hex
+const isHeader = (cells: string[]) =>
+  cells.every((c) => parseTime(c) === undefined && !HEX_FIELD.test(c));
+
+function parseCsv(text: string, opts: LogOptions): LogImport {
+  const rows = lines(text)
+    .map((l, i) => ({ line: i + 1, text: l }))
+    .filter((r) => r.text.trim());
+  if (!rows.length) return { records: [], columns: [], skipped: 0, errors: [] };
+  const sep = guessSeparator(rows[0].text);
+  const first = splitRow(rows[0].text, sep);
+  const header = isHeader(first);
+  const columns = header ? first : first.map((_, i) => `column ${i + 1}`);
+  const body = header ? rows.slice(1) : rows;
+  const sample = body.slice(0, 20).map((r) => splitRow(r.text, sep));
+
+  // A named column wins; otherwise the widest column whose sample values
+  // all fit (frames are longer than the digits of a timestamp)
+  const guess = (key: RegExp, fits: (v: string) => boolean, not?: string) => {
+    const named = columns.find((c) => key.test(c));
+    if (named) return named;
+    const width = (i: number) =>
+      sample.reduce((acc, r) => acc + (r[i] ?? "").length, 0);
+    return columns
+      .map((c, i) => ({ c, i }))
+      .filter(({ c, i }) => c !== not && sample.every((r) => fits(r[i] ?? "")))
+      .sort((a, b) => width(b.i) - width(a.i))[0]?.c;
+  };
+  const data =
+    opts.data ??
+    guess(DATA_KEYS, (v) => HEX_FIELD.test(v)) ??
+    columns[columns.length - 1];
+  const time =
+    opts.time ??
+    guess(TIME_KEYS, (v) => parseTime(v, opts.timeUnit) !== undefined, data);
+  const dataIdx = columns.indexOf(data);
+  const timeIdx = time ? columns.indexOf(time) : -1; // "" = no time column
+
+  const records: LogRecord[] = [];
+  const errors: string[] = [];
+  let skipped = 0;
+  for (const r of body) {
+    const cells = splitRow(r.text, sep);
+    const hex = cells[dataIdx] ?? "";
+    if (!HEX_FIELD.test(hex)) {
+      skipped++;
+      if (errors.length < MAX_ERRORS)
+        errors.push(`line ${r.line}: no hex in "${data}"`);
+      continue;
+    }
+    const meta: Record<string, string> = {};
+    cells.forEach((c, i) => {
+      if (i !== dataIdx && i !== timeIdx && c)
+        meta[columns[i] ?? `column ${i + 1}`] = c;
+    });
+    records.push({
+      line: r.line,
+      time:
+        timeIdx >= 0
+          ? parseTime(cells[timeIdx] ?? "", opts.timeUnit)
+          : undefined,
+      bytes: hexToBytes(hex),
+      meta,
+    });
+  }
+  return { records, columns, time, data, skipped, errors };
+}
+
+// ==========================
+// JSON lines
+// ==========================
+
+function parseJsonl(text: string, opts: LogOptions): LogImport {
+  const parsed: Array<{ line: number; obj: Record<string, unknown> }> = [];
+  const errors: string[] = [];
+  let skipped = 0;
+  lines(text).forEach((l, i) => {
+    if (!l.trim()) return;
+    try {
+      const obj: unknown = JSON.parse(l);
+      if (typeof obj !== "object" || obj === null || Array.isArray(obj))
+        throw new Error("not an object");
+      parsed.push({ line: i + 1, obj: obj as Record<string, unknown> });
+    } catch (e) {
+      skipped++;
+      if (errors.length < MAX_ERRORS)
+        errors.push(`line ${i + 1}: ${e instanceof Error ? e.message : e}`);
+    }
+  });
+
+  const columns = [
+    ...new Set(parsed.slice(0, 100).flatMap((p) => Object.keys(p.obj))),
+  ];
+  const data = opts.data ?? columns.find((c) => DATA_KEYS.test(c)) ?? "hex";
+  const time = opts.time ?? columns.find((c) => TIME_KEYS.test(c));
+
+  const records: LogRecord[] = [];
+  for (const { line, obj } of parsed) {
+    const v = obj[data];
+    const bytes =
+      typeof v === "string" && HEX_FIELD.test(v)
+        ? hexToBytes(v)
+        : Array.isArray(v) &&
+          v.every((b) => Number.isInteger(b) && b >= 0 && b <= 0xff)
+        ? (v as number[])
+        : null;
+    if (!bytes) {
+      skipped++;
+      if (errors.length < MAX_ERRORS)
+        errors.push(`line ${line}: no hex string or byte array in "${data}"`);
+      continue;
+    }
+    const meta: Record<string, string> = {};
+    for (const [k, val] of Object.entries(obj))
+      if (k !== data && k !== time)
+        meta[k] = typeof val === "string" ? val : JSON.stringify(val);
+    const t = time ? obj[time] : undefined;
+    records.push({
+      line,
+      time:
+        typeof t === "number" || typeof t === "string"
+          ? parseTime(String(t), opts.timeUnit)
+          : undefined,
+      bytes,
+      meta,
+    });
+  }
+  return { records, columns, time, data, skipped, errors };
+}
+
+// ==========================
+// Serial terminal logs
+// ==========================
+const TERMINAL_LINE =
+  /^\s*(?:\[([^\]]+)\]|(\d{4}-\d{2}-\d{2}[T ][\d:.,]+Z?|\d{1,2}:\d{2}:\d{2}(?:[.,]\d+)?))?\s*(?:(RX|TX|->|<-|>>|<<)\s*:?\s*)?(.*)$/i;
+
+function parseTerminal(text: string, opts: LogOptions): LogImport {
+  const records: LogRecord[] = [];
+  let skipped = 0;
+  lines(text).forEach((l, i) => {
+    if (!l.trim()) return;
+    const [, bracketed, bare, dir = "", rest] = TERMINAL_LINE.exec(l) ?? [];
+    // "->" is the Arduino monitor's device output, i.e. received
+    if (/^(tx|<-|>>)$/i.test(dir) || !HEX_FIELD.test(rest ?? "")) {
+      skipped++;
+      return;
+    }
+    const stamp = bracketed ?? bare;
+    records.push({
+      line: i + 1,
+      time: stamp ? parseTime(stamp, opts.timeUnit) : undefined,
+      bytes: hexToBytes(rest),
+      meta: {},
+    });
+  });
+  // Banners, prompts and TX echo are normal in a terminal log: not errors
+  return { records, columns: [], skipped, errors: [] };
+}
+
+export function parseLog(text: string, opts: LogOptions): LogImport {
+  switch (opts.format) {
+    case "csv":
+      return parseCsv(text, opts);
+    case "jsonl":
+      return parseJsonl(text, opts);
+    case "terminal":
+      return parseTerminal(text, opts);
+  }
+}
+
+// Decode log records in order, stamping each frame with the receive time
+// and fields of the record that completed it. Yields like
+// decodeStreamChunked; offsets count frame bytes, not log text.
+export async function decodeLogRecords(
+  records: ReadonlyArray<LogRecord>,
+  opts: DecodeOptions = {},
+  onProgress?: (done: number) => void,
+  signal?: AbortSignal,
+  batch = 2000
+): Promise<StreamResult> {
+  const decoder = createStreamDecoder(opts);
+  const result: StreamResult = { frames: [], discarded: [] };
+  const keep = ({ frames, discarded }: StreamResult, rec?: LogRecord) => {
+    const stamp = (f: DecodedFrame): DecodedFrame =>
+      rec ? { ...f, rxTime: rec.time, rxMeta: rec.meta } : f;
+    result.frames.push(...frames.map(stamp));
+    result.discarded.push(...discarded);
+  };
+  for (let i = 0; i < records.length; i++) {
+    keep(decoder.push(records[i].bytes), records[i]);
+    if ((i + 1) % batch === 0) {
+      onProgress?.(i + 1);
+      await new Promise((resolve) => setTimeout(resolve, 0));
+      signal?.throwIfAborted();
+    }
+  }
+  keep(decoder.flush(), records[records.length - 1]);
+  onProgress?.(records.length);
+  return result;
+}
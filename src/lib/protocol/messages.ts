@@ -0,0 +1,121 @@
+import {
+  encodeUInt16,
+  encodeUnsigned,
+  hex2,
+  hex4,
+  readUint16,
+  readUnsigned,
+} from "./bytes";
+import { EVENT_KIND_CODE, EVENT_KIND_TEXT } from "./constants";
+import { ACK_RESULTS, EVENT_SEVERITIES } from "./defs";
+import { findCommand } from "./schema";
+import type {
+  AckSpec,
+  DecodedAck,
+  DecodedEvent,
+  Endian,
+  EventSpec,
+  ProtocolSchema,
+} from "./types";
+
+// ==========================
+// Ack and event/log frames
+// ==========================
+// Ack:   [AckedSeq (sequence width/order of the frame)][CmdID][Result]
+// Event: [Severity][Kind][UTF-8 text...] or [Severity][Kind][Code 2B]
+
+export const ackLength = (sequenceBytes: number) => sequenceBytes + 2;
+
+export const findEvent = (schema: ProtocolSchema, code: number) =>
+  schema.events?.find((e) => e.id === code);
+
+export function decodeAck(
+  payload: number[],
+  sequenceBytes: number,
+  sequenceEndian: Endian,
+  schema: ProtocolSchema
+): DecodedAck | null {
+  if (payload.length < ackLength(sequenceBytes)) return null;
+  const commandId = payload[sequenceBytes];
+  const result = payload[sequenceBytes + 1];
+  return {
+    sequence: readUnsigned(payload.slice(0, sequenceBytes), sequenceEndian),
+    commandId,
+    commandName:
+      findCommand(schema, commandId)?.key ?? `UNKNOWN(0x${hex2(commandId)})`,
+    result,
+    resultName: ACK_RESULTS[result] ?? `UNKNOWN(${result})`,
+    accepted: result === 0,
+  };
+}
+
+// null when the payload is too short or the Kind byte is unknown
+export function decodeEvent(
+  payload: number[],
+  valueEndian: Endian,
+  schema: ProtocolSchema
+): DecodedEvent | null {
+  if (payload.length < 2) return null;
+  const [severity, kind] = payload;
+  const severityName = EVENT_SEVERITIES[severity] ?? `UNKNOWN(${severity})`;
+  if (kind === EVENT_KIND_TEXT)
+    return {
+      severity,
+      severityName,
+      text: new TextDecoder()
+        .decode(new Uint8Array(payload.slice(2)))
+        .replace(/\0+$/, ""),
+    };
+  if (kind === EVENT_KIND_CODE && payload.length >= 4) {
+    const code = readUint16(payload.slice(2, 4), valueEndian);
+    return {
+      severity,
+      severityName,
+      code,
+      codeName: findEvent(schema, code)?.key ?? `0x${hex4(code)}`,
+    };
+  }
+  return null;
+}
+
+const isByte = (n: number) => Number.isInteger(n) && n >= 0 && n <= 0xff;
+
+// Ack payload, or an error message
+export function encodeAck(
+  spec: AckSpec,
+  sequenceBytes: number,
+  sequenceEndian: Endian
+): number[] | string {
+  const maxSeq = 2 ** (8 * sequenceBytes) - 1;
+  if (!Number.isInteger(spec.sequence) || spec.sequence < 0)
+    return "Acked sequence must be a non-negative integer.";
+  if (spec.sequence > maxSeq) return `Acked sequence must be 0..${maxSeq}.`;
+  if (!isByte(spec.commandId)) return "Command ID must be a byte.";
+  if (!isByte(spec.result)) return "Result code must be a byte.";
+  return [
+    ...encodeUnsigned(spec.sequence, sequenceBytes, sequenceEndian),
+    spec.commandId,
+    spec.result,
+  ];
+}
+
+// Event payload, or an error message
+export function encodeEvent(
+  spec: EventSpec,
+  valueEndian: Endian
+): number[] | string {
+  if (!isByte(spec.severity)) return "Severity must be a byte.";
+  if ("text" in spec)
+    return [
+      spec.severity,
+      EVENT_KIND_TEXT,
+      ...new TextEncoder().encode(spec.text),
+    ];
+  if (!Number.isInteger(spec.code) || spec.code < 0 || spec.code > 0xffff)
+    return "Event code must be 0..65535.";
+  return [
+    spec.severity,
+    EVENT_KIND_CODE,
+    ...encodeUInt16(spec.code, valueEndian),
+  ];
+}
@@ -0,0 +1,47 @@
+import { EOF_TYPO, EOF_V11, SOF } from "./constants";
+import { CRC16_MODBUS, crcBytes } from "./crc";
+import { DEFAULT_SCHEMA, V1_0_SCHEMA } from "./defs";
+import type { ProtocolProfile } from "./types";
+
+// ==========================
+// Protocol versions
+// ==========================
+export const PROFILE_V1_1: ProtocolProfile = {
+  id: "v1.1",
+  name: "RED v1.1",
+  sof: SOF,
+  eof: EOF_V11,
+  eofCompat: [EOF_TYPO], // typo seen in one v1.1 table
+  sequenceBytes: 2,
+  crc: CRC16_MODBUS,
+  crcFromLength: false,
+  crcEndian: "BE",
+  schema: DEFAULT_SCHEMA,
+};
+
+export const PROFILE_V1_0: ProtocolProfile = {
+  id: "v1.0",
+  name: "RED v1.0",
+  sof: SOF,
+  eof: EOF_TYPO,
+  eofCompat: [],
+  sequenceBytes: 2,
+  crc: CRC16_MODBUS,
+  crcFromLength: false,
+  crcEndian: "BE",
+  schema: V1_0_SCHEMA,
+};
+
+// Newest first: auto-detection prefers earlier entries on a tie
+export const PROFILES: ReadonlyArray<ProtocolProfile> = [
+  PROFILE_V1_1,
+  PROFILE_V1_0,
+];
+
+export const DEFAULT_PROFILE = PROFILE_V1_1;
+
+export const findProfile = (id: string) => PROFILES.find((p) => p.id === id);
+
+// Header + Sequence + CRC (empty payload)
+export const minTotalLength = (profile: ProtocolProfile) =>
+  1 + profile.sequenceBytes + crcBytes(profile.crc);
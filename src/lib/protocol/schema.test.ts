@@ -0,0 +1,31 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_SCHEMA } from "./defs";
+import { parseSchema, schemaToJSON } from "./schema";
+
+const arg = (fields: Record<string, unknown>) => ({
+  args: [{ id: "0x70", key: "test", ...fields }],
+});
+
+describe("parseSchema", () => {
+  it("reads back what schemaToJSON writes", () => {
+    const again = parseSchema(JSON.parse(schemaToJSON(DEFAULT_SCHEMA)));
+    expect(again.args).toEqual(DEFAULT_SCHEMA.args);
+  });
+
+  it("rejects types that are only inherited object keys", () => {
+    for (const type of ["toString", "constructor", "__proto__"])
+      expect(() => parseSchema(arg({ type }))).toThrow(
+        /^args\[0\]\.type: expected one of/
+      );
+    expect(() =>
+      parseSchema(arg({ type: "array", bytes: 4, element: "hasOwnProperty" }))
+    ).toThrow(/^args\[0\]\.element: expected one of/);
+  });
+
+  it("accepts the catalogue's own types", () => {
+    const schema = parseSchema(
+      arg({ type: "array", bytes: 4, element: "uint16" })
+    );
+    expect(schema.args[0]).toMatchObject({ type: "array", element: "uint16" });
+  });
+});
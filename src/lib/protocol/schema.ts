@@ -0,0 +1,352 @@
+import { hex2, hex4 } from "./bytes";
+import { CommandDefs } from "./defs";
+import type {
+  ArgDef,
+  ArgType,
+  Calibration,
+  CalibrationEntry,
+  CalibrationSet,
+  CommandArgDef,
+  CommandDef,
+  Endian,
+  EventDef,
+  ProtocolSchema,
+  ScalarType,
+} from "./types";
+
+// Wire size per type; enum/bitfield may be 1, 2 or 4 bytes wide.
+// Length-prefixed types take any maximum up to what one Len byte can say.
+const ANY_LENGTH = Array.from({ length: 255 }, (_, i) => 255 - i);
+export const ARG_TYPE_SIZES: Record<ArgType, number[]> = {
+  uint8: [1],
+  uint16: [2],
+  uint32: [4],
+  int16: [2],
+  float: [4],
+  enum: [1, 2, 4],
+  bitfield: [1, 2, 4],
+  string: ANY_LENGTH,
+  bytes: ANY_LENGTH,
+  array: ANY_LENGTH,
+};
+
+export const SCALAR_SIZES: Record<ScalarType, number> = {
+  uint8: 1,
+  uint16: 2,
+  uint32: 4,
+  int16: 2,
+  float: 4,
+};
+
+export const isLengthPrefixed = (def: CommandArgDef) =>
+  def.type === "string" || def.type === "bytes" || def.type === "array";
+
+export const findArg = (schema: ProtocolSchema, id: number) =>
+  schema.args.find((d) => d.id === id);
+export const findCommand = (schema: ProtocolSchema, id: number) =>
+  schema.commands.find((c) => c.id === id);
+
+// ==========================
+// JSON schema files
+// ==========================
+// {
+//   "name": "RED v1.2 branch",
+//   "args": [{ "id": "0x25", "key": "chamber_pressure", "type": "uint16",
+//              "cal": { "kind": "linear", "scale": 0.1 }, "unit": "bar",
+//              "digits": 1 }, ...],
+//   "commands": [{ "id": "0x70", "key": "LAUNCH" }, ...]   // optional
+// }
+// Commands may list positional "args" shaped like ArgIDs minus the "id":
+// { "id": "0x82", "key": "SET_AIR_BRAKES",
+//   "args": [{ "key": "deployment", "type": "uint8", "min": 0, "max": 100 }] }
+// Optional "events": [{ "id": "0x0010", "key": "APOGEE" }] names the 16-bit
+// codes of event/log frames.
+// IDs may be numbers or "0x.." strings. `bytes` defaults from `type`.
+// Length-prefixed fields: { "id": "0x30", "key": "log", "type": "string" }
+// or { ..., "type": "array", "element": "float", "bytes": 48 } where
+// `bytes` is the maximum value length.
+// "cal" is one of
+//   { "kind": "linear", "scale": 0.1, "offset": -40 }     raw × scale + offset
+//   { "kind": "poly", "coeffs": [c0, c1, c2] }            c0 + c1·raw + c2·raw²
+//   { "kind": "table", "points": [[raw, eng], ...] }      interpolated
+// and a bare "scale": 0.1 is still read as a linear calibration.
+
+type Json = Record<string, unknown>;
+
+const isObject = (v: unknown): v is Json =>
+  typeof v === "object" && v !== null && !Array.isArray(v);
+
+function parseId(v: unknown, path: string, max = 0xff): number {
+  const n =
+    typeof v === "string" && /^0x[0-9a-f]+$/i.test(v.trim())
+      ? parseInt(v.trim().slice(2), 16)
+      : v;
+  if (typeof n !== "number" || !Number.isInteger(n) || n < 0 || n > max)
+    throw new Error(
+      `${path}: expected ${
+        max === 0xff ? "a byte" : "an integer"
+      } (0..${max} or "0x.."), got ${JSON.stringify(v)}`
+    );
+  return n;
+}
+
+function optional<T>(
+  obj: Json,
+  key: string,
+  path: string,
+  check: (v: unknown) => v is T,
+  expected: string
+): T | undefined {
+  const v = obj[key];
+  if (v === undefined) return undefined;
+  if (!check(v)) throw new Error(`${path}.${key}: expected ${expected}`);
+  return v;
+}
+
+const isString = (v: unknown): v is string => typeof v === "string";
+const isNumber = (v: unknown): v is number =>
+  typeof v === "number" && Number.isFinite(v);
+const isStringArray = (v: unknown): v is string[] =>
+  Array.isArray(v) && v.every(isString);
+const isEndian = (v: unknown): v is Endian => v === "LE" || v === "BE";
+const isArgType = (v: unknown): v is ArgType =>
+  typeof v === "string" && Object.hasOwn(ARG_TYPE_SIZES, v);
+const isScalarType = (v: unknown): v is ScalarType =>
+  typeof v === "string" && Object.hasOwn(SCALAR_SIZES, v);
+
+function parseArg(v: unknown, path: string): ArgDef {
+  if (!isObject(v)) throw new Error(`${path}: expected an object`);
+  return { id: parseId(v.id, `${path}.id`), ...parseValueDef(v, path) };
+}
+
+// Everything about a value except its ArgID; shared with command arguments
+function parseValueDef(v: Json, path: string): CommandArgDef {
+  const key = v.key;
+  if (typeof key !== "string" || !key.trim())
+    throw new Error(`${path}.key: expected a non-empty string`);
+  if (!isArgType(v.type))
+    throw new Error(
+      `${path}.type: expected one of ${Object.keys(ARG_TYPE_SIZES).join(", ")}`
+    );
+  const type = v.type;
+  const sizes = ARG_TYPE_SIZES[type];
+  const bytes = v.bytes ?? sizes[0];
+  if (typeof bytes !== "number" || !sizes.includes(bytes))
+    throw new Error(
+      sizes === ANY_LENGTH
+        ? `${path}.bytes: ${type} maximum must be 1..255`
+        : `${path}.bytes: ${type} must be ${sizes.join(" or ")} byte(s)`
+    );
+  const element = optional(
+    v,
+    "element",
+    path,
+    isScalarType,
+    `one of ${Object.keys(SCALAR_SIZES).join(", ")}`
+  );
+  if (type === "array" && !element)
+    throw new Error(`${path}.element: required for arrays`);
+  const scale = optional(v, "scale", path, isNumber, "a number");
+  const cal =
+    v.cal !== undefined
+      ? parseCalibration(v.cal, `${path}.cal`)
+      : scale !== undefined
+      ? parseCalibration({ kind: "linear", scale }, path)
+      : undefined;
+
+  return {
+    key: key.trim(),
+    bytes,
+    type,
+    element,
+    note: optional(v, "note", path, isString, "a string") ?? "",
+    endian: optional(v, "endian", path, isEndian, '"LE" or "BE"'),
+    cal,
+    unit: optional(v, "unit", path, isString, "a string"),
+    digits: optional(v, "digits", path, isNumber, "a number"),
+    labels: optional(v, "labels", path, isStringArray, "an array of strings"),
+    bits: optional(v, "bits", path, isStringArray, "an array of strings"),
+    min: optional(v, "min", path, isNumber, "a number"),
+    max: optional(v, "max", path, isNumber, "a number"),
+    example: optional(v, "example", path, isString, "a string"),
+  };
+}
+
+const isPoint = (v: unknown): v is [number, number] =>
+  Array.isArray(v) && v.length === 2 && v.every(isNumber);
+
+function parseCalibration(v: unknown, path: string): Calibration {
+  if (!isObject(v)) throw new Error(`${path}: expected an object`);
+  switch (v.kind) {
+    case "linear": {
+      const scale = v.scale;
+      if (!isNumber(scale) || scale === 0)
+        throw new Error(`${path}.scale: expected a non-zero number`);
+      const offset = optional(v, "offset", path, isNumber, "a number");
+      return { kind: "linear", scale, offset };
+    }
+    case "poly": {
+      const coeffs = v.coeffs;
+      if (!Array.isArray(coeffs) || !coeffs.length || !coeffs.every(isNumber))
+        throw new Error(
+          `${path}.coeffs: expected a non-empty array of numbers`
+        );
+      return { kind: "poly", coeffs };
+    }
+    case "table": {
+      const points = v.points;
+      if (!Array.isArray(points) || points.length < 2 || !points.every(isPoint))
+        throw new Error(
+          `${path}.points: expected at least two [raw, engineering] pairs`
+        );
+      const sorted = [...points].sort((a, b) => a[0] - b[0]);
+      if (sorted.some((p, i) => i > 0 && p[0] === sorted[i - 1][0]))
+        throw new Error(`${path}.points: duplicate raw value`);
+      return { kind: "table", points: sorted };
+    }
+    default:
+      throw new Error(`${path}.kind: expected "linear", "poly" or "table"`);
+  }
+}
+
+function parseCommand(v: unknown, path: string): CommandDef {
+  if (!isObject(v)) throw new Error(`${path}: expected an object`);
+  const key = v.key;
+  if (typeof key !== "string" || !key.trim())
+    throw new Error(`${path}.key: expected a non-empty string`);
+  const args = v.args;
+  if (args !== undefined && !Array.isArray(args))
+    throw new Error(`${path}.args: expected an array`);
+  return {
+    id: parseId(v.id, `${path}.id`),
+    key: key.trim(),
+    note: optional(v, "note", path, isString, "a string"),
+    args: args?.map((a, i) => {
+      if (!isObject(a))
+        throw new Error(`${path}.args[${i}]: expected an object`);
+      return parseValueDef(a, `${path}.args[${i}]`);
+    }),
+  };
+}
+
+function parseEvent(v: unknown, path: string): EventDef {
+  if (!isObject(v)) throw new Error(`${path}: expected an object`);
+  const key = v.key;
+  if (typeof key !== "string" || !key.trim())
+    throw new Error(`${path}.key: expected a non-empty string`);
+  return {
+    id: parseId(v.id, `${path}.id`, 0xffff),
+    key: key.trim(),
+    note: optional(v, "note", path, isString, "a string"),
+  };
+}
+
+function assertUnique<T extends { id: number; key: string }>(
+  items: ReadonlyArray<T>,
+  what: string
+) {
+  const ids = new Set<number>();
+  const keys = new Set<string>();
+  for (const it of items) {
+    if (ids.has(it.id))
+      throw new Error(`Duplicate ${what} ID 0x${hex2(it.id)}`);
+    if (keys.has(it.key)) throw new Error(`Duplicate ${what} key "${it.key}"`);
+    ids.add(it.id);
+    keys.add(it.key);
+  }
+}
+
+// Validate an already JSON.parse'd schema file. Throws with a path to the
+// offending field so the UI can point at it.
+export function parseSchema(input: unknown): ProtocolSchema {
+  if (!isObject(input)) throw new Error("Schema must be a JSON object.");
+  if (!Array.isArray(input.args))
+    throw new Error('Schema needs an "args" array.');
+  const args = input.args.map((a, i) => parseArg(a, `args[${i}]`));
+  const commands =
+    input.commands === undefined
+      ? CommandDefs
+      : Array.isArray(input.commands)
+      ? input.commands.map((c, i) => parseCommand(c, `commands[${i}]`))
+      : null;
+  if (!commands) throw new Error('"commands" must be an array when given.');
+  if (input.events !== undefined && !Array.isArray(input.events))
+    throw new Error('"events" must be an array when given.');
+  const events = input.events?.map((e, i) => parseEvent(e, `events[${i}]`));
+  assertUnique(args, "ArgID");
+  assertUnique(commands, "command");
+  if (events) assertUnique(events, "event");
+  return {
+    name: typeof input.name === "string" && input.name ? input.name : "custom",
+    args,
+    commands,
+    events,
+  };
+}
+
+// Inverse of parseSchema — a template users can edit for a branch firmware
+export function schemaToJSON(schema: ProtocolSchema): string {
+  const id = (n: number) => `0x${hex2(n)}`;
+  return JSON.stringify(
+    {
+      name: schema.name,
+      args: schema.args.map((a) => ({ ...a, id: id(a.id) })),
+      commands: schema.commands.map((c) => ({ ...c, id: id(c.id) })),
+      events: schema.events?.map((e) => ({ ...e, id: `0x${hex4(e.id)}` })),
+    },
+    null,
+    2
+  );
+}
+
+// ==========================
+// Calibration set files
+// ==========================
+// {
+//   "name": "PT-4471 characterised 2026-10",
+//   "args": {
+//     "oxidizer_pressure": { "kind": "poly", "coeffs": [-0.4, 0.1021],
+//                            "unit": "bar", "digits": 2 }
+//   }
+// }
+// Keys are ArgID keys; each entry is a "cal" object as in schema files plus
+// optional "unit" and "digits".
+
+export function parseCalibrationSet(input: unknown): CalibrationSet {
+  if (!isObject(input))
+    throw new Error("Calibration set must be a JSON object.");
+  if (!isObject(input.args))
+    throw new Error(
+      'Calibration set needs an "args" object keyed by ArgID key.'
+    );
+  const args: Record<string, CalibrationEntry> = {};
+  for (const [key, v] of Object.entries(input.args)) {
+    const path = `args.${key}`;
+    if (!isObject(v)) throw new Error(`${path}: expected an object`);
+    args[key] = {
+      cal: parseCalibration(v, path),
+      unit: optional(v, "unit", path, isString, "a string"),
+      digits: optional(v, "digits", path, isNumber, "a number"),
+    };
+  }
+  return {
+    name: typeof input.name === "string" && input.name ? input.name : "custom",
+    args,
+  };
+}
+
+export function calibrationSetToJSON(set: CalibrationSet): string {
+  return JSON.stringify(
+    {
+      name: set.name,
+      args: Object.fromEntries(
+        Object.entries(set.args).map(([key, e]) => [
+          key,
+          { ...e.cal, unit: e.unit, digits: e.digits },
+        ])
+      ),
+    },
+    null,
+    2
+  );
+}
@@ -0,0 +1,115 @@
+import { describe, expect, it } from "vitest";
+import { analyzeSequence, analyzeSequenceByType } from "./sequence";
+import type { DecodedFrame, HeaderType } from "./types";
+
+// Only the fields the analysis reads
+const frames = (
+  sequences: number[],
+  headerType: HeaderType = "Telemetry",
+  version = "v1.1"
+) =>
+  sequences.map(
+    (sequence, i) =>
+      ({ sequence, headerType, version, rxTime: i * 100 } as DecodedFrame)
+  );
+
+const run = (from: number, to: number) =>
+  Array.from({ length: to - from + 1 }, (_, i) => from + i);
+
+describe("analyzeSequence", () => {
+  it("counts a clean run as lossless", () => {
+    const a = analyzeSequence(frames(run(10, 19)));
+    expect(a.extended).toEqual(run(10, 19));
+    expect([a.received, a.expected, a.lost, a.events]).toEqual([10, 10, 0, []]);
+  });
+
+  it("finds gaps, duplicates and late frames", () => {
+    const a = analyzeSequence(frames([1, 2, 5, 5, 3, 6, 9]));
+    expect(a.events.map((e) => [e.kind, e.index, e.missing])).toEqual([
+      ["gap", 2, 2],
+      ["duplicate", 3, undefined],
+      ["reordered", 4, undefined],
+      ["gap", 6, 2],
+    ]);
+    // The late 3 fills part of the first hole
+    expect(a.regions.map((r) => [r.from, r.to, r.before, r.after])).toEqual([
+      [4, 4, 4, 2],
+      [7, 8, 5, 6],
+    ]);
+    expect([a.expected, a.received, a.lost]).toEqual([9, 6, 3]);
+    expect([a.duplicates, a.reordered]).toEqual([1, 1]);
+  });
+
+  it("keeps counting across a wrap", () => {
+    const a = analyzeSequence(frames([65534, 65535, 0, 1]));
+    expect(a.extended).toEqual([65534, 65535, 65536, 65537]);
+    expect([a.wraps, a.lost]).toEqual([1, 0]);
+  });
+
+  it("wraps at the profile's counter width", () => {
+    const a = analyzeSequence(frames([254, 255, 0, 1, 2]), { modulus: 0x100 });
+    expect(a.extended).toEqual([254, 255, 256, 257, 258]);
+    expect(a.wraps).toBe(1);
+    // A 16-bit counter reads the same values as a reset
+    expect(analyzeSequence(frames([254, 255, 0, 1, 2])).resets).toBe(1);
+  });
+
+  it("never extends the counter below zero", () => {
+    const a = analyzeSequence(frames([0, 1, 2, 65535]));
+    expect(a.extended).toEqual([0, 1, 2, 65535]);
+    expect(a.extended.every((x) => x >= 0)).toBe(true);
+    expect(a.reordered).toBe(0);
+  });
+
+  it("treats a long step back as a counter reset", () => {
+    const a = analyzeSequence(frames([...run(1000, 1002), 3, 10]));
+    expect(a.events.map((e) => e.kind)).toEqual(["reset", "gap"]);
+    expect(a.extended.slice(3)).toEqual([65536 + 3, 65536 + 10]);
+    // The step to the new epoch isn't loss; 4..9 are
+    expect([a.expected, a.lost]).toEqual([3 + 8, 6]);
+  });
+
+  it("treats a short step back into an in-order run as a reset", () => {
+    const a = analyzeSequence(frames([100, 101, 102, 5, 6, 7]));
+    expect(a.events.map((e) => [e.kind, e.index])).toEqual([["reset", 3]]);
+    expect([a.resets, a.reordered, a.lost, a.lossRate]).toEqual([1, 0, 0, 0]);
+    // Too short a run is still reordering
+    const late = analyzeSequence(frames([100, 101, 102, 99, 103]));
+    expect([late.resets, late.reordered]).toEqual([0, 1]);
+  });
+
+  it("buckets loss along the counter", () => {
+    const a = analyzeSequence(frames([...run(0, 49), ...run(60, 99)]), {
+      bucketSize: 25,
+    });
+    expect(a.buckets.map((b) => [b.from, b.to, b.lost, b.time])).toEqual([
+      [0, 25, 0, 0],
+      [25, 50, 0, 2500],
+      [50, 75, 10, 5000],
+      [75, 100, 0, 6500],
+    ]);
+  });
+});
+
+describe("analyzeSequenceByType", () => {
+  it("analyses each header type on its own counter", () => {
+    const telemetry = frames([10, 11, 12, 13]);
+    const acks = frames([500, 501], "Ack");
+    const mixed = [telemetry[0], acks[0], telemetry[1], telemetry[2]];
+    mixed.push(acks[1], telemetry[3]);
+    const streams = analyzeSequenceByType(mixed);
+    expect(
+      streams.map((s) => [
+        s.type,
+        s.indices,
+        s.analysis.lost,
+        s.analysis.resets,
+      ])
+    ).toEqual([
+      ["Telemetry", [0, 2, 3, 5], 0, 0],
+      ["Ack", [1, 4], 0, 0],
+    ]);
+    // Mixed together they read as resets and loss
+    expect(analyzeSequence(mixed).lost).toBeGreaterThan(0);
+  });
+});
@@ -0,0 +1,222 @@
+import { findProfile } from "./profiles";
+import type { DecodedFrame, HeaderType } from "./types";
+
+// ==========================
+// Sequence-number integrity
+// ==========================
+// The header sequence is profile.sequenceBytes wide and wraps. Each frame's
+// counter is extended to the value nearest the highest seen so far (RFC 3550
+// style), so it keeps counting up across wraps: 65535, 0, 1 → 65535, 65536,
+// 65537. Extended values never go below zero.
+
+export type SequenceEventKind =
+  | "gap" // frames missing before this one
+  | "duplicate" // extended value already received
+  | "reordered" // arrived after a later frame
+  | "wrap" // counter passed its top value → 0
+  | "reset"; // stepped back and counted on from there (reboot)
+
+export type SequenceEvent = {
+  kind: SequenceEventKind;
+  index: number; // frame that showed it
+  sequence: number;
+  extended: number;
+  missing?: number; // gap only
+};
+
+// Missing extended values [from, to]; `before`/`after` are the frames
+// either side of the hole, to place it in time
+export type LossRegion = {
+  from: number;
+  to: number;
+  missing: number;
+  before: number;
+  after: number;
+};
+
+// Loss over one stretch of the counter
+export type LossBucket = {
+  from: number; // extended values [from, to)
+  to: number;
+  expected: number;
+  lost: number;
+  time?: number; // rxTime of the first frame received in it
+};
+
+export type SequenceAnalysis = {
+  extended: number[]; // per frame
+  events: SequenceEvent[];
+  regions: LossRegion[]; // holes still open at the end of the stream
+  buckets: LossBucket[];
+  received: number; // distinct extended values
+  expected: number; // first..highest, over every counter epoch
+  lost: number;
+  lossRate: number; // lost / expected, 0 when nothing was expected
+  duplicates: number;
+  reordered: number;
+  wraps: number;
+  resets: number;
+  modulus: number; // counter period used
+};
+
+export type SequenceOptions = {
+  maxReorder?: number; // a longer step back is a reset; default 512
+  // A shorter step back is a reset too when it starts a run of this many
+  // in-order frames; default 3
+  resetRun?: number;
+  bucketSize?: number; // extended values per loss bucket, default 100
+  modulus?: number; // counter period; default from the first frame's profile
+};
+
+// Compares the sequence numbers of a frame stream in arrival order
+export function analyzeSequence(
+  frames: ReadonlyArray<DecodedFrame>,
+  opts: SequenceOptions = {}
+): SequenceAnalysis {
+  const { maxReorder = 512, resetRun = 3, bucketSize = 100 } = opts;
+  const mod =
+    opts.modulus ??
+    256 ** (findProfile(frames[0]?.version ?? "")?.sequenceBytes ?? 2);
+  // Whether frames[index] starts `resetRun` frames that count up by one
+  const startsRun = (index: number) => {
+    for (let k = index + 1; k < index + resetRun; k++)
+      if (
+        k >= frames.length ||
+        frames[k].sequence !== (frames[k - 1].sequence + 1) % mod
+      )
+        return false;
+    return true;
+  };
+  const extended: number[] = [];
+  const events: SequenceEvent[] = [];
+  const seen = new Map<number, number>(); // extended -> first frame index
+  // A reset starts a new epoch; its counter continues past the old highest
+  // so extended values stay unique
+  const epochs: { first: number; highest: number }[] = [];
+  let highest: number | undefined;
+
+  frames.forEach((f, index) => {
+    const sequence = f.sequence;
+    const event = (kind: SequenceEventKind, ext: number, missing?: number) =>
+      events.push({ kind, index, sequence, extended: ext, missing });
+    if (highest === undefined) {
+      highest = sequence;
+      epochs.push({ first: sequence, highest });
+      extended.push(sequence);
+      seen.set(sequence, index);
+      return;
+    }
+    const delta = (sequence - (highest % mod) + mod) % mod;
+    let ext = delta < mod / 2 ? highest + delta : highest + delta - mod;
+    // Nothing came before the first counter cycle, so it can only be ahead
+    if (ext < 0) ext += mod;
+    if (highest - ext > maxReorder || (ext < highest && startsRun(index))) {
+      // Restart the counter in a new epoch, right after the old one
+      ext = (Math.floor(highest / mod) + 1) * mod + sequence;
+      event("reset", ext);
+      highest = ext;
+      epochs.push({ first: ext, highest });
+    } else if (seen.has(ext)) event("duplicate", ext);
+    else if (ext < highest) {
+      event("reordered", ext);
+      // Late enough to predate the first frame received
+      const epoch = epochs[epochs.length - 1];
+      epoch.first = Math.min(epoch.first, ext);
+    } else if (ext > highest) {
+      if (Math.floor(ext / mod) > Math.floor(highest / mod)) event("wrap", ext);
+      if (ext > highest + 1) event("gap", ext, ext - highest - 1);
+      highest = ext;
+      epochs[epochs.length - 1].highest = ext;
+    }
+    extended.push(ext);
+    if (!seen.has(ext)) seen.set(ext, index);
+  });
+
+  // Holes left once late frames filled in what they could
+  const sorted = [...seen.keys()].sort((a, b) => a - b);
+  const regions: LossRegion[] = [];
+  for (let i = 1; i < sorted.length; i++) {
+    const [a, b] = [sorted[i - 1], sorted[i]];
+    // The step to a new epoch isn't a loss
+    if (b > a + 1 && !epochs.some((e) => e.first > a && e.first <= b))
+      regions.push({
+        from: a + 1,
+        to: b - 1,
+        missing: b - a - 1,
+        before: seen.get(a) ?? 0,
+        after: seen.get(b) ?? 0,
+      });
+  }
+
+  const expected = epochs.reduce((acc, e) => acc + e.highest - e.first + 1, 0);
+  const received = seen.size;
+  // Buckets, values and regions all ascend, so one pass each
+  const buckets: LossBucket[] = [];
+  let v = 0;
+  let r = 0;
+  for (const e of epochs)
+    for (let from = e.first; from <= e.highest; from += bucketSize) {
+      const to = Math.min(from + bucketSize, e.highest + 1);
+      while (v < sorted.length && sorted[v] < from) v++;
+      while (r < regions.length && regions[r].to < from) r++;
+      let lost = 0;
+      for (let k = r; k < regions.length && regions[k].from < to; k++)
+        lost +=
+          Math.min(regions[k].to + 1, to) - Math.max(regions[k].from, from);
+      const first = sorted[v] < to ? seen.get(sorted[v]) : undefined;
+      buckets.push({
+        from,
+        to,
+        expected: to - from,
+        lost,
+        time: first === undefined ? undefined : frames[first].rxTime,
+      });
+    }
+
+  const count = (kind: SequenceEventKind) =>
+    events.filter((e) => e.kind === kind).length;
+  return {
+    extended,
+    events,
+    regions,
+    buckets,
+    received,
+    expected,
+    lost: expected - received,
+    lossRate: expected ? (expected - received) / expected : 0,
+    duplicates: count("duplicate"),
+    reordered: count("reordered"),
+    wraps: count("wrap"),
+    resets: count("reset"),
+    modulus: mod,
+  };
+}
+
+export type TypeSequence = {
+  type: HeaderType;
+  indices: number[]; // position in the whole stream of each analysed frame
+  analysis: SequenceAnalysis;
+};
+
+// Telemetry, commands, acks and events may run on separate counters, so
+// each header type is analysed on its own. Frame indexes in an analysis are
+// into that type's frames; `indices` maps them back.
+export function analyzeSequenceByType(
+  frames: ReadonlyArray<DecodedFrame>,
+  opts: SequenceOptions = {}
+): TypeSequence[] {
+  const byType = new Map<HeaderType, number[]>();
+  frames.forEach((f, i) => {
+    const indices = byType.get(f.headerType);
+    if (indices) indices.push(i);
+    else byType.set(f.headerType, [i]);
+  });
+  return [...byType].map(([type, indices]) => ({
+    type,
+    indices,
+    analysis: analyzeSequence(
+      indices.map((i) => frames[i]),
+      opts
+    ),
+  }));
+}
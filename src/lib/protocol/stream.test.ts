@@ -0,0 +1,147 @@
+import { describe, expect, it } from "vitest";
+import { buildSimulatedFrame } from "./demo";
+import { encodeFraming } from "./framing";
+import {
+  createStreamDecoder,
+  decodeStream,
+  streamStats,
+  type DiscardedRange,
+  type StreamResult,
+} from "./stream";
+
+const frame = (seq: number) => buildSimulatedFrame(seq, seq * 100, "BE");
+
+// Adjacent ranges with the same reason as one; pushes in different chunks
+// report them separately
+function merged(ranges: ReadonlyArray<DiscardedRange>): DiscardedRange[] {
+  const out: DiscardedRange[] = [];
+  for (const d of ranges) {
+    const last = out[out.length - 1];
+    if (last && last.end === d.start && last.reason === d.reason)
+      last.end = d.end;
+    else out.push({ ...d });
+  }
+  return out;
+}
+
+const summary = (r: StreamResult) => ({
+  frames: r.frames.map((f) => [f.sequence, f.offset, f.ok]),
+  discarded: merged(r.discarded),
+});
+
+describe("createStreamDecoder", () => {
+  it("resyncs on a SOF inside a rejected candidate", () => {
+    // A fake header whose TotalLength spans the whole real frame, so the
+    // real frame's SOF sits inside the rejected candidate
+    const inner = frame(2);
+    const bytes = [0xfd, inner.length, ...inner, 0x00];
+    const { frames, discarded } = decodeStream(bytes);
+    expect(frames.map((f) => [f.sequence, f.offset])).toEqual([[2, 2]]);
+    expect(discarded).toEqual([
+      { start: 0, end: 1, reason: "bad-eof" },
+      { start: 1, end: 2, reason: "noise" },
+      { start: 2 + inner.length, end: 3 + inner.length, reason: "noise" },
+    ]);
+  });
+
+  it("holds a partial frame until flush, then discards it as truncated", () => {
+    const decoder = createStreamDecoder();
+    const first = frame(0);
+    const pushed = decoder.push([...first, ...frame(1).slice(0, 6)]);
+    expect(pushed.frames.map((f) => f.sequence)).toEqual([0]);
+    expect(pushed.discarded).toEqual([]);
+    expect(decoder.flush()).toEqual({
+      frames: [],
+      discarded: [
+        { start: first.length, end: first.length + 6, reason: "truncated" },
+      ],
+    });
+  });
+
+  it("gives the same result byte by byte as in one push", () => {
+    const damaged = frame(1);
+    damaged[10] ^= 0x04;
+    const bytes = [
+      1,
+      2,
+      3,
+      ...frame(0),
+      ...damaged,
+      ...frame(2),
+      0xfd, // lone SOF
+      ...frame(3),
+      9,
+      9,
+      ...frame(4).slice(0, 8),
+    ];
+    const whole = decodeStream(bytes);
+
+    const decoder = createStreamDecoder();
+    const parts: StreamResult[] = bytes.map((b) => decoder.push([b]));
+    parts.push(decoder.flush());
+    const byByte = {
+      frames: parts.flatMap((p) => p.frames),
+      discarded: parts.flatMap((p) => p.discarded),
+    };
+    expect(summary(byByte)).toEqual(summary(whole));
+    expect(whole.frames.map((f) => f.sequence)).toEqual([0, 2, 3]);
+  });
+
+  it("reports discarded ranges at their stream offsets", () => {
+    const damaged = frame(1);
+    damaged[10] ^= 0x04; // CRC no longer matches
+    const good = frame(0);
+    const bytes = [1, 2, 3, ...good, ...damaged, ...frame(2), 9, 9];
+    const crcAt = 3 + good.length;
+    const nextAt = crcAt + damaged.length;
+    const { frames, discarded } = decodeStream(bytes);
+    expect(frames.map((f) => [f.sequence, f.offset])).toEqual([
+      [0, 3],
+      [2, nextAt],
+    ]);
+    // The rejected SOF alone is "crc"; the rest of the frame is skipped as
+    // bytes before the next SOF
+    expect(discarded).toEqual([
+      { start: 0, end: 3, reason: "noise" },
+      { start: crcAt, end: crcAt + 1, reason: "crc" },
+      { start: crcAt + 1, end: nextAt, reason: "noise" },
+      { start: bytes.length - 2, end: bytes.length, reason: "noise" },
+    ]);
+  });
+
+  it("carries stream offsets on after a reset to a given offset", () => {
+    const decoder = createStreamDecoder();
+    decoder.reset(1000);
+    const { frames } = decoder.push([0, ...frame(5)]);
+    expect(frames[0].offset).toBe(1001);
+  });
+});
+
+describe("streamStats", () => {
+  const damaged = (seq: number) => {
+    const bytes = frame(seq);
+    bytes[10] ^= 0x05;
+    return bytes;
+  };
+
+  it("counts back-to-back CRC rejects one by one, however chunked", () => {
+    const wire = [frame(0), damaged(1), damaged(2), frame(3)].flatMap((f) =>
+      encodeFraming(f, "cobs")
+    );
+    const whole = decodeStream(wire, { framing: "cobs" });
+    expect(whole.discarded.map((d) => d.reason)).toEqual(["crc", "crc"]);
+    expect(whole.discarded[0].end).toBe(whole.discarded[1].start);
+
+    const decoder = createStreamDecoder({ framing: "cobs" });
+    const parts = [...wire.map((b) => decoder.push([b])), decoder.flush()];
+    const bytewise: StreamResult = {
+      frames: parts.flatMap((r) => r.frames),
+      discarded: parts.flatMap((r) => r.discarded),
+    };
+    for (const result of [whole, bytewise]) {
+      const stats = streamStats(result);
+      expect([stats.frames, stats.crcFailed]).toEqual([2, 2]);
+      expect(stats.crcErrorRate).toBeCloseTo(2 / 4);
+    }
+  });
+});
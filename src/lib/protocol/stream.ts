@@ -0,0 +1,317 @@
+import { findEnvelope } from "./envelope";
+import { checkFrame, decodeFrame } from "./frame";
+import { decodeFraming, findPacket } from "./framing";
+import { PROFILES } from "./profiles";
+import type { DecodeOptions, DecodedFrame } from "./types";
+
+// ==========================
+// Stream decoder (multi-frame, resync)
+// ==========================
+export type DiscardReason =
+  | "noise"
+  | "bad-length"
+  | "bad-eof"
+  | "crc"
+  | "truncated"
+  | "bad-framing"
+  | "bad-envelope";
+
+export type DiscardedRange = {
+  start: number; // stream offset, inclusive
+  end: number; // stream offset, exclusive
+  reason: DiscardReason;
+};
+
+export type StreamResult = {
+  frames: DecodedFrame[];
+  discarded: DiscardedRange[];
+};
+
+export const DISCARD_LABELS: Record<DiscardReason, string> = {
+  noise: "no SOF",
+  "bad-length": "implausible TotalLength",
+  "bad-eof": "bad EOF",
+  crc: "CRC mismatch",
+  truncated: "truncated frame",
+  "bad-framing": "broken COBS/SLIP/escape encoding",
+  "bad-envelope": "implausible modem envelope length",
+};
+
+// Stateful decoder for continuous captures. Feed it arbitrary chunks; it
+// scans for SOF, validates TotalLength/EOF/CRC and only then accepts a frame.
+// A rejected candidate drops just its SOF byte so the scan resyncs on the
+// next SOF, even one that sits inside the rejected region. Candidates are
+// checked against every profile (or just the pinned one).
+// With a framing transport other than raw, the wire is first cut into
+// packets at its delimiters; each unframed packet must hold exactly one frame.
+// With a modem envelope, envelopes are cut out first and the bytes inside
+// each are decoded on their own; frames inherit the envelope's link metrics.
+export function createStreamDecoder(opts: DecodeOptions = {}) {
+  const candidates = opts.profile ? [opts.profile] : opts.profiles ?? PROFILES;
+  const framing = opts.framing ?? "raw";
+  const envelope = opts.envelope;
+  const sofs = new Set(candidates.map((p) => p.sof));
+  const eofs = new Set(candidates.flatMap((p) => [p.eof, ...p.eofCompat]));
+  let buf = new Uint8Array(0);
+  let base = 0; // stream offset of buf[0]
+
+  const findSof = (from: number) => {
+    for (let i = from; i < buf.length; i++) if (sofs.has(buf[i])) return i;
+    return -1;
+  };
+
+  function push(chunk: ArrayLike<number>): StreamResult {
+    const next = new Uint8Array(buf.length + chunk.length);
+    next.set(buf, 0);
+    next.set(chunk, buf.length);
+    buf = next;
+    return scan(false);
+  }
+
+  // End of input: whatever is still buffered can never complete.
+  function flush(): StreamResult {
+    return scan(true);
+  }
+
+  // Drop buffered bytes; `offset` is the stream offset of the next byte
+  function reset(offset = 0) {
+    buf = new Uint8Array(0);
+    base = offset;
+  }
+
+  function scan(final: boolean): StreamResult {
+    const frames: DecodedFrame[] = [];
+    const discarded: DiscardedRange[] = [];
+    // Rejected candidates keep a range each, so they can be counted
+    const discard = (from: number, to: number, reason: DiscardReason) => {
+      if (to <= from) return;
+      const last = discarded[discarded.length - 1];
+      const merge = reason !== "crc" && reason !== "bad-eof";
+      if (merge && last?.end === base + from && last.reason === reason) {
+        last.end = base + to;
+      } else {
+        discarded.push({ start: base + from, end: base + to, reason });
+      }
+    };
+
+    // A partial frame at end of input still may hide a later SOF.
+    const dropTruncated = (at: number) => {
+      const nextSof = findSof(at + 1);
+      const to = nextSof === -1 ? buf.length : nextSof;
+      discard(at, to, "truncated");
+      return to;
+    };
+
+    // One unframed packet: accept it as a frame or discard its wire bytes
+    const takePacket = (start: number, end: number) => {
+      const wire = Array.from(buf.subarray(start, end));
+      const bytes = decodeFraming(wire, framing);
+      if (!bytes) return discard(start, end, "bad-framing");
+      if (bytes.length === 0) return; // back-to-back delimiters
+      const frame = new Uint8Array(bytes);
+      const checks = candidates
+        .filter((p) => p.sof === bytes[0])
+        .map((p) => checkFrame(frame, 0, p, opts.repairBits));
+      const fits = checks.includes("ok") || checks.includes("repairable");
+      if (fits && 2 + bytes[1] + 1 === bytes.length) {
+        frames.push({
+          ...decodeFrame(bytes, opts),
+          offset: base + start,
+          wire,
+        });
+        return;
+      }
+      const reason: DiscardReason =
+        checks.length === 0
+          ? "noise"
+          : fits
+          ? "bad-length"
+          : checks[0] === "need-more"
+          ? "truncated"
+          : (checks[0] as DiscardReason);
+      discard(start, end, reason);
+    };
+
+    let pos = 0;
+    while (envelope && pos < buf.length) {
+      const packet = findEnvelope(buf, pos, envelope, sofs, final);
+      if (!packet) {
+        discard(pos, buf.length, "noise");
+        pos = buf.length;
+        break;
+      }
+      discard(pos, packet.start, "noise");
+      if (packet.end === -1) {
+        pos = packet.start;
+        if (!final) break; // wait for the rest of the envelope
+        discard(pos, buf.length, "truncated");
+        pos = buf.length;
+        break;
+      }
+      pos = packet.end;
+      if (!packet.frame) {
+        const bad = envelope.kind === "binary" ? "bad-envelope" : "noise";
+        discard(packet.start, packet.end, bad);
+        continue;
+      }
+      // Binary envelopes carry the frame verbatim, so inner offsets map
+      // onto the wire; a text line only as a whole
+      const inner = decodeStream(packet.frame, {
+        ...opts,
+        envelope: undefined,
+      });
+      // Without a sync marker any SOF may open one: resync past a miss
+      const resync = envelope.kind === "binary" && !envelope.sync.length;
+      if (resync && !inner.frames.length) {
+        discard(packet.start, packet.start + 1, "noise");
+        pos = packet.start + 1;
+        continue;
+      }
+      // Each frame keeps the whole envelope as its wire bytes, so a replay
+      // of them goes through the envelope again
+      const at = packet.frameAt;
+      const wire = Array.from(buf.subarray(packet.start, packet.end));
+      for (const f of inner.frames)
+        frames.push({
+          ...f,
+          offset: base + (at === undefined ? packet.start : at + f.offset),
+          wire,
+          link: packet.link,
+        });
+      for (const d of inner.discarded)
+        if (at === undefined) discard(packet.start, packet.end, d.reason);
+        else discard(at + d.start, at + d.end, d.reason);
+    }
+
+    while (!envelope && framing !== "raw" && pos < buf.length) {
+      const packet = findPacket(buf, pos, framing, sofs, eofs);
+      if (!packet) {
+        discard(pos, buf.length, "noise");
+        pos = buf.length;
+        break;
+      }
+      discard(pos, packet.start, "noise");
+      if (packet.end === -1) {
+        pos = packet.start;
+        if (!final) break; // wait for the closing delimiter
+        discard(pos, buf.length, "truncated");
+        pos = buf.length;
+        break;
+      }
+      takePacket(packet.start, packet.end);
+      pos = packet.end;
+    }
+
+    while (!envelope && framing === "raw" && pos < buf.length) {
+      const sof = findSof(pos);
+      if (sof === -1) {
+        discard(pos, buf.length, "noise");
+        pos = buf.length;
+        break;
+      }
+      discard(pos, sof, "noise");
+      pos = sof;
+
+      // Any profile that starts with this byte may claim the candidate
+      const checks = candidates
+        .filter((p) => p.sof === buf[pos])
+        .map((p) => checkFrame(buf, pos, p, opts.repairBits));
+      if (checks.includes("ok") || checks.includes("repairable")) {
+        const frameLen = 2 + buf[pos + 1] + 1; // SOF + TL + (Header..CRC) + EOF
+        const frame = decodeFrame(
+          Array.from(buf.subarray(pos, pos + frameLen)),
+          opts
+        );
+        frames.push({ ...frame, offset: base + pos });
+        pos += frameLen;
+        continue;
+      }
+      if (checks.includes("need-more")) {
+        if (!final) break; // wait for more bytes
+        pos = dropTruncated(pos);
+        continue;
+      }
+      discard(pos, pos + 1, checks[0] as DiscardReason);
+      pos += 1;
+    }
+
+    buf = buf.slice(pos);
+    base += pos;
+    return { frames, discarded };
+  }
+
+  return { push, flush, reset };
+}
+
+export type StreamDecoder = ReturnType<typeof createStreamDecoder>;
+
+// One-shot helper: decode every frame in a complete capture.
+export function decodeStream(
+  bytes: ArrayLike<number>,
+  opts: DecodeOptions = {}
+): StreamResult {
+  const decoder = createStreamDecoder(opts);
+  const first = decoder.push(bytes);
+  const rest = decoder.flush();
+  return {
+    frames: [...first.frames, ...rest.frames],
+    discarded: [...first.discarded, ...rest.discarded],
+  };
+}
+
+// decodeStream in slices, yielding to the event loop between them so a UI
+// stays responsive on multi-megabyte captures. `onProgress` gets the bytes
+// done so far; `signal` abandons the decode (the promise then rejects).
+export async function decodeStreamChunked(
+  bytes: Uint8Array,
+  opts: DecodeOptions = {},
+  onProgress?: (done: number) => void,
+  signal?: AbortSignal,
+  chunkSize = 64 * 1024
+): Promise<StreamResult> {
+  const decoder = createStreamDecoder(opts);
+  const frames: DecodedFrame[] = [];
+  const discarded: DiscardedRange[] = [];
+  const keep = (r: StreamResult) => {
+    frames.push(...r.frames);
+    discarded.push(...r.discarded);
+  };
+  for (let i = 0; i < bytes.length; i += chunkSize) {
+    signal?.throwIfAborted();
+    keep(decoder.push(bytes.subarray(i, i + chunkSize)));
+    onProgress?.(Math.min(i + chunkSize, bytes.length));
+    await new Promise((resolve) => setTimeout(resolve, 0));
+  }
+  signal?.throwIfAborted();
+  keep(decoder.flush());
+  return { frames, discarded };
+}
+
+export type StreamStats = {
+  frames: number;
+  valid: number; // ok, no errors
+  corrected: number; // valid only after CRC repair
+  crcFailed: number; // candidates rejected on CRC, one range each
+  // Share of CRC-checked candidates that arrived damaged: rejected or
+  // repaired, over accepted plus rejected. 0 when there were none.
+  crcErrorRate: number;
+  firstSequence?: number;
+  lastSequence?: number;
+};
+
+// Headline numbers for a decoded capture
+export function streamStats(result: StreamResult): StreamStats {
+  const { frames, discarded } = result;
+  const corrected = frames.filter((f) => f.corrected.length).length;
+  const crcFailed = discarded.filter((d) => d.reason === "crc").length;
+  const checked = frames.length + crcFailed;
+  return {
+    frames: frames.length,
+    valid: frames.filter((f) => f.ok).length,
+    corrected,
+    crcFailed,
+    crcErrorRate: checked ? (corrected + crcFailed) / checked : 0,
+    firstSequence: frames[0]?.sequence,
+    lastSequence: frames[frames.length - 1]?.sequence,
+  };
+}
@@ -0,0 +1,357 @@
+import {
+  encodeFloat32,
+  encodeInt16,
+  encodeUnsigned,
+  hex2,
+  hexToBytes,
+  readFloat32,
+  readInt16,
+  readUnsigned,
+} from "./bytes";
+import { engineeringValue, toRaw } from "./calibration";
+import { DEFAULT_VALUE_ENDIAN } from "./constants";
+import { DEFAULT_SCHEMA } from "./defs";
+import { SCALAR_SIZES, findArg, findCommand, isLengthPrefixed } from "./schema";
+import type {
+  ArgType,
+  CommandArgDef,
+  DecodedCommandArg,
+  DecodedTLV,
+  Endian,
+  ProtocolSchema,
+} from "./types";
+
+// Byte order of one value: a frame flagged big-endian (FLAG_VALUE_BIG) wins,
+// then the ArgID's own order, then the protocol default. `frame` is undefined
+// for frames without the flag.
+export const valueEndianOf = (def: CommandArgDef, frame?: Endian): Endian =>
+  frame ?? def.endian ?? DEFAULT_VALUE_ENDIAN;
+
+// Raw wire value of one scalar (before calibration)
+function readScalar(type: ArgType, val: number[], endian: Endian): number {
+  switch (type) {
+    case "float":
+      return readFloat32(val, endian);
+    case "int16":
+      return readInt16(val, endian);
+    default:
+      return readUnsigned(val, endian);
+  }
+}
+
+function readValue(def: CommandArgDef, val: number[], endian: Endian): unknown {
+  switch (def.type) {
+    case "string":
+      // Firmware may send the C terminator along; drop trailing NULs
+      return new TextDecoder().decode(new Uint8Array(val)).replace(/\0+$/, "");
+    case "bytes":
+      return val;
+    case "array": {
+      const type = def.element ?? "uint8";
+      const size = SCALAR_SIZES[type];
+      return Array.from({ length: val.length / size }, (_, k) =>
+        readScalar(type, val.slice(k * size, (k + 1) * size), endian)
+      );
+    }
+    default:
+      return readScalar(def.type, val, endian);
+  }
+}
+
+// Value of `def` at payload[i] (just past any ArgID): the value bytes and
+// where the next field starts, or null if the length prefix is bad or the
+// value runs past the end.
+function readField(def: CommandArgDef, payload: number[], i: number) {
+  let size = def.bytes;
+  if (isLengthPrefixed(def)) {
+    if (i >= payload.length) return null; // truncated before Len
+    size = payload[i++];
+    if (size > def.bytes) return null; // longer than the schema allows
+    if (def.type === "array" && size % SCALAR_SIZES[def.element ?? "uint8"])
+      return null; // not a whole number of elements
+  }
+  if (i + size > payload.length) return null; // truncated
+  return { val: payload.slice(i, i + size), end: i + size };
+}
+
+// One TLV starting at payload[i], or null if the ArgID is unknown or its
+// value can't be read.
+function readTLVAt(
+  payload: number[],
+  i: number,
+  schema: ProtocolSchema,
+  frameEndian?: Endian
+): DecodedTLV | null {
+  const def = findArg(schema, payload[i]);
+  if (!def) return null;
+  const field = readField(def, payload, i + 1);
+  if (!field) return null;
+
+  const endian = valueEndianOf(def, frameEndian);
+  const valueDecoded = readValue(def, field.val, endian);
+  return {
+    id: def.id,
+    name: def.key,
+    offset: i,
+    bytes: field.val.length,
+    wireBytes: field.end - i,
+    valueRaw: field.val,
+    valueDecoded,
+    engineering: engineeringValue(def, valueDecoded),
+    endian,
+  };
+}
+
+// Where a strict parse from `i` stops, and how many TLVs it read on the way
+function chainFrom(
+  payload: number[],
+  i: number,
+  schema: ProtocolSchema,
+  frameEndian?: Endian
+) {
+  let count = 0;
+  let t: DecodedTLV | null;
+  while (
+    i < payload.length &&
+    (t = readTLVAt(payload, i, schema, frameEndian))
+  ) {
+    i += t.wireBytes;
+    count++;
+  }
+  return { end: i, count };
+}
+
+// Best place to pick the payload up again after a parse failure. Every later
+// offset holding a known ArgID is a candidate, scored by how many bytes a
+// strict parse from there covers; a chain that lands exactly on the payload
+// end is far more likely to be the real alignment than a lucky byte.
+function findResync(
+  payload: number[],
+  from: number,
+  schema: ProtocolSchema,
+  frameEndian?: Endian
+) {
+  let best: number | undefined;
+  let bestScore = 0;
+  for (let j = from; j < payload.length; j++) {
+    const { end, count } = chainFrom(payload, j, schema, frameEndian);
+    if (count === 0) continue;
+    const score = end - j + (end === payload.length ? payload.length : 0);
+    if (score > bestScore) {
+      best = j;
+      bestScore = score;
+    }
+  }
+  return best;
+}
+
+// Decode a telemetry payload. Strict mode stops at the first bad TLV and
+// leaves the warning to the frame layer; with `recover` the parser skips
+// ahead to the best-scoring realignment and marks everything after the
+// first skip as recovered. `frameEndian` is the frame's value order flag,
+// see valueEndianOf.
+export function decodeTLV(
+  payload: number[],
+  schema: ProtocolSchema = DEFAULT_SCHEMA,
+  recover = false,
+  frameEndian?: Endian
+) {
+  const out: DecodedTLV[] = [];
+  let recovered = false;
+  let i = 0;
+  while (i < payload.length) {
+    const t = readTLVAt(payload, i, schema, frameEndian);
+    if (t) {
+      out.push(recovered ? { ...t, recovered } : t);
+      i += t.wireBytes;
+      continue;
+    }
+    if (!recover) break;
+    const next = findResync(payload, i + 1, schema, frameEndian);
+    if (next === undefined) break;
+    recovered = true;
+    i = next;
+  }
+  return out;
+}
+
+// Positional command arguments following the Command ID. Stops at the first
+// argument that can't be read; the frame layer compares against the def.
+export function decodeCommandArgs(
+  args: ReadonlyArray<CommandArgDef>,
+  bytes: number[],
+  frameEndian?: Endian
+): DecodedCommandArg[] {
+  const out: DecodedCommandArg[] = [];
+  let i = 0;
+  for (const def of args) {
+    const field = readField(def, bytes, i);
+    if (!field) break;
+    const endian = valueEndianOf(def, frameEndian);
+    const valueDecoded = readValue(def, field.val, endian);
+    out.push({
+      key: def.key,
+      bytes: field.val.length,
+      wireBytes: field.end - i,
+      valueRaw: field.val,
+      valueDecoded,
+      engineering: engineeringValue(def, valueDecoded),
+      endian,
+    });
+    i = field.end;
+  }
+  return out;
+}
+
+const FLOAT32_MAX = 3.4028234663852886e38;
+
+// Value range of a wire type
+function rawRange(type: ArgType, bytes: number): [number, number] {
+  if (type === "float") return [-FLOAT32_MAX, FLOAT32_MAX];
+  if (type === "int16") return [-0x8000, 0x7fff];
+  return [0, 2 ** (8 * bytes) - 1];
+}
+
+// One scalar in engineering units -> wire bytes, or an error message
+function encodeScalar(
+  def: CommandArgDef,
+  type: ArgType,
+  bytes: number,
+  value: number,
+  endian: Endian
+): number[] | string {
+  if (
+    (def.min !== undefined && value < def.min) ||
+    (def.max !== undefined && value > def.max)
+  )
+    return `range ${def.min ?? "-∞"}..${def.max ?? "∞"}`;
+
+  // UI takes engineering units; the wire carries the calibration's inverse
+  const range = rawRange(type, bytes);
+  const cal = type === "enum" || type === "bitfield" ? undefined : def.cal;
+  const exact = cal ? toRaw(cal, value, range) : value;
+  if (exact === null) return `outside the ${type} range after calibration`;
+  if (type === "float") return encodeFloat32(exact, endian);
+
+  const raw = Math.round(exact);
+  if ((type === "enum" || type === "bitfield") && raw !== value)
+    return "must be an integer";
+  const [lo, hi] = range;
+  if (raw < lo || raw > hi) return `${type} range ${lo}..${hi}`;
+  return type === "int16"
+    ? encodeInt16(raw, endian)
+    : encodeUnsigned(raw, bytes, endian);
+}
+
+// Value bytes of a length-prefixed TLV, or an error message
+function encodeVariable(
+  def: CommandArgDef,
+  text: string,
+  endian: Endian
+): number[] | string {
+  switch (def.type) {
+    case "string":
+      return Array.from(new TextEncoder().encode(text));
+    case "bytes":
+      try {
+        return hexToBytes(text);
+      } catch (e) {
+        return e instanceof Error ? e.message : String(e);
+      }
+    default: {
+      const type = def.element ?? "uint8";
+      const out: number[] = [];
+      for (const part of text.split(/[\s,;]+/).filter(Boolean)) {
+        const n = Number(part);
+        if (!Number.isFinite(n)) return `"${part}" is not a number`;
+        const enc = encodeScalar(def, type, SCALAR_SIZES[type], n, endian);
+        if (typeof enc === "string") return `"${part}": ${enc}`;
+        out.push(...enc);
+      }
+      return out;
+    }
+  }
+}
+
+// One value in engineering units -> wire bytes (with Len prefix for
+// length-prefixed types), or an error message
+function encodeValue(
+  def: CommandArgDef,
+  valueStr: string,
+  frameEndian?: Endian
+): number[] | string {
+  const endian = valueEndianOf(def, frameEndian);
+  const text = valueStr.trim();
+
+  if (isLengthPrefixed(def)) {
+    const val = encodeVariable(def, text, endian);
+    if (typeof val === "string") return val;
+    if (val.length > def.bytes) return `${val.length} bytes, max ${def.bytes}`;
+    return [val.length, ...val];
+  }
+
+  // Enums accept their label as well as the index
+  const labelIdx = def.labels?.findIndex(
+    (l) => l.toUpperCase() === text.toUpperCase()
+  );
+  const value =
+    labelIdx !== undefined && labelIdx >= 0 ? labelIdx : Number(text);
+  if (text === "" || !Number.isFinite(value))
+    return def.type === "float" ? "must be a float" : "must be a number";
+
+  return encodeScalar(def, def.type, def.bytes, value, endian);
+}
+
+// Encode one TLV from a user-entered value (engineering units).
+// Returns the [ArgID, ...value] bytes, or an error message. Pass the frame's
+// value order as `frameEndian` when FLAG_VALUE_BIG will be set.
+export function encodeTLVItem(
+  id: number,
+  valueStr: string,
+  schema: ProtocolSchema = DEFAULT_SCHEMA,
+  frameEndian?: Endian
+): number[] | string {
+  const def = findArg(schema, id);
+  if (!def) return `Unknown ArgID 0x${hex2(id)}`;
+  const val = encodeValue(def, valueStr, frameEndian);
+  return typeof val === "string"
+    ? `Arg ${hex2(id)} (${def.key}): ${val}`
+    : [id, ...val];
+}
+
+// Encode a command payload: [CmdID, ...args] from one string per argument,
+// collecting an error per bad argument.
+export function encodeCommand(
+  id: number,
+  values: ReadonlyArray<string>,
+  schema: ProtocolSchema = DEFAULT_SCHEMA,
+  frameEndian?: Endian
+) {
+  const def = findCommand(schema, id);
+  const payload = [id];
+  const errors: string[] = [];
+  if (!def) errors.push(`Unknown Command ID 0x${hex2(id)}`);
+  else
+    (def.args ?? []).forEach((arg, i) => {
+      const val = encodeValue(arg, values[i] ?? "", frameEndian);
+      if (typeof val === "string") errors.push(`${def.key} ${arg.key}: ${val}`);
+      else payload.push(...val);
+    });
+  return { payload, errors };
+}
+
+// Encode a list of TLVs into a telemetry payload, collecting per-item errors
+export function encodeTLVs(
+  items: ReadonlyArray<{ id: number; value: string }>,
+  schema: ProtocolSchema = DEFAULT_SCHEMA,
+  frameEndian?: Endian
+) {
+  const payload: number[] = [];
+  const errors: string[] = [];
+  for (const { id, value } of items) {
+    const encoded = encodeTLVItem(id, value, schema, frameEndian);
+    if (typeof encoded === "string") errors.push(encoded);
+    else payload.push(...encoded);
+  }
+  return { payload, errors };
+}
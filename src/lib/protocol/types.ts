@@ -0,0 +1,269 @@
+// ==========================
+// Frame model
+// ==========================
+
+export type Endian = "LE" | "BE";
+
+export type ScalarType = "uint8" | "uint16" | "uint32" | "int16" | "float";
+
+// string/bytes/array are length-prefixed on the wire: [ArgID][Len][Len bytes]
+export type ArgType =
+  | ScalarType
+  | "enum"
+  | "bitfield"
+  | "string"
+  | "bytes"
+  | "array";
+
+// Raw wire value -> engineering value. Applies per scalar (per element for
+// arrays); enum/bitfield/string/bytes values are never calibrated.
+export type Calibration =
+  | { kind: "linear"; scale: number; offset?: number } // raw × scale + offset
+  | { kind: "poly"; coeffs: number[] } // Σ coeffs[i] × raw^i
+  | { kind: "table"; points: Array<[number, number]> }; // [raw, eng], by raw
+
+export type ArgDef = {
+  id: number;
+  key: string;
+  bytes: number; // value size; the maximum for length-prefixed types
+  type: ArgType;
+  element?: ScalarType; // array: type of each element
+  note: string;
+  endian?: Endian;
+  cal?: Calibration; // none = engineering value is the raw value
+  unit?: string; // engineering unit
+  digits?: number; // decimals when rendering
+  labels?: string[]; // enum: label per raw value
+  bits?: string[]; // bitfield: name per bit, LSB first
+  min?: number; // generator range check, engineering units
+  max?: number;
+  example?: string; // generator placeholder
+};
+
+// Command arguments are positional: same value encoding as a TLV, no ArgID
+// (length-prefixed types still carry their Len byte).
+export type CommandArgDef = Omit<ArgDef, "id">;
+
+export type CommandDef = {
+  id: number;
+  key: string;
+  note?: string;
+  args?: ReadonlyArray<CommandArgDef>;
+};
+
+// Name for a 16-bit event code carried by event/log frames
+export type EventDef = { id: number; key: string; note?: string };
+
+// Calibrations swapped in over a schema's own, keyed by ArgID key, e.g. for
+// a newly characterised transducer. See calibration.ts.
+export type CalibrationEntry = {
+  cal: Calibration;
+  unit?: string;
+  digits?: number;
+};
+export type CalibrationSet = {
+  name: string;
+  args: Readonly<Record<string, CalibrationEntry>>;
+};
+
+// Everything the decoder, renderer and generator need to know about ArgIDs
+// and Command IDs. The built-in one lives in defs.ts; others load from JSON.
+export type ProtocolSchema = {
+  name: string;
+  args: ReadonlyArray<ArgDef>;
+  commands: ReadonlyArray<CommandDef>;
+  events?: ReadonlyArray<EventDef>; // optional names for event codes
+};
+
+// One header flag bit (bits 5..0 of the header byte)
+export type FlagDef = {
+  mask: number;
+  key: string;
+  name: string;
+  note: string;
+};
+
+// Parameterised CRC (Rocksoft model), see crc.ts for the catalogue
+export type CrcAlgorithm = {
+  id: string;
+  name: string;
+  width: 16 | 32;
+  poly: number;
+  init: number;
+  refin: boolean;
+  refout: boolean;
+  xorout: number;
+  check: number; // CRC of ASCII "123456789"
+};
+
+// One protocol revision: framing bytes, header layout, CRC rules and the
+// ArgID table it shipped with. See profiles.ts for the known ones.
+export type ProtocolProfile = {
+  id: string; // short tag reported as DecodedFrame.version, e.g. "v1.1"
+  name: string;
+  sof: number;
+  eof: number; // canonical End-of-Frame
+  eofCompat: number[]; // also accepted, with a warning
+  sequenceBytes: 1 | 2;
+  crc: CrcAlgorithm;
+  crcFromLength: boolean; // CRC covers TotalLength..Payload, not Header..Payload
+  crcEndian: Endian; // CRC byte order on the wire
+  schema: ProtocolSchema;
+};
+
+// How frames are delimited on the wire (see framing.ts)
+export type Framing = "raw" | "escape" | "cobs" | "slip";
+
+// Radio link quality reported by the ground modem for one packet
+export type LinkMetric = "rssi" | "snr" | "freqError";
+export type LinkMetrics = Partial<Record<LinkMetric, number>>; // dBm, dB, Hz
+
+// One metric inside a binary envelope; value = raw × scale + offset
+export type EnvelopeField = {
+  metric: LinkMetric;
+  at: number; // byte offset from the envelope start; negative = from its end
+  type: "int8" | "uint8" | "int16" | "uint16" | "int32" | "uint32";
+  endian?: Endian; // default LE
+  scale?: number;
+  offset?: number;
+};
+
+// Modem wrapper around every received packet (see envelope.ts)
+export type Envelope =
+  | {
+      kind: "binary";
+      id: string;
+      name: string;
+      sync: number[]; // bytes opening every envelope; may be empty
+      // Frame byte count; none = the frame's own TotalLength
+      length?: { at: number; bytes: 1 | 2; endian?: Endian; adjust?: number };
+      header: number; // bytes before the frame, sync included
+      trailer: number; // bytes after the frame
+      fields: EnvelopeField[];
+    }
+  | {
+      kind: "text";
+      id: string;
+      name: string;
+      // Per line; named groups: hex (required), rssi, snr, freqError
+      pattern: string;
+    };
+
+export type DecodeOptions = {
+  schema?: ProtocolSchema; // overrides the ArgID table of every profile
+  profile?: ProtocolProfile; // pin one version; otherwise auto-detect
+  profiles?: ReadonlyArray<ProtocolProfile>; // auto-detect candidates
+  recoverTLV?: boolean; // resync past unknown/truncated ArgIDs
+  repairBits?: number; // fix up to this many flipped bits (1 or 2) via CRC
+  framing?: Framing; // default "raw"
+  envelope?: Envelope; // modem wrapper to strip first; none = bare frames
+};
+
+export type HeaderType = "Telemetry" | "Command" | "Ack" | "Event" | "Unknown";
+
+// Decoded value in engineering terms, tagged by what it is
+export type EngineeringValue =
+  | { kind: "number"; value: number; unit?: string }
+  | { kind: "array"; values: number[]; unit?: string }
+  | { kind: "enum"; index: number; label?: string }
+  | { kind: "bitfield"; mask: number; set: string[] }
+  | { kind: "text"; text: string }
+  | { kind: "bytes"; bytes: number[] };
+
+export type DecodedTLV = {
+  id: number;
+  name: string;
+  offset: number; // ArgID position within the payload
+  bytes: number; // value bytes only
+  wireBytes: number; // ArgID + length prefix (if any) + value
+  valueRaw: number[];
+  valueDecoded: unknown; // number; string for "string"; number[] for bytes/array
+  engineering: EngineeringValue; // valueDecoded after calibration
+  endian: Endian;
+  recovered?: boolean; // found after a resync; lower confidence
+};
+
+export type DecodedCommandArg = {
+  key: string;
+  bytes: number; // value bytes only
+  wireBytes: number; // length prefix (if any) + value
+  valueRaw: number[];
+  valueDecoded: unknown;
+  engineering: EngineeringValue;
+  endian: Endian;
+};
+
+export type DecodedCommand = {
+  id: number;
+  name: string;
+  args: DecodedCommandArg[]; // in CommandDef.args order; may stop short
+};
+
+// One bit flipped back by CRC repair
+export type BitFlip = {
+  index: number; // byte index into DecodedFrame.raw
+  bit: number; // 0 = LSB
+};
+
+export type DecodedAck = {
+  sequence: number; // sequence number of the acknowledged command frame
+  commandId: number;
+  commandName: string;
+  result: number;
+  resultName: string;
+  accepted: boolean; // ACK (result 0) vs NACK
+};
+
+export type DecodedEvent = {
+  severity: number;
+  severityName: string;
+  text?: string; // Kind = text
+  code?: number; // Kind = code
+  codeName?: string;
+};
+
+// Payload builders' input for the two message frame types
+export type AckSpec = { sequence: number; commandId: number; result: number };
+export type EventSpec = { severity: number } & (
+  | { text: string }
+  | { code: number }
+);
+
+export type DecodedFrame = {
+  ok: boolean;
+  warnings: string[];
+  errors: string[];
+  raw: number[];
+  start: number;
+  totalLength: number; // bytes from Header..CRC (excludes EOF)
+  header: number;
+  headerType: HeaderType;
+  headerFlags: number; // lower 6 bits
+  valueEndian: Endian;
+  sequenceEndian: Endian;
+  sequence: number;
+  payloadBytes: number[];
+  crcRx: number; // received, in the profile's CRC byte order
+  crcCalc: number; // profile CRC over Header..Payload
+  eof: number;
+  tlv: DecodedTLV[];
+  command: DecodedCommand | null;
+  ack: DecodedAck | null;
+  event: DecodedEvent | null;
+  offset: number; // position of SOF in the source stream (0 for single frames)
+  version: string; // ProtocolProfile.id that decoded it ("" if none fit)
+  corrected: BitFlip[]; // non-empty when CRC repair changed the frame
+  wire?: number[]; // bytes as received, before unframing or unwrapping
+  rxTime?: number; // ground receive time, ms (see parseTime in logs.ts)
+  rxMeta?: Record<string, string>; // other fields of the capture log line
+  link?: LinkMetrics; // from the modem envelope the frame arrived in
+};
+
+// Input to encodeFrame — everything between SOF/TotalLength and CRC/EOF
+export type FrameSpec = {
+  type: Exclude<HeaderType, "Unknown">;
+  flags?: number; // lower 6 header bits; FLAG_SEQ_LITTLE picks sequence order
+  sequence: number;
+  payload: number[];
+  eof?: number;
+};
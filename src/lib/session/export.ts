@@ -0,0 +1,33 @@
+import {
+  csvColumns,
+  csvDigits,
+  csvLine,
+  frameCsvRow,
+  frameRecord,
+  type ProtocolSchema,
+} from "../protocol";
+import { readFrameBatches } from "./store";
+import type { Session } from "./types";
+
+// A stored session as JSON lines or a wide CSV (see protocol/export.ts),
+// read back in batches
+export async function exportSession(
+  session: Session,
+  format: "jsonl" | "csv",
+  schemas: ReadonlyArray<ProtocolSchema>
+): Promise<Blob> {
+  const columns = csvColumns(schemas);
+  const digits = csvDigits(schemas);
+  const parts: string[] = format === "csv" ? [csvLine(columns) + "\n"] : [];
+  await readFrameBatches(session.id, (batch) => {
+    for (const { frame } of batch)
+      parts.push(
+        (format === "csv"
+          ? frameCsvRow(frame, columns, digits)
+          : JSON.stringify(frameRecord(frame))) + "\n"
+      );
+  });
+  return new Blob(parts, {
+    type: format === "csv" ? "text/csv" : "application/x-ndjson",
+  });
+}
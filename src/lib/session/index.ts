@@ -0,0 +1,6 @@
+// Recorded sessions kept in IndexedDB: every frame of a live run or an
+// imported capture, with its bytes, receive time and decode result.
+export * from "./types";
+export * from "./store";
+export * from "./recorder";
+export * from "./export";
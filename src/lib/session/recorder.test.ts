@@ -0,0 +1,66 @@
+import { describe, expect, it } from "vitest";
+import {
+  ENVELOPES,
+  buildSimulatedFrame,
+  bytesToHex,
+  encodeFraming,
+  type DecodeOptions,
+} from "../protocol";
+import {
+  createLiveDecoder,
+  createReplayTransport,
+  toReplayFrame,
+} from "../transport";
+import { recordedBytes } from "./recorder";
+
+const frame = (seq: number) => buildSimulatedFrame(seq, seq * 100, "BE");
+
+// Frames decoded live and kept as a recorder keeps them, then replayed all
+// at once through a decoder with the same options
+async function recordThenReplay(wire: number[], opts: DecodeOptions) {
+  const live = createLiveDecoder(opts);
+  live.push(wire, 1000);
+  const recorded = live.snapshot().frames;
+  const stored = recorded.map((f) => toReplayFrame(f, recordedBytes(f)));
+
+  const replayed = createLiveDecoder(opts);
+  const transport = createReplayTransport(
+    stored,
+    stored.map(() => 0)
+  );
+  await transport.connect({
+    onData: (chunk, rxTime) => replayed.push(chunk, rxTime),
+    onState: () => undefined,
+  });
+  await transport.disconnect();
+  return { recorded, replayed: replayed.snapshot().frames };
+}
+
+describe("record then replay", () => {
+  it("keeps a text envelope's whole line with each frame", async () => {
+    const envelope = ENVELOPES.find((e) => e.id === "rcv-text")!;
+    const lines = [1, 2]
+      .map((seq) => `+RCV=1,34,${bytesToHex(frame(seq))},-8${seq},9\n`)
+      .join("");
+    const { recorded, replayed } = await recordThenReplay(
+      Array.from(new TextEncoder().encode(lines)),
+      { envelope }
+    );
+    expect(recorded.map((f) => [f.sequence, f.link?.rssi])).toEqual([
+      [1, -81],
+      [2, -82],
+    ]);
+    expect(replayed.map((f) => [f.sequence, f.ok, f.link])).toEqual(
+      recorded.map((f) => [f.sequence, f.ok, f.link])
+    );
+  });
+
+  it("keeps framing bytes with each frame", async () => {
+    const wire = [frame(1), frame(2)].flatMap((f) => encodeFraming(f, "slip"));
+    const { recorded, replayed } = await recordThenReplay(wire, {
+      framing: "slip",
+    });
+    expect(replayed.map((f) => f.sequence)).toEqual([1, 2]);
+    expect(replayed.map((f) => f.wire)).toEqual(recorded.map((f) => f.wire));
+  });
+});
@@ -0,0 +1,86 @@
+import type { DecodedFrame } from "../protocol";
+import { appendFrames, createSession, updateSession } from "./store";
+import type { Session, SessionFrame, SessionInfo } from "./types";
+
+export type RecorderStatus = {
+  frameCount: number;
+  byteCount: number;
+  error?: string; // last failed write; frames in it are lost
+};
+
+// The bytes a session keeps for a frame: as they came off the wire, with
+// any framing or modem envelope, so a replay decodes them the same way
+export const recordedBytes = (frame: DecodedFrame) =>
+  Uint8Array.from(frame.wire ?? frame.raw);
+
+// Records frames into a new session. add() only queues them; queued frames
+// are written in batches every `flushMs` or `batchSize` frames, so a long
+// test never holds more than one batch in memory.
+export async function startRecording(
+  info: SessionInfo,
+  flushMs = 1000,
+  batchSize = 500
+) {
+  const session = await createSession(info);
+  let queued: SessionFrame[] = [];
+  let frameCount = 0;
+  let byteCount = 0;
+  let error: string | undefined;
+  let writing = Promise.resolve();
+
+  const flush = () => {
+    if (!queued.length) return writing;
+    const batch = queued;
+    const totals = { frameCount, byteCount };
+    queued = [];
+    writing = writing
+      .then(() => appendFrames(session.id, batch, totals))
+      .catch((e) => {
+        error = e instanceof Error ? e.message : String(e);
+      });
+    return writing;
+  };
+  const timer = setInterval(flush, flushMs);
+
+  return {
+    session,
+    // `bytes` counts everything received, including what didn't frame
+    add(frames: ReadonlyArray<DecodedFrame>, bytes = 0) {
+      byteCount += bytes;
+      for (const frame of frames)
+        queued.push({
+          sessionId: session.id,
+          index: frameCount++,
+          rxTime: frame.rxTime,
+          source: info.source,
+          raw: recordedBytes(frame),
+          frame,
+        });
+      if (queued.length >= batchSize) flush();
+    },
+    status: (): RecorderStatus => ({ frameCount, byteCount, error }),
+    // Writes what is queued and closes the session
+    async stop(): Promise<Session> {
+      clearInterval(timer);
+      await flush();
+      return updateSession(session.id, {
+        endedAt: Date.now(),
+        frameCount,
+        byteCount,
+      });
+    },
+  };
+}
+
+export type Recorder = Awaited<ReturnType<typeof startRecording>>;
+
+// A finished decode (capture file, pasted frames) as a closed session
+export async function saveSession(
+  info: SessionInfo,
+  frames: ReadonlyArray<DecodedFrame>,
+  byteCount: number
+): Promise<Session> {
+  const rec = await startRecording(info);
+  rec.add(frames, byteCount);
+  return rec.stop();
+}
@@ -0,0 +1,138 @@
+import type { Session, SessionFrame, SessionInfo } from "./types";
+
+// ==========================
+// IndexedDB session store
+// ==========================
+// "sessions" holds one record per session, "frames" every frame keyed by
+// [sessionId, index] so a session's frames read back in order by key range.
+
+const DB_NAME = "red-telemetry";
+const DB_VERSION = 1;
+const SESSIONS = "sessions";
+const FRAMES = "frames";
+
+export const isSessionStoreSupported = () => typeof indexedDB !== "undefined";
+
+const done = <T>(req: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+
+const committed = (tx: IDBTransaction) =>
+  new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = tx.onabort = () =>
+      reject(tx.error ?? new Error("Transaction aborted."));
+  });
+
+let db: Promise<IDBDatabase> | null = null;
+
+function open(): Promise<IDBDatabase> {
+  if (!isSessionStoreSupported())
+    return Promise.reject(new Error("This browser has no IndexedDB."));
+  db ??= new Promise<IDBDatabase>((resolve, reject) => {
+    const req = indexedDB.open(DB_NAME, DB_VERSION);
+    req.onupgradeneeded = () => {
+      req.result.createObjectStore(SESSIONS, {
+        keyPath: "id",
+        autoIncrement: true,
+      });
+      req.result.createObjectStore(FRAMES, { keyPath: ["sessionId", "index"] });
+    };
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+    req.onblocked = () =>
+      reject(new Error("Session store is open in an older tab."));
+  }).catch((e) => {
+    db = null;
+    throw e;
+  });
+  return db;
+}
+
+// Frames of session `id` with index in [from, to]
+const frameRange = (id: number, from = 0, to = Infinity) =>
+  IDBKeyRange.bound([id, from], [id, to]);
+
+// Newest first
+export async function listSessions(): Promise<Session[]> {
+  const tx = (await open()).transaction(SESSIONS);
+  const all = await done<Session[]>(tx.objectStore(SESSIONS).getAll());
+  return all.sort((a, b) => b.startedAt - a.startedAt);
+}
+
+export async function createSession(info: SessionInfo): Promise<Session> {
+  const fresh = { ...info, startedAt: Date.now(), frameCount: 0, byteCount: 0 };
+  const tx = (await open()).transaction(SESSIONS, "readwrite");
+  const saved = committed(tx);
+  const id = await done(tx.objectStore(SESSIONS).add(fresh));
+  await saved;
+  return { ...fresh, id: id as number };
+}
+
+export async function updateSession(
+  id: number,
+  patch: Partial<Omit<Session, "id">>
+): Promise<Session> {
+  const tx = (await open()).transaction(SESSIONS, "readwrite");
+  const saved = committed(tx);
+  const store = tx.objectStore(SESSIONS);
+  const current = await done<Session | undefined>(store.get(id));
+  if (!current) throw new Error(`No session ${id}.`);
+  const next = { ...current, ...patch, id };
+  store.put(next);
+  await saved;
+  return next;
+}
+
+// Adds a batch of frames and the session's new totals in one transaction,
+// so the counts never disagree with what is stored
+export async function appendFrames(
+  id: number,
+  frames: ReadonlyArray<SessionFrame>,
+  totals: Pick<Session, "frameCount" | "byteCount">
+): Promise<void> {
+  const tx = (await open()).transaction([SESSIONS, FRAMES], "readwrite");
+  const saved = committed(tx);
+  const sessions = tx.objectStore(SESSIONS);
+  const store = tx.objectStore(FRAMES);
+  for (const f of frames) store.put(f);
+  const current = await done<Session | undefined>(sessions.get(id));
+  if (current) sessions.put({ ...current, ...totals });
+  await saved;
+}
+
+// Up to `count` frames of a session starting at index `from`
+export async function readFrames(
+  id: number,
+  from = 0,
+  count?: number
+): Promise<SessionFrame[]> {
+  const tx = (await open()).transaction(FRAMES);
+  const to = count === undefined ? Infinity : from + count - 1;
+  return done<SessionFrame[]>(
+    tx.objectStore(FRAMES).getAll(frameRange(id, from, to))
+  );
+}
+
+// Every frame of a session in order, read `batch` at a time so no single
+// request holds the whole session. `onBatch` gets each batch as it arrives.
+export async function readFrameBatches(
+  id: number,
+  onBatch: (frames: SessionFrame[]) => void,
+  batch = 2000
+): Promise<void> {
+  for (let from = 0; ; from += batch) {
+    const frames = await readFrames(id, from, batch);
+    onBatch(frames);
+    if (frames.length < batch) return;
+  }
+}
+
+export async function deleteSession(id: number): Promise<void> {
+  const tx = (await open()).transaction([SESSIONS, FRAMES], "readwrite");
+  tx.objectStore(FRAMES).delete(frameRange(id));
+  tx.objectStore(SESSIONS).delete(id);
+  await committed(tx);
+}
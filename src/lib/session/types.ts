@@ -0,0 +1,30 @@
+import type { DecodedFrame } from "../protocol";
+
+// ==========================
+// Recorded sessions
+// ==========================
+
+export type Session = {
+  id: number; // assigned by the store
+  name: string;
+  tags: string[]; // free text, e.g. "static fire #3"
+  source: string; // transport label or file name
+  startedAt: number; // ms since the epoch
+  endedAt?: number; // unset while recording, or if the tab closed mid-session
+  frameCount: number;
+  byteCount: number; // bytes received, frames and junk alike
+};
+
+// What a new session starts from; the store fills in the rest
+export type SessionInfo = Pick<Session, "name" | "tags" | "source">;
+
+// One stored frame: the bytes as they came off the wire and the decode
+// result as it was when received
+export type SessionFrame = {
+  sessionId: number;
+  index: number; // 0.. in arrival order
+  rxTime?: number; // see DecodedFrame.rxTime
+  source: string;
+  raw: Uint8Array;
+  frame: DecodedFrame;
+};
@@ -0,0 +1,81 @@
+import { describe, expect, it } from "vitest";
+import {
+  EOF_TYPO,
+  buildSimulatedFrame,
+  decodeStream,
+  encodeFraming,
+  streamStats,
+} from "../protocol";
+import { createLinkMonitor } from "./health";
+
+const frame = (seq: number) => buildSimulatedFrame(seq, seq * 100, "BE");
+
+describe("createLinkMonitor", () => {
+  it("counts exactly the buckets inside the window", () => {
+    const monitor = createLinkMonitor(250);
+    // One frame every 100 ms from t = 0 to 1900
+    for (let t = 0; t < 2000; t += 100)
+      monitor.add(decodeStream(frame(t / 100)), 34, t);
+    // A 1000 ms window at 2050 starts on the bucket at 1250
+    const h = monitor.health(1000, 2050);
+    expect(h.windowMs).toBe(800);
+    expect(h.frames).toBe(7); // 1300 … 1900
+    expect(h.framesPerSec).toBeCloseTo(8.75);
+    expect(h.bytesPerSec).toBeCloseTo((7 * 34 * 1000) / 800);
+  });
+
+  it("counts everything since the start in a window reaching past it", () => {
+    const monitor = createLinkMonitor(250);
+    for (let t = 120; t < 600; t += 100)
+      monitor.add(decodeStream(frame(t)), 34, t);
+    const h = monitor.health(10_000, 620);
+    expect([h.frames, h.windowMs]).toEqual([5, 500]);
+  });
+
+  it("rates CRC errors the way streamStats does", () => {
+    const repaired = frame(1);
+    repaired[10] ^= 0x04;
+    const rejected = frame(2);
+    rejected[10] ^= 0x05;
+    const bytes = [...frame(0), ...repaired, ...rejected, ...frame(3)];
+    const result = decodeStream(bytes, { repairBits: 1 });
+    const stats = streamStats(result);
+    expect([stats.corrected, stats.crcFailed]).toEqual([1, 1]);
+
+    const monitor = createLinkMonitor(250);
+    monitor.add(result, bytes.length, 0);
+    const h = monitor.health(1000, 100);
+    expect([h.corrected, h.crcFailed]).toEqual([1, 1]);
+    expect(h.crcErrorRate).toBe(stats.crcErrorRate);
+    expect(h.crcErrorRate).toBeCloseTo(2 / 4);
+  });
+
+  it("counts adjacent CRC rejects separately", () => {
+    const damaged = (seq: number) => {
+      const bytes = frame(seq);
+      bytes[10] ^= 0x05;
+      return bytes;
+    };
+    const wire = [damaged(1), damaged(2), frame(3)].flatMap((f) =>
+      encodeFraming(f, "cobs")
+    );
+    const monitor = createLinkMonitor(250);
+    monitor.add(decodeStream(wire, { framing: "cobs" }), wire.length, 0);
+    const h = monitor.health(1000, 100);
+    expect([h.frames, h.crcFailed]).toEqual([1, 2]);
+  });
+
+  it("judges EOFs against the link's usual one", () => {
+    const typo = (seq: number) => {
+      const bytes = frame(seq);
+      bytes[bytes.length - 1] = EOF_TYPO;
+      return bytes;
+    };
+    const monitor = createLinkMonitor(250);
+    for (let seq = 0; seq < 4; seq++)
+      monitor.add(decodeStream(typo(seq)), 34, seq * 10);
+    monitor.add(decodeStream(frame(4)), 34, 40);
+    const h = monitor.health(1000, 100);
+    expect([h.frames, h.oddEof, h.badEof]).toEqual([5, 1, 0]);
+  });
+});
@@ -0,0 +1,123 @@
+import type { StreamResult } from "../protocol";
+
+// ==========================
+// Rolling link health
+// ==========================
+
+// What the link did over a stretch of time
+type Counts = {
+  bytes: number;
+  frames: number;
+  valid: number;
+  corrected: number; // valid only after CRC repair; also counted in frames
+  crcFailed: number;
+  oddEof: number; // accepted, but not with the link's usual EOF (EOF_TYPO)
+  badEof: number; // rejected on EOF
+  discardedBytes: number;
+  resyncs: number; // discarded ranges: each one is a scan picking up again
+};
+
+type Sample = Counts & { at: number }; // one bucket, from `at` ms
+
+export type LinkHealth = Counts & {
+  // Span counted: whole buckets, so up to one bucket shorter than asked,
+  // and shorter still right after a start
+  windowMs: number;
+  framesPerSec: number;
+  bytesPerSec: number;
+  crcErrorRate: number; // as in streamStats: rejected or repaired on CRC
+  lastValidAt?: number; // wall time of the newest valid frame, any window
+};
+
+const emptyCounts = (): Counts => ({
+  bytes: 0,
+  frames: 0,
+  valid: 0,
+  corrected: 0,
+  crcFailed: 0,
+  oddEof: 0,
+  badEof: 0,
+  discardedBytes: 0,
+  resyncs: 0,
+});
+
+// Keeps per-bucket counts of what a live decoder produced for the last
+// `keepMs`, so any window up to that can be summed on demand
+export function createLinkMonitor(bucketMs = 250, keepMs = 300_000) {
+  let samples: Sample[] = [];
+  let startedAt: number | undefined;
+  let lastValidAt: number | undefined;
+  // Frames per EOF byte. Auto-detection reads a frame ending in EOF_TYPO
+  // as v1.1, so a v1.0 link would look odd throughout: an odd EOF is
+  // judged against the link's usual one, not the frame's own profile.
+  const eofs = new Map<number, number>();
+  const usualEof = () =>
+    [...eofs].reduce((a, b) => (b[1] > a[1] ? b : a), [-1, 0])[0];
+
+  const bucket = (now: number) => {
+    const at = now - (now % bucketMs);
+    const last = samples[samples.length - 1];
+    if (last?.at === at) return last;
+    const next = { ...emptyCounts(), at };
+    samples.push(next);
+    if (samples[0].at < now - keepMs)
+      samples = samples.filter((s) => s.at >= now - keepMs);
+    return next;
+  };
+
+  return {
+    // `bytes` is the chunk that produced `result`
+    add(result: StreamResult, bytes: number, now = Date.now()) {
+      startedAt ??= now;
+      const s = bucket(now);
+      s.bytes += bytes;
+      for (const f of result.frames) {
+        eofs.set(f.eof, (eofs.get(f.eof) ?? 0) + 1);
+        s.frames++;
+        if (f.corrected.length) s.corrected++;
+        if (f.eof !== usualEof()) s.oddEof++;
+        if (!f.ok) continue;
+        s.valid++;
+        lastValidAt = now;
+      }
+      for (const d of result.discarded) {
+        s.resyncs++;
+        s.discardedBytes += d.end - d.start;
+        if (d.reason === "crc") s.crcFailed++;
+        if (d.reason === "bad-eof") s.badEof++;
+      }
+    },
+    health(windowMs: number, now = Date.now()): LinkHealth {
+      // Counts cover [from, now]: the buckets that start inside the window,
+      // or everything since the start (the first bucket holds nothing older)
+      const from = Math.max(
+        startedAt ?? now,
+        Math.ceil((now - windowMs) / bucketMs) * bucketMs
+      );
+      const span = Math.max(bucketMs, now - from);
+      const counts = emptyCounts();
+      for (const s of samples)
+        if (s.at + bucketMs > from)
+          for (const k of Object.keys(counts) as (keyof Counts)[])
+            counts[k] += s[k];
+      const checked = counts.frames + counts.crcFailed;
+      const damaged = counts.corrected + counts.crcFailed;
+      return {
+        ...counts,
+        windowMs: span,
+        framesPerSec: (1000 * counts.frames) / span,
+        bytesPerSec: (1000 * counts.bytes) / span,
+        crcErrorRate: checked ? damaged / checked : 0,
+        lastValidAt,
+      };
+    },
+    clear() {
+      samples = [];
+      startedAt = undefined;
+      lastValidAt = undefined;
+      eofs.clear();
+    },
+  };
+}
+
+export type LinkMonitor = ReturnType<typeof createLinkMonitor>;
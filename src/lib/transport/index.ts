@@ -0,0 +1,9 @@
+// Live byte sources feeding the protocol decoder. Browser-only transports
+// (Web Serial) check for support at runtime, so this imports anywhere.
+export * from "./types";
+export * from "./memory";
+export * from "./serial";
+export * from "./websocket";
+export * from "./live";
+export * from "./health";
+export * from "./replay";
@@ -0,0 +1,116 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { buildSimulatedFrame } from "../protocol";
+import { createLiveDecoder } from "./live";
+import { createMemoryTransport, createSimulatedTransport } from "./memory";
+import type { TransportState } from "./types";
+
+const frame = (seq: number) => buildSimulatedFrame(seq, seq * 100, "BE");
+
+// A memory transport wired into a live decoder, as LivePanel does it
+async function pipeline() {
+  const decoder = createLiveDecoder();
+  const transport = createMemoryTransport();
+  const states: TransportState[] = [];
+  await transport.connect({
+    onData: (chunk, rxTime) => decoder.push(chunk, rxTime),
+    onState: (s) => states.push(s),
+  });
+  return { decoder, transport, states };
+}
+
+describe("memory transport → live decoder", () => {
+  it("completes a frame split across chunks only on its last byte", async () => {
+    const { decoder, transport } = await pipeline();
+    const bytes = frame(7);
+    transport.inject(bytes.slice(0, 3));
+    transport.inject(bytes.slice(3, 10));
+    expect(decoder.snapshot().frames).toHaveLength(0);
+    transport.inject(bytes.slice(10));
+    const { frames, byteCount } = decoder.snapshot();
+    expect(frames.map((f) => f.sequence)).toEqual([7]);
+    expect(frames[0].ok).toBe(true);
+    expect(byteCount).toBe(bytes.length);
+  });
+
+  it("skips a noise burst between frames and reports it", async () => {
+    const { decoder, transport } = await pipeline();
+    const first = frame(1);
+    const noise = [0x11, 0x22, 0x33, 0x44, 0x55];
+    transport.inject(first);
+    transport.inject(noise);
+    transport.inject(frame(2));
+    const { frames, discarded } = decoder.snapshot();
+    expect(frames.map((f) => f.sequence)).toEqual([1, 2]);
+    expect(frames[1].offset).toBe(first.length + noise.length);
+    expect(discarded).toEqual([
+      {
+        start: first.length,
+        end: first.length + noise.length,
+        reason: "noise",
+      },
+    ]);
+  });
+
+  it("stamps frames with the time their last chunk arrived", () => {
+    const decoder = createLiveDecoder();
+    const bytes = frame(3);
+    decoder.push(bytes.slice(0, 5), 1000);
+    const { frames } = decoder.push(bytes.slice(5), 2000);
+    expect(frames[0].rxTime).toBe(2000);
+  });
+
+  it("drops bytes after disconnect and starts over after a clear", async () => {
+    const { decoder, transport, states } = await pipeline();
+    transport.inject(frame(1));
+    transport.inject(frame(2).slice(0, 6)); // left half-received
+    await transport.disconnect();
+    transport.inject(frame(3));
+    expect(states).toEqual(["connected", "disconnected"]);
+    expect(decoder.snapshot().frames.map((f) => f.sequence)).toEqual([1]);
+
+    decoder.clear();
+    expect(decoder.snapshot()).toEqual({
+      frames: [],
+      discarded: [],
+      byteCount: 0,
+      frameCount: 0,
+    });
+    // The half frame from before the clear doesn't swallow the next one
+    decoder.push(frame(4));
+    const { frames, discarded } = decoder.snapshot();
+    expect(frames.map((f) => [f.sequence, f.offset])).toEqual([[4, 0]]);
+    expect(discarded).toEqual([]);
+  });
+
+  it("keeps only the newest frames but counts them all", () => {
+    const decoder = createLiveDecoder({}, 3);
+    for (let i = 0; i < 5; i++) decoder.push(frame(i));
+    const { frames, frameCount } = decoder.snapshot();
+    expect(frames.map((f) => f.sequence)).toEqual([2, 3, 4]);
+    expect(frameCount).toBe(5);
+  });
+});
+
+describe("simulated transport", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("feeds the live pipeline without hardware", async () => {
+    vi.useFakeTimers();
+    const decoder = createLiveDecoder();
+    const transport = createSimulatedTransport({ rateHz: 10 });
+    await transport.connect({
+      onData: (chunk) => decoder.push(chunk),
+      onState: () => undefined,
+    });
+    vi.advanceTimersByTime(1000);
+    await transport.disconnect();
+    const { frames, discarded } = decoder.snapshot();
+    expect(frames.map((f) => f.sequence)).toEqual([
+      0, 1, 2, 3, 4, 5, 6, 7, 8, 9,
+    ]);
+    expect(frames.every((f) => f.ok)).toBe(true);
+    expect(discarded).toEqual([]);
+  });
+});
@@ -0,0 +1,72 @@
+import {
+  createStreamDecoder,
+  type DecodeOptions,
+  type DecodedFrame,
+  type DiscardedRange,
+  type StreamResult,
+} from "../protocol";
+
+export type LiveSnapshot = StreamResult & {
+  byteCount: number; // bytes received since the last clear
+  frameCount: number; // frames decoded, including ones no longer kept
+};
+
+// Continuous decode of a transport's bytes into a bounded frame list. Only
+// the newest `maxFrames` frames and `maxDiscarded` discard ranges are kept,
+// so a long session doesn't grow without limit. Frames are stamped with the
+// time the chunk completing them arrived.
+export function createLiveDecoder(
+  opts: DecodeOptions = {},
+  maxFrames = 500,
+  maxDiscarded = 200
+) {
+  let decoder = createStreamDecoder(opts);
+  let frames: DecodedFrame[] = [];
+  let discarded: DiscardedRange[] = [];
+  let byteCount = 0;
+  let frameCount = 0;
+
+  const keep = (decoded: StreamResult, rxTime: number) => {
+    const result = {
+      ...decoded,
+      frames: decoded.frames.map((f) => ({ ...f, rxTime: f.rxTime ?? rxTime })),
+    };
+    if (result.frames.length)
+      frames = [...frames, ...result.frames].slice(-maxFrames);
+    if (result.discarded.length)
+      discarded = [...discarded, ...result.discarded].slice(-maxDiscarded);
+    frameCount += result.frames.length;
+    return result;
+  };
+
+  return {
+    // Returns just what this chunk completed
+    push(chunk: ArrayLike<number>, rxTime = Date.now()): StreamResult {
+      byteCount += chunk.length;
+      return keep(decoder.push(chunk), rxTime);
+    },
+    flush: () => keep(decoder.flush(), Date.now()),
+    // New decode settings apply to bytes from here on; stream offsets carry
+    // on from the bytes already seen
+    setOptions(next: DecodeOptions) {
+      keep(decoder.flush(), Date.now());
+      decoder = createStreamDecoder(next);
+      decoder.reset(byteCount);
+    },
+    clear() {
+      decoder.reset();
+      frames = [];
+      discarded = [];
+      byteCount = 0;
+      frameCount = 0;
+    },
+    snapshot: (): LiveSnapshot => ({
+      frames,
+      discarded,
+      byteCount,
+      frameCount,
+    }),
+  };
+}
+
+export type LiveDecoder = ReturnType<typeof createLiveDecoder>;
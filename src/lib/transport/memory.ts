@@ -0,0 +1,93 @@
+import {
+  DEFAULT_SEQUENCE_ENDIAN,
+  buildSimulatedFrame,
+  type Endian,
+  type Framing,
+} from "../protocol";
+import type { Transport, TransportHandlers } from "./types";
+
+// Bytes pushed by hand, e.g. from a test rig or a script
+export function createMemoryTransport(label = "In-memory") {
+  let handlers: TransportHandlers | null = null;
+  return {
+    label,
+    async connect(h: TransportHandlers) {
+      handlers = h;
+      h.onState("connected");
+    },
+    async disconnect() {
+      const h = handlers;
+      handlers = null;
+      h?.onState("disconnected");
+    },
+    // Deliver bytes as if they came off the wire; dropped while disconnected
+    inject(bytes: ArrayLike<number>) {
+      handlers?.onData(Uint8Array.from(bytes));
+    },
+  } satisfies Transport & { inject: (bytes: ArrayLike<number>) => void };
+}
+
+export type SimulationOptions = {
+  rateHz?: number; // frames per second, default 10
+  framing?: Framing;
+  sequenceEndian?: Endian;
+  maxChunk?: number; // bytes per delivered chunk, like a UART FIFO; default 16
+  bitErrorRate?: number; // chance per bit of a flip, default 0
+  noiseRate?: number; // chance per frame of a few junk bytes first, default 0
+};
+
+// Synthetic telemetry (see buildSimulatedFrame) delivered in uneven chunks,
+// with optional bit errors and line noise, so the whole live pipeline runs
+// without hardware.
+export function createSimulatedTransport(opts: SimulationOptions = {}) {
+  const {
+    rateHz = 10,
+    framing = "raw",
+    sequenceEndian = DEFAULT_SEQUENCE_ENDIAN,
+    maxChunk = 16,
+    bitErrorRate = 0,
+    noiseRate = 0,
+  } = opts;
+  const memory = createMemoryTransport("Simulated");
+  let timer: ReturnType<typeof setInterval> | undefined;
+  let sequence = 0;
+  let t0 = 0;
+
+  const tick = () => {
+    const bytes = buildSimulatedFrame(
+      sequence++,
+      Date.now() - t0,
+      sequenceEndian,
+      framing
+    );
+    if (bitErrorRate > 0)
+      for (let i = 0; i < bytes.length; i++)
+        for (let b = 0; b < 8; b++)
+          if (Math.random() < bitErrorRate) bytes[i] ^= 1 << b;
+    if (Math.random() < noiseRate)
+      bytes.unshift(
+        ...Array.from({ length: 1 + Math.floor(Math.random() * 6) }, () =>
+          Math.floor(Math.random() * 256)
+        )
+      );
+    for (let i = 0; i < bytes.length; ) {
+      const n = 1 + Math.floor(Math.random() * maxChunk);
+      memory.inject(bytes.slice(i, i + n));
+      i += n;
+    }
+  };
+
+  return {
+    label: memory.label,
+    async connect(h: TransportHandlers) {
+      await memory.connect(h);
+      t0 = Date.now();
+      timer = setInterval(tick, 1000 / rateHz);
+    },
+    async disconnect() {
+      clearInterval(timer);
+      timer = undefined;
+      await memory.disconnect();
+    },
+  } satisfies Transport;
+}
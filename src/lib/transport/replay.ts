@@ -0,0 +1,225 @@
+import type { DecodedFrame } from "../protocol";
+import type { TransportHandlers } from "./types";
+
+// ==========================
+// Replay of stored frames
+// ==========================
+
+// A stored frame to send again: its bytes as received and, if known, when
+export type ReplayFrame = {
+  bytes: ArrayLike<number>;
+  rxTime?: number;
+  sequence: number;
+  millis?: number; // the frame's `millis` TLV
+};
+
+// Just what a replay needs of a decoded frame, so a long session doesn't
+// keep every decode result alive
+export function toReplayFrame(
+  frame: DecodedFrame,
+  bytes: ArrayLike<number>
+): ReplayFrame {
+  const millis = frame.tlv.find((t) => t.name === "millis")?.valueDecoded;
+  return {
+    bytes,
+    rxTime: frame.rxTime,
+    sequence: frame.sequence,
+    millis: typeof millis === "number" ? millis : undefined,
+  };
+}
+
+// What the replay clock runs on: ground receive times, the flight
+// computer's `millis` TLV, or an even spacing when neither is there
+export type ReplayBasis = "rxTime" | "millis" | "even";
+
+export const REPLAY_SPEEDS = [0.25, 0.5, 1, 2, 5, 10, 20] as const;
+
+// Per-frame replay times, ms from the first frame, never decreasing (a
+// `millis` reset after a reboot holds the clock rather than rewinding it)
+export function replayTimes(
+  frames: ReadonlyArray<Pick<ReplayFrame, "rxTime" | "millis">>,
+  evenMs = 100
+): { times: number[]; basis: ReplayBasis } {
+  const basis: ReplayBasis =
+    frames.length && frames.every((f) => f.rxTime !== undefined)
+      ? "rxTime"
+      : frames.some((f) => f.millis !== undefined)
+      ? "millis"
+      : "even";
+  const times: number[] = [];
+  let first: number | undefined;
+  for (const f of frames) {
+    const prev = times.at(-1);
+    const at =
+      basis === "rxTime"
+        ? f.rxTime
+        : basis === "millis"
+        ? f.millis
+        : times.length * evenMs;
+    if (at === undefined) times.push(prev === undefined ? 0 : prev + evenMs);
+    else {
+      first ??= at;
+      times.push(Math.max(prev ?? 0, at - first));
+    }
+  }
+  return { times, basis };
+}
+
+export type ReplayState = {
+  index: number; // frames sent so far; the cursor sits on frame index - 1
+  count: number;
+  position: number; // replay clock, ms from the first frame
+  duration: number;
+  playing: boolean;
+  speed: number;
+};
+
+// Sends stored frames through the live pipeline on their original timing,
+// scaled by the playback speed. Seeking restarts the stream (onReset) and
+// sends up to `context` frames before the cursor at once, so the views
+// have history; step() moves one frame at a time while paused.
+export function createReplayTransport(
+  frames: ReadonlyArray<ReplayFrame>,
+  times: ReadonlyArray<number>,
+  opts: {
+    label?: string;
+    context?: number;
+    onChange?: (state: ReplayState) => void;
+  } = {}
+) {
+  const { label = "Replay", context = 500, onChange } = opts;
+  const count = frames.length;
+  const duration = times.at(-1) ?? 0;
+  let handlers: TransportHandlers | null = null;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let index = 0;
+  let position = 0;
+  let playing = false;
+  let speed = 1;
+  // While playing, the clock reads anchorPos + elapsed wall time × speed
+  let anchorWall = 0;
+  let anchorPos = 0;
+
+  const clock = () =>
+    playing
+      ? Math.min(duration, anchorPos + (performance.now() - anchorWall) * speed)
+      : position;
+
+  const state = (): ReplayState => ({
+    index,
+    count,
+    position: clock(),
+    duration,
+    playing,
+    speed,
+  });
+
+  const send = (from: number, to: number) => {
+    for (let i = from; i < to; i++)
+      handlers?.onData(Uint8Array.from(frames[i].bytes), frames[i].rxTime);
+  };
+
+  // Sends every frame due by now, then sleeps until the next one is
+  const tick = () => {
+    timer = undefined;
+    if (!playing) return;
+    const now = clock();
+    let next = index;
+    while (next < count && times[next] <= now) next++;
+    send(index, next);
+    index = next;
+    if (index >= count) {
+      position = duration;
+      playing = false;
+    } else timer = setTimeout(tick, (times[index] - now) / speed);
+    onChange?.(state());
+  };
+
+  const halt = () => {
+    position = clock();
+    playing = false;
+    clearTimeout(timer);
+    timer = undefined;
+  };
+
+  // Restart the stream with frames [0, to) sent, the last `context` of them
+  // for real
+  const jump = (to: number, at: number) => {
+    const wasPlaying = playing;
+    halt();
+    index = Math.max(0, Math.min(count, to));
+    position = at;
+    handlers?.onReset?.();
+    send(Math.max(0, index - context), index);
+    if (wasPlaying) play();
+    else onChange?.(state());
+  };
+
+  function play() {
+    if (playing || !handlers) return;
+    if (index >= count) jump(0, 0); // from the top again
+    playing = true;
+    anchorWall = performance.now();
+    anchorPos = position;
+    tick();
+  }
+
+  return {
+    label,
+    async connect(h: TransportHandlers) {
+      handlers = h;
+      h.onState("connected");
+      play();
+    },
+    async disconnect() {
+      halt();
+      const h = handlers;
+      handlers = null;
+      h?.onState("disconnected");
+    },
+    play,
+    pause() {
+      halt();
+      onChange?.(state());
+    },
+    setSpeed(next: number) {
+      const wasPlaying = playing;
+      halt();
+      speed = next;
+      if (wasPlaying) play();
+      else onChange?.(state());
+    },
+    // Cursor onto frame i (sent, like everything before it)
+    seek: (i: number) => jump(i + 1, times[Math.max(0, i)] ?? 0),
+    // Everything received by `ms` into the replay is sent
+    seekTime(ms: number) {
+      let i = 0;
+      while (i < count && times[i] <= ms) i++;
+      jump(i, Math.max(0, Math.min(duration, ms)));
+    },
+    // First frame with this sequence number after the cursor, wrapping
+    // around; false if there is none
+    seekSequence(sequence: number) {
+      for (let k = 0; k < count; k++) {
+        const i = (index + k) % count;
+        if (frames[i].sequence === sequence) {
+          jump(i + 1, times[i]);
+          return true;
+        }
+      }
+      return false;
+    },
+    // One frame forward or back; pauses first
+    step(delta: 1 | -1) {
+      halt();
+      if (delta > 0 && index < count) {
+        send(index, index + 1);
+        position = times[index++];
+        onChange?.(state());
+      } else if (delta < 0 && index > 1) jump(index - 1, times[index - 2]);
+    },
+    state,
+  };
+}
+
+export type ReplayTransport = ReturnType<typeof createReplayTransport>;
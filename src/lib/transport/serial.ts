@@ -0,0 +1,109 @@
+import type { Transport, TransportHandlers } from "./types";
+
+// The slice of the Web Serial API used here; TypeScript's DOM lib has none
+type SerialPortInfo = { usbVendorId?: number; usbProductId?: number };
+export type SerialPortHandle = {
+  open: (options: { baudRate: number }) => Promise<void>;
+  close: () => Promise<void>;
+  readonly readable: ReadableStream<Uint8Array> | null;
+  getInfo: () => SerialPortInfo;
+};
+type SerialApi = {
+  requestPort: () => Promise<SerialPortHandle>;
+  getPorts: () => Promise<SerialPortHandle[]>;
+};
+
+const serialApi = () =>
+  typeof navigator === "undefined"
+    ? undefined
+    : (navigator as Navigator & { serial?: SerialApi }).serial;
+
+export const BAUD_RATES = [
+  9600, 19200, 38400, 57600, 115200, 230400, 460800, 921600,
+] as const;
+
+// Chromium-based browsers only, and only in a secure context
+export const isSerialSupported = () => serialApi() !== undefined;
+
+// Shows the browser's port picker; must run from a user gesture. Rejects
+// if the user cancels.
+export async function requestSerialPort(): Promise<SerialPortHandle> {
+  const api = serialApi();
+  if (!api) throw new Error("Web Serial is not available in this browser.");
+  return api.requestPort();
+}
+
+// Ports this page was already granted, e.g. after a reload
+export async function grantedSerialPorts(): Promise<SerialPortHandle[]> {
+  return (await serialApi()?.getPorts()) ?? [];
+}
+
+export function serialPortLabel(port: SerialPortHandle) {
+  const { usbVendorId, usbProductId } = port.getInfo();
+  const hex = (n: number) => n.toString(16).toUpperCase().padStart(4, "0");
+  return usbVendorId !== undefined && usbProductId !== undefined
+    ? `USB ${hex(usbVendorId)}:${hex(usbProductId)}`
+    : "Serial port";
+}
+
+const message = (e: unknown) => (e instanceof Error ? e.message : String(e));
+
+// Reads `port` until disconnect() or a fatal error. Parity/framing errors
+// and buffer overruns are non-fatal: the browser hands out a fresh readable
+// and reading carries on, reporting the hiccup as a detail.
+export function createSerialTransport(
+  port: SerialPortHandle,
+  baudRate: number
+): Transport {
+  let reader: ReadableStreamDefaultReader<Uint8Array> | null = null;
+  let loop: Promise<void> | null = null;
+  let closing = false;
+
+  async function readLoop(h: TransportHandlers) {
+    let failure: string | undefined;
+    while (port.readable && !closing) {
+      reader = port.readable.getReader();
+      try {
+        for (;;) {
+          const { value, done } = await reader.read();
+          if (done) break;
+          if (value) h.onData(value);
+        }
+      } catch (e) {
+        if (!closing) {
+          failure = message(e);
+          h.onState("connected", failure);
+        }
+      } finally {
+        reader.releaseLock();
+        reader = null;
+      }
+    }
+    await port.close().catch(() => undefined);
+    // readable goes null when the device is unplugged
+    if (closing) h.onState("disconnected");
+    else h.onState("error", failure ?? "Port closed by the device.");
+  }
+
+  return {
+    label: `${serialPortLabel(port)} @ ${baudRate} Bd`,
+    async connect(h) {
+      closing = false;
+      h.onState("connecting");
+      try {
+        await port.open({ baudRate });
+      } catch (e) {
+        h.onState("error", message(e));
+        return;
+      }
+      h.onState("connected");
+      loop = readLoop(h);
+    },
+    async disconnect() {
+      closing = true;
+      await reader?.cancel().catch(() => undefined);
+      await loop;
+      loop = null;
+    },
+  };
+}
@@ -0,0 +1,28 @@
+// ==========================
+// Byte transports
+// ==========================
+
+export type TransportState =
+  | "disconnected"
+  | "connecting"
+  | "connected"
+  | "reconnecting" // lost the link; retrying on its own
+  | "error";
+
+// Callbacks a transport reports through while connected. `detail` carries
+// the error message for "error" and any non-fatal hiccup otherwise. Replays
+// pass each chunk's original receive time, and call onReset when they seek
+// so partial frames and old history are dropped.
+export type TransportHandlers = {
+  onData: (chunk: Uint8Array, rxTime?: number) => void;
+  onState: (state: TransportState, detail?: string) => void;
+  onReset?: () => void;
+};
+
+// A source of raw bytes. connect() never throws: failures are reported as
+// an "error" state, so every transport looks the same to the UI.
+export type Transport = {
+  label: string;
+  connect: (handlers: TransportHandlers) => Promise<void>;
+  disconnect: () => Promise<void>;
+};
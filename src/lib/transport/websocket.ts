@@ -0,0 +1,88 @@
+import { hexToBytes } from "../protocol";
+import type { Transport, TransportHandlers } from "./types";
+
+export type WebSocketOptions = {
+  minDelayMs?: number; // first reconnect delay, default 500
+  maxDelayMs?: number; // backoff cap, default 30 s
+};
+
+export const DEFAULT_BRIDGE_URL = "ws://localhost:8765";
+
+// Frame bytes from a WebSocket: binary messages are taken as-is, text
+// messages as hex (anything hexToBytes accepts). A dropped connection is
+// retried with exponential backoff and jitter until disconnect().
+export function createWebSocketTransport(
+  url: string,
+  opts: WebSocketOptions = {}
+): Transport {
+  const { minDelayMs = 500, maxDelayMs = 30_000 } = opts;
+  let handlers: TransportHandlers | null = null;
+  let socket: WebSocket | null = null;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let attempt = 0;
+
+  // Retry after a lost link. Both onerror and onclose lead here and some
+  // runtimes only fire one of them, so only the first call per socket counts.
+  function lost(ws: WebSocket, h: TransportHandlers, why: string) {
+    if (socket !== ws) return;
+    socket = null;
+    ws.close();
+    const delay = Math.min(maxDelayMs, minDelayMs * 2 ** attempt++);
+    const jittered = Math.round(delay * (0.5 + Math.random() / 2));
+    h.onState(
+      "reconnecting",
+      `${why}; retry ${attempt} in ${(jittered / 1000).toFixed(1)} s`
+    );
+    timer = setTimeout(() => open(h), jittered);
+  }
+
+  function open(h: TransportHandlers) {
+    let ws: WebSocket;
+    try {
+      ws = new WebSocket(url);
+    } catch (e) {
+      // Malformed URL: retrying can't help
+      h.onState("error", e instanceof Error ? e.message : String(e));
+      return;
+    }
+    socket = ws;
+    ws.binaryType = "arraybuffer";
+    ws.onopen = () => {
+      attempt = 0;
+      h.onState("connected");
+    };
+    ws.onmessage = (ev: MessageEvent) => {
+      if (ev.data instanceof ArrayBuffer) {
+        h.onData(new Uint8Array(ev.data));
+        return;
+      }
+      try {
+        h.onData(Uint8Array.from(hexToBytes(String(ev.data))));
+      } catch (e) {
+        const msg = e instanceof Error ? e.message : String(e);
+        h.onState("connected", `Ignored a text message: ${msg}`);
+      }
+    };
+    // Browsers give no reason beyond the close code
+    ws.onerror = () => lost(ws, h, "Connection failed");
+    ws.onclose = (ev: CloseEvent) =>
+      lost(ws, h, `Connection closed (code ${ev.code})`);
+  }
+
+  return {
+    label: url,
+    async connect(h) {
+      handlers = h;
+      attempt = 0;
+      h.onState("connecting");
+      open(h);
+    },
+    async disconnect() {
+      clearTimeout(timer);
+      const ws = socket;
+      socket = null; // so its close event isn't taken for a lost link
+      ws?.close();
+      handlers?.onState("disconnected");
+    },
+  };
+}
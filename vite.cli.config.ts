@@ -0,0 +1,17 @@
+import { defineConfig } from "vite";
+
+// Node bundle of the command-line decoder (cli/red-decode.ts):
+//   npm run build:cli && node dist-cli/red-decode.js --help
+export default defineConfig({
+  build: {
+    ssr: "cli/red-decode.ts",
+    outDir: "dist-cli",
+    target: "node20",
+    rollupOptions: {
+      output: {
+        entryFileNames: "red-decode.js",
+        banner: "#!/usr/bin/env node",
+      },
+    },
+  },
+});